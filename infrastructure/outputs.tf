@@ -32,3 +32,28 @@ output "eventbridge_rule_name" {
   description = "Name of the EventBridge rule"
   value       = aws_cloudwatch_event_rule.scheduler.name
 }
+
+output "scrape_job_function_name" {
+  description = "Name of the scrape job worker Lambda function"
+  value       = aws_lambda_function.scrape_job.function_name
+}
+
+output "scrape_job_queue_url" {
+  description = "URL of the queue of scrape jobs dispatched by the scheduler"
+  value       = aws_sqs_queue.scrape_jobs.url
+}
+
+output "scrape_job_dlq_url" {
+  description = "URL of the dead-letter queue for scrape jobs whose worker crashed or timed out"
+  value       = aws_sqs_queue.scrape_jobs_dlq.url
+}
+
+output "notification_queue_url" {
+  description = "URL of the notification queue"
+  value       = aws_sqs_queue.notifications.url
+}
+
+output "notification_dlq_url" {
+  description = "URL of the dead-letter queue for notifications that keep failing"
+  value       = aws_sqs_queue.notifications_dlq.url
+}
@@ -58,7 +58,8 @@ resource "aws_iam_role_policy" "lambda_policy" {
         ]
         Resource = [
           aws_dynamodb_table.listings.arn,
-          "${aws_dynamodb_table.listings.arn}/index/*"
+          "${aws_dynamodb_table.listings.arn}/index/*",
+          aws_dynamodb_table.notification_state.arn
         ]
       },
       {
@@ -77,6 +78,19 @@ resource "aws_iam_role_policy" "lambda_policy" {
         ]
         Resource = aws_secretsmanager_secret.secrets.arn
       },
+      {
+        Effect = "Allow"
+        Action = [
+          "sqs:SendMessage",
+          "sqs:ReceiveMessage",
+          "sqs:DeleteMessage",
+          "sqs:GetQueueAttributes"
+        ]
+        Resource = [
+          aws_sqs_queue.notifications.arn,
+          aws_sqs_queue.scrape_jobs.arn
+        ]
+      },
       {
         Effect = "Allow"
         Action = [
@@ -116,6 +130,11 @@ resource "aws_dynamodb_table" "listings" {
     type = "S"
   }
 
+  attribute {
+    name = "fingerprint"
+    type = "S"
+  }
+
   global_secondary_index {
     name     = "FirstSeenIndex"
     hash_key = "scraperId"
@@ -123,6 +142,13 @@ resource "aws_dynamodb_table" "listings" {
     projection_type = "ALL"
   }
 
+  # Likely duplicates across scrapers, keyed by town and price band
+  global_secondary_index {
+    name     = "FingerprintIndex"
+    hash_key = "fingerprint"
+    projection_type = "ALL"
+  }
+
   ttl {
     attribute_name = "expiresAt"
     enabled        = true
@@ -135,6 +161,25 @@ resource "aws_dynamodb_table" "listings" {
   tags = local.common_tags
 }
 
+# DynamoDB Table for notification state (pending digests)
+resource "aws_dynamodb_table" "notification_state" {
+  name           = "${local.name_prefix}-notification-state"
+  billing_mode   = "PAY_PER_REQUEST"
+  hash_key       = "pk"
+
+  attribute {
+    name = "pk"
+    type = "S"
+  }
+
+  ttl {
+    attribute_name = "expiresAt"
+    enabled        = true
+  }
+
+  tags = local.common_tags
+}
+
 # SSM Parameter for configuration
 resource "aws_ssm_parameter" "config" {
   name  = "/${var.project_name}/${var.environment}/config"
@@ -198,6 +243,11 @@ resource "aws_secretsmanager_secret_version" "secrets" {
     "telegram-chat-id"    = ""
     "pushover-user-key"   = ""
     "pushover-app-token"  = ""
+    "smtp-username"       = ""
+    "smtp-password"       = ""
+    "discord-webhook-url" = ""
+    "ntfy-token"          = ""
+    "webhook-secret"      = ""
   })
 }
 
@@ -217,15 +267,81 @@ resource "aws_lambda_function" "scheduler" {
     variables = {
       STAGE                     = var.environment
       LISTINGS_TABLE           = aws_dynamodb_table.listings.name
+      NOTIFICATION_STATE_TABLE = aws_dynamodb_table.notification_state.name
       CONFIG_PARAMETER         = aws_ssm_parameter.config.name
       SECRETS_NAME             = aws_secretsmanager_secret.secrets.name
       MAX_CONCURRENT_SCRAPERS  = var.max_concurrent_scrapers
+      NOTIFICATION_DISPATCHER  = "sqs"
+      NOTIFICATION_QUEUE_URL   = aws_sqs_queue.notifications.url
+      SCRAPE_JOB_DISPATCHER    = "sqs"
+      SCRAPE_JOB_QUEUE_URL     = aws_sqs_queue.scrape_jobs.url
+    }
+  }
+
+  tags = local.common_tags
+}
+
+# Lambda function: Scrape job worker, one scraper run per invocation. Ships in
+# the scraper package.
+resource "aws_lambda_function" "scrape_job" {
+  filename         = "../dist/lambdas/scraper.zip"
+  function_name    = "${local.name_prefix}-scrape-job"
+  role            = aws_iam_role.lambda_role.arn
+  handler         = "handlers/scrape-job.handler"
+  runtime         = "nodejs18.x"
+  timeout         = 300 # SCRAPER_TIMEOUTS only bounds scraping; storing listings and sending alerts run after it
+  memory_size     = var.lambda_memory
+
+  source_code_hash = filebase64sha256("../dist/lambdas/scraper.zip")
+
+  environment {
+    variables = {
+      STAGE                    = var.environment
+      LISTINGS_TABLE           = aws_dynamodb_table.listings.name
+      NOTIFICATION_STATE_TABLE = aws_dynamodb_table.notification_state.name
+      CONFIG_PARAMETER         = aws_ssm_parameter.config.name
+      SECRETS_NAME             = aws_secretsmanager_secret.secrets.name
+      NOTIFICATION_DISPATCHER  = "sqs"
+      NOTIFICATION_QUEUE_URL   = aws_sqs_queue.notifications.url
+      RATE_LIMIT_BACKEND       = "dynamodb"
     }
   }
 
   tags = local.common_tags
 }
 
+# SQS queue of scrape jobs from the scheduler. Each job is received once: one
+# that crashes or times out its worker moves to the dead-letter queue instead
+# of scraping again, and the scraper runs again when its schedule comes due.
+resource "aws_sqs_queue" "scrape_jobs_dlq" {
+  name                      = "${local.name_prefix}-scrape-jobs-dlq"
+  message_retention_seconds = 1209600 # 14 days, the SQS maximum
+  tags                      = local.common_tags
+}
+
+resource "aws_sqs_queue" "scrape_jobs" {
+  name                       = "${local.name_prefix}-scrape-jobs"
+  visibility_timeout_seconds = 1800 # Six times the worker timeout, as AWS recommends
+  message_retention_seconds  = 3600
+
+  redrive_policy = jsonencode({
+    deadLetterTargetArn = aws_sqs_queue.scrape_jobs_dlq.arn
+    maxReceiveCount     = 1
+  })
+
+  tags = local.common_tags
+}
+
+resource "aws_lambda_event_source_mapping" "scrape_job" {
+  event_source_arn = aws_sqs_queue.scrape_jobs.arn
+  function_name    = aws_lambda_function.scrape_job.arn
+  batch_size       = 1
+
+  scaling_config {
+    maximum_concurrency = var.max_concurrent_scrapers
+  }
+}
+
 # Lambda function: Scraper
 resource "aws_lambda_function" "scraper" {
   filename         = "../dist/lambdas/scraper.zip"
@@ -242,8 +358,12 @@ resource "aws_lambda_function" "scraper" {
     variables = {
       STAGE            = var.environment
       LISTINGS_TABLE   = aws_dynamodb_table.listings.name
+      NOTIFICATION_STATE_TABLE = aws_dynamodb_table.notification_state.name
       CONFIG_PARAMETER = aws_ssm_parameter.config.name
       SECRETS_NAME     = aws_secretsmanager_secret.secrets.name
+      NOTIFICATION_DISPATCHER = "sqs"
+      NOTIFICATION_QUEUE_URL  = aws_sqs_queue.notifications.url
+      RATE_LIMIT_BACKEND      = "dynamodb"
     }
   }
 
@@ -266,14 +386,59 @@ resource "aws_lambda_function" "notifier" {
     variables = {
       STAGE            = var.environment
       LISTINGS_TABLE   = aws_dynamodb_table.listings.name
+      NOTIFICATION_STATE_TABLE = aws_dynamodb_table.notification_state.name
       CONFIG_PARAMETER = aws_ssm_parameter.config.name
       SECRETS_NAME     = aws_secretsmanager_secret.secrets.name
+      NOTIFICATION_MAX_ATTEMPTS = var.notification_max_attempts
     }
   }
 
   tags = local.common_tags
 }
 
+# SQS queue feeding the notifier. Records that fail are retried on their own
+# (partial batch responses) until they move to the dead-letter queue.
+resource "aws_sqs_queue" "notifications_dlq" {
+  name                      = "${local.name_prefix}-notifications-dlq"
+  message_retention_seconds = 1209600 # 14 days, the SQS maximum
+  tags                      = local.common_tags
+}
+
+resource "aws_sqs_queue" "notifications" {
+  name                       = "${local.name_prefix}-notifications"
+  visibility_timeout_seconds = 360 # Six times the notifier timeout, as AWS recommends
+
+  redrive_policy = jsonencode({
+    deadLetterTargetArn = aws_sqs_queue.notifications_dlq.arn
+    maxReceiveCount     = var.notification_max_attempts
+  })
+
+  tags = local.common_tags
+}
+
+resource "aws_lambda_event_source_mapping" "notifier" {
+  event_source_arn        = aws_sqs_queue.notifications.arn
+  function_name           = aws_lambda_function.notifier.arn
+  batch_size              = 10
+  function_response_types = ["ReportBatchItemFailures"]
+}
+
+# Alarm when notifications land in the dead-letter queue
+resource "aws_cloudwatch_metric_alarm" "notifications_dlq" {
+  alarm_name          = "${local.name_prefix}-notifications-dlq"
+  alarm_description   = "Notifications failed ${var.notification_max_attempts} times and were moved to the dead-letter queue"
+  namespace           = "AWS/SQS"
+  metric_name         = "ApproximateNumberOfMessagesVisible"
+  dimensions          = { QueueName = aws_sqs_queue.notifications_dlq.name }
+  statistic           = "Maximum"
+  period              = 300
+  evaluation_periods  = 1
+  threshold           = 0
+  comparison_operator = "GreaterThanThreshold"
+  treat_missing_data  = "notBreaching"
+  tags                = local.common_tags
+}
+
 # CloudWatch Log Groups
 resource "aws_cloudwatch_log_group" "scheduler" {
   name              = "/aws/lambda/${aws_lambda_function.scheduler.function_name}"
@@ -287,6 +452,12 @@ resource "aws_cloudwatch_log_group" "scraper" {
   tags              = local.common_tags
 }
 
+resource "aws_cloudwatch_log_group" "scrape_job" {
+  name              = "/aws/lambda/${aws_lambda_function.scrape_job.function_name}"
+  retention_in_days = 14
+  tags              = local.common_tags
+}
+
 resource "aws_cloudwatch_log_group" "notifier" {
   name              = "/aws/lambda/${aws_lambda_function.notifier.function_name}"
   retention_in_days = 14
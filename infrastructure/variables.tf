@@ -28,7 +28,7 @@ variable "scheduler_rate" {
 }
 
 variable "max_concurrent_scrapers" {
-  description = "Maximum number of scrapers to run concurrently"
+  description = "Maximum number of scrape jobs to run concurrently (at least 2)"
   type        = number
   default     = 10
 }
@@ -50,3 +50,9 @@ variable "lambda_memory" {
   type        = number
   default     = 1024
 }
+
+variable "notification_max_attempts" {
+  description = "Times a queued notification is tried before it moves to the dead-letter queue"
+  type        = number
+  default     = 5
+}
@@ -1,42 +1,64 @@
-import { SQSEvent, Context } from 'aws-lambda';
+import { SQSBatchResponse, SQSEvent, SQSRecord, Context } from 'aws-lambda';
 import { NotificationService } from '../services/notification';
 import { ConfigService } from '../services/config';
+import { createNotificationStore } from '../services/storage';
 import { NotificationPayload } from '../types';
 
+/**
+ * Sends queued notifications. Failed records are returned as partial batch
+ * failures so SQS retries only those; channels that already succeeded are
+ * skipped on the retry. Records that fail on every attempt end up in the
+ * dead-letter queue.
+ */
 export const handler = async (
   event: SQSEvent,
-  context: Context
-): Promise<void> => {
-  console.log('Notifier handler invoked:', JSON.stringify(event, null, 2));
-
-  const configService = new ConfigService();
+  _context: Context
+): Promise<SQSBatchResponse> => {
+  console.log(`Notifier handler invoked with ${event.Records.length} messages`);
 
   try {
     // Get secrets for notification services
-    const secrets = await configService.getSecrets();
-    const notificationService = new NotificationService(secrets);
-
-    // Process each message
-    const promises = event.Records.map(async (record) => {
-      try {
-        const payload: NotificationPayload = JSON.parse(record.body);
-        console.log(`Processing notification for listing ${payload.listing.listingId}`);
-
-        await notificationService.sendNotifications(payload);
-
-        console.log(`Notification sent successfully for listing ${payload.listing.listingId}`);
-      } catch (error) {
-        console.error(`Failed to process notification:`, error);
-        console.error(`Record body:`, record.body);
-        // Don't throw - we want to continue processing other messages
-      }
-    });
-
-    await Promise.allSettled(promises);
-    console.log(`Processed ${event.Records.length} notification messages`);
-
+    const secrets = await new ConfigService().getSecrets();
+    return await processNotificationRecords(event.Records, new NotificationService(secrets, createNotificationStore()));
   } catch (error) {
+    // Nothing was sent, so let SQS retry the whole batch
     console.error('Notifier handler error:', error);
     throw error;
   }
 };
+
+export const processNotificationRecords = async (
+  records: SQSRecord[],
+  notificationService: NotificationService,
+  maxAttempts: number = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5', 10)
+): Promise<SQSBatchResponse> => {
+  const results = await Promise.allSettled(records.map(async (record) => {
+    const payload: NotificationPayload = JSON.parse(record.body);
+    console.log(`Processing notification for listing ${payload.listing.listingId}`);
+
+    await notificationService.sendNotifications(payload);
+  }));
+
+  await notificationService.sendOverflowSummaries();
+
+  const batchItemFailures = records
+    .filter((record, index) => {
+      const result = results[index];
+      if (result.status === 'fulfilled') {
+        return false;
+      }
+
+      const attempt = parseInt(record.attributes.ApproximateReceiveCount, 10);
+      if (attempt >= maxAttempts) {
+        console.error(`Giving up on message ${record.messageId} after ${attempt} attempts, moving it to the dead-letter queue:`, result.reason);
+        console.error('Record body:', record.body);
+      } else {
+        console.error(`Message ${record.messageId} failed on attempt ${attempt} of ${maxAttempts}, will retry:`, result.reason);
+      }
+      return true;
+    })
+    .map(record => ({ itemIdentifier: record.messageId }));
+
+  console.log(`Processed ${records.length} notification messages, ${batchItemFailures.length} failed`);
+  return { batchItemFailures };
+};
@@ -1,7 +1,10 @@
 import { EventBridgeEvent, Context } from 'aws-lambda';
 import { ConfigService } from '../services/config';
 import { ScraperService } from '../services/scraper';
-import { ScrapingResult } from '../types';
+import { createScrapeJob, createScrapeJobDispatcher } from '../services/jobs';
+import { getNextRunAt, isDue, isWithinActiveHours } from '../services/schedule';
+import { createRunStore, createScheduleStore } from '../services/storage';
+import { RunStore, ScheduleState, ScheduleStore, ScrapeJob, ScrapeJobDispatcher, ScraperConfig } from '../types';
 
 export interface SchedulerEvent {
   source: string;
@@ -10,91 +13,102 @@ export interface SchedulerEvent {
 
 export const handler = async (
   event: EventBridgeEvent<'Scheduled Event', SchedulerEvent>,
-  context: Context
+  _context: Context
 ): Promise<void> => {
   console.log('Scheduler started:', JSON.stringify(event, null, 2));
 
-  const configService = new ConfigService();
-  const scraperService = new ScraperService();
-
   try {
-    // Get enabled scrapers
-    const enabledScrapers = await configService.getEnabledScrapers();
-    console.log(`Found ${enabledScrapers.length} enabled scrapers`);
+    const runStore = createRunStore();
+    const dispatcher = createScrapeJobDispatcher(new ScraperService(), runStore);
+    await runScheduledScrapers(new ConfigService(), dispatcher, createScheduleStore(), runStore);
+  } catch (error) {
+    console.error('Scheduler failed:', error);
+    throw error;
+  }
+};
 
-    if (enabledScrapers.length === 0) {
-      console.log('No enabled scrapers found, exiting');
-      return;
+// Enabled scrapers whose schedule says they should run now
+const findDueScrapers = async (
+  scrapers: ScraperConfig[],
+  scheduleStore: ScheduleStore,
+  now: Date
+): Promise<ScraperConfig[]> => {
+  const due: ScraperConfig[] = [];
+
+  for (const scraper of scrapers) {
+    if (!scraper.schedule) {
+      due.push(scraper);
+      continue;
     }
 
-    // Determine concurrency limit
-    const maxConcurrent = parseInt(process.env.MAX_CONCURRENT_SCRAPERS || '5', 10);
-    console.log(`Running up to ${maxConcurrent} scrapers concurrently`);
-
-    // Execute scrapers in batches
-    const results: ScrapingResult[] = [];
-
-    for (let i = 0; i < enabledScrapers.length; i += maxConcurrent) {
-      const batch = enabledScrapers.slice(i, i + maxConcurrent);
-      console.log(`Executing batch ${Math.floor(i / maxConcurrent) + 1}: ${batch.map(s => s.id).join(', ')}`);
-
-      const batchPromises = batch.map(scraper =>
-        scraperService.executeScraper(scraper.id)
-      );
-
-      const batchResults = await Promise.allSettled(batchPromises);
-
-      batchResults.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          results.push(result.value);
-        } else {
-          console.error(`Scraper ${batch[index].id} failed:`, result.reason);
-          results.push({
-            scraperId: batch[index].id,
-            success: false,
-            error: result.reason?.message || 'Unknown error',
-            newListings: [],
-            priceDrops: [],
-            totalFound: 0,
-            executionTime: 0,
-          });
-        }
-      });
-
-      // Small delay between batches to be respectful to target sites
-      if (i + maxConcurrent < enabledScrapers.length) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
+    let state: ScheduleState | null = null;
+    try {
+      state = await scheduleStore.getScheduleState(scraper.id);
+    } catch (error) {
+      // Running an extra time beats silently not running at all
+      console.error(`Could not read the schedule of scraper ${scraper.id}, running it:`, error);
     }
 
-    // Log summary
-    const totalNew = results.reduce((sum, r) => sum + r.newListings.length, 0);
-    const totalDrops = results.reduce((sum, r) => sum + r.priceDrops.length, 0);
-    const totalFound = results.reduce((sum, r) => sum + r.totalFound, 0);
-    const successCount = results.filter(r => r.success).length;
-    const avgExecutionTime = results.reduce((sum, r) => sum + r.executionTime, 0) / results.length;
-
-    console.log(`\n=== Scheduler Summary ===`);
-    console.log(`Total scrapers: ${enabledScrapers.length}`);
-    console.log(`Successful: ${successCount}`);
-    console.log(`Failed: ${enabledScrapers.length - successCount}`);
-    console.log(`Total listings found: ${totalFound}`);
-    console.log(`New listings: ${totalNew}`);
-    console.log(`Price drops: ${totalDrops}`);
-    console.log(`Average execution time: ${avgExecutionTime.toFixed(0)}ms`);
-    console.log(`========================\n`);
-
-    // Log individual scraper results
-    results.forEach(result => {
-      if (result.success) {
-        console.log(`✅ ${result.scraperId}: ${result.newListings.length} new, ${result.priceDrops.length} drops (${result.executionTime}ms)`);
-      } else {
-        console.log(`❌ ${result.scraperId}: ${result.error} (${result.executionTime}ms)`);
-      }
-    });
+    if (isDue(scraper.schedule, state, now)) {
+      due.push(scraper);
+    } else if (!isWithinActiveHours(scraper.schedule, now)) {
+      console.log(`Skipping ${scraper.id}: outside active hours`);
+    } else {
+      console.log(`Skipping ${scraper.id}: next run at ${state?.nextRunAt}`);
+    }
+  }
+
+  return due;
+};
+
+const recordRun = async (scraper: ScraperConfig, scheduleStore: ScheduleStore, ranAt: Date): Promise<void> => {
+  if (!scraper.schedule) {
+    return;
+  }
 
+  try {
+    await scheduleStore.saveScheduleState(scraper.id, {
+      lastRunAt: ranAt.toISOString(),
+      nextRunAt: getNextRunAt(scraper.schedule, ranAt).toISOString(),
+    });
   } catch (error) {
-    console.error('Scheduler failed:', error);
-    throw error;
+    console.error(`Failed to record the run of scraper ${scraper.id}:`, error);
+  }
+};
+
+/**
+ * Dispatches one job for every enabled scraper that is due (see
+ * services/schedule.ts). Each job runs in isolation with its marketplace's
+ * timeout, and the last one to finish logs the run summary. Shared by the
+ * Lambda handler and the local runner; returns the dispatched jobs.
+ */
+export const runScheduledScrapers = async (
+  configService: ConfigService,
+  dispatcher: ScrapeJobDispatcher,
+  scheduleStore: ScheduleStore = createScheduleStore(),
+  runStore: RunStore = createRunStore()
+): Promise<ScrapeJob[]> => {
+  const now = new Date();
+
+  // Get enabled scrapers
+  const enabledScrapers = await configService.getEnabledScrapers();
+  console.log(`Found ${enabledScrapers.length} enabled scrapers`);
+
+  const dueScrapers = await findDueScrapers(enabledScrapers, scheduleStore, now);
+  if (dueScrapers.length === 0) {
+    console.log('No scrapers due, exiting');
+    return [];
   }
+
+  const runId = now.toISOString();
+  const jobs = dueScrapers.map(scraper => createScrapeJob(runId, scraper));
+  console.log(`Dispatching ${jobs.length} scrape jobs for run ${runId}: ${jobs.map(job => job.scraperId).join(', ')}`);
+
+  await runStore.startRun(runId, jobs.length, now.toISOString());
+  await dispatcher.dispatch(jobs);
+
+  // Failed runs count too, so a broken scraper waits for its next run like the others
+  await Promise.all(dueScrapers.map(scraper => recordRun(scraper, scheduleStore, now)));
+
+  return jobs;
 };
@@ -0,0 +1,29 @@
+import { SQSEvent, Context } from 'aws-lambda';
+import { ScraperService } from '../services/scraper';
+import { runScrapeJob } from '../services/jobs';
+import { createRunStore } from '../services/storage';
+import { ScrapeJob } from '../types';
+
+/**
+ * Runs scrape jobs queued by the scheduler, one per invocation. Jobs are not
+ * retried: a failed or timed-out scrape is recorded as failed, and a job
+ * whose invocation crashes or times out moves to the dead-letter queue
+ * (the queue allows one receive). Either way the scraper runs again when
+ * its schedule next comes due.
+ */
+export const handler = async (
+  event: SQSEvent,
+  _context: Context
+): Promise<void> => {
+  console.log(`Scrape job handler invoked with ${event.Records.length} jobs`);
+
+  const scraperService = new ScraperService();
+  const runStore = createRunStore();
+
+  for (const record of event.Records) {
+    const job: ScrapeJob = JSON.parse(record.body);
+    console.log(`Running scraper ${job.scraperId} for run ${job.runId} (timeout ${job.timeoutMs}ms)`);
+
+    await runScrapeJob(job, scraperService, runStore);
+  }
+};
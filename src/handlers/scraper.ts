@@ -7,7 +7,7 @@ export interface ScraperRequest {
 
 export const handler = async (
   event: APIGatewayProxyEvent,
-  context: Context
+  _context: Context
 ): Promise<APIGatewayProxyResult> => {
   console.log('Scraper handler invoked:', JSON.stringify(event, null, 2));
 
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import { ConfigService } from './services/config';
+import { ScraperService } from './services/scraper';
+import { createScrapeJobDispatcher } from './services/jobs';
+import { createRunStore, createScheduleStore } from './services/storage';
+import { runScheduledScrapers } from './handlers/scheduler';
+import { sleep } from './utils/helpers';
+
+export interface LocalRunnerOptions {
+  configFile: string;
+  secretsFile: string;
+  databaseFile: string;
+  intervalMinutes: number;
+  once?: boolean;
+}
+
+/**
+ * Runs the scheduler loop on this machine: configuration and secrets come
+ * from JSON files and listings are stored in SQLite, so no AWS account is
+ * needed.
+ */
+export const startLocalRunner = async (options: LocalRunnerOptions): Promise<void> => {
+  process.env.CONFIG_FILE = path.resolve(options.configFile);
+  process.env.SECRETS_FILE = path.resolve(options.secretsFile);
+  process.env.STORAGE_BACKEND = 'sqlite';
+  process.env.SQLITE_PATH = path.resolve(options.databaseFile);
+  process.env.NOTIFICATION_DISPATCHER = 'in-process';
+  process.env.SCRAPE_JOB_DISPATCHER = 'in-process';
+
+  const configService = new ConfigService();
+  const scheduleStore = createScheduleStore();
+  const runStore = createRunStore();
+  const dispatcher = createScrapeJobDispatcher(new ScraperService(), runStore);
+  const intervalMs = options.intervalMinutes * 60 * 1000;
+
+  console.log(`Local runner using ${process.env.CONFIG_FILE} with listings in ${process.env.SQLITE_PATH}`);
+
+  for (;;) {
+    const startedAt = Date.now();
+
+    try {
+      await runScheduledScrapers(configService, dispatcher, scheduleStore, runStore);
+    } catch (error) {
+      // Keep the loop alive; the next run may succeed (e.g. after fixing the config file)
+      console.error('Scheduled run failed:', error);
+    }
+
+    if (options.once) {
+      return;
+    }
+
+    const waitMs = Math.max(0, intervalMs - (Date.now() - startedAt));
+    console.log(`Next run in ${Math.round(waitMs / 1000)}s`);
+    await sleep(waitMs);
+  }
+};
@@ -0,0 +1,230 @@
+import { SecretsConfig } from '../types';
+import { isValidEmail, isValidUrl } from '../utils/helpers';
+
+/**
+ * Building blocks for configuration validation. Shared by the app config
+ * validator and by notification channels, which describe their own settings.
+ */
+
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+export type Rule = (value: unknown, path: string, issues: ConfigIssue[]) => void;
+
+export interface FieldSpec {
+  required?: boolean;
+  rule: Rule;
+}
+
+export type ObjectSchema = Record<string, FieldSpec>;
+
+export const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const stringField = (options: { nonEmpty?: boolean } = {}): Rule => (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: `expected a string, got ${describeValue(value)}` });
+  } else if (options.nonEmpty && value.trim() === '') {
+    issues.push({ path, message: 'must not be empty' });
+  }
+};
+
+export const numberField = (options: { min?: number; max?: number; integer?: boolean; exclusiveMin?: boolean } = {}): Rule =>
+  (value, path, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ path, message: `expected a number, got ${describeValue(value)}` });
+      return;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ path, message: `must be a whole number, got ${value}` });
+    }
+    if (options.min !== undefined) {
+      if (options.exclusiveMin ? value <= options.min : value < options.min) {
+        issues.push({ path, message: `must be ${options.exclusiveMin ? 'greater than' : 'at least'} ${options.min}, got ${value}` });
+      }
+    }
+    if (options.max !== undefined && value > options.max) {
+      issues.push({ path, message: `must be at most ${options.max}, got ${value}` });
+    }
+  };
+
+export const booleanField = (): Rule => (value, path, issues) => {
+  if (typeof value !== 'boolean') {
+    issues.push({ path, message: `expected true or false, got ${describeValue(value)}` });
+  }
+};
+
+export const oneOfField = (values: readonly string[]): Rule => (value, path, issues) => {
+  if (typeof value !== 'string' || !values.includes(value)) {
+    issues.push({ path, message: `must be one of ${values.map(v => `"${v}"`).join(', ')}, got ${describeValue(value)}` });
+  }
+};
+
+export const stringArrayField = (): Rule => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: `expected an array of strings, got ${describeValue(value)}` });
+    return;
+  }
+  value.forEach((item, index) => stringField({ nonEmpty: true })(item, `${path}[${index}]`, issues));
+};
+
+export const urlField = (): Rule => (value, path, issues) => {
+  if (typeof value !== 'string' || !isValidUrl(value)) {
+    issues.push({ path, message: `expected a URL, got ${describeValue(value)}` });
+  }
+};
+
+export const stringMapField = (): Rule => (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected an object of strings, got ${describeValue(value)}` });
+    return;
+  }
+  Object.entries(value).forEach(([key, item]) => stringField()(item, `${path}.${key}`, issues));
+};
+
+// "Peddler <alerts@example.com>" → "alerts@example.com"
+export const emailAddress = (value: string): string => value.match(/<([^>]+)>\s*$/)?.[1] ?? value.trim();
+
+export const emailListField = (): Rule => (value, path, issues) => {
+  stringArrayField()(value, path, issues);
+  if (!Array.isArray(value)) {
+    return;
+  }
+  value.forEach((address, index) => {
+    if (typeof address === 'string' && address.trim() !== '' && !isValidEmail(emailAddress(address))) {
+      issues.push({ path: `${path}[${index}]`, message: `is not a valid email address: ${JSON.stringify(address)}` });
+    }
+  });
+};
+
+export const objectField = (schema: ObjectSchema): Rule => (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected an object, got ${describeValue(value)}` });
+    return;
+  }
+
+  for (const [field, spec] of Object.entries(schema)) {
+    if (value[field] === undefined) {
+      if (spec.required) {
+        issues.push({ path: `${path}.${field}`, message: 'is required' });
+      }
+      continue;
+    }
+    spec.rule(value[field], `${path}.${field}`, issues);
+  }
+
+  for (const field of Object.keys(value)) {
+    if (!(field in schema)) {
+      const suggestion = closestMatch(field, Object.keys(schema));
+      issues.push({
+        path: `${path}.${field}`,
+        message: `unknown field${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+      });
+    }
+  }
+};
+
+export const validateSecretReference = (
+  value: string,
+  path: string,
+  issues: ConfigIssue[],
+  secrets?: Partial<SecretsConfig>
+): void => {
+  const secretKey = value.replace('-from-secrets', '');
+  if (secrets && !secrets[secretKey]) {
+    issues.push({ path, message: `references secret "${secretKey}", which is not set` });
+  }
+};
+
+// Where an enabled channel's settings live and what to check secret references against
+export interface ChannelValidationContext {
+  type: string;
+  path: string;
+  issues: ConfigIssue[];
+  secrets?: Partial<SecretsConfig>;
+}
+
+/**
+ * Check a credential an enabled channel can't work without. Literal values
+ * are passed to `check`, which returns a message when the value is unusable;
+ * `-from-secrets` references are resolved against the secrets instead.
+ */
+export const requireCredential = (
+  settings: Record<string, unknown>,
+  field: string,
+  context: ChannelValidationContext,
+  check?: (value: string) => string | undefined
+): void => {
+  const value = settings[field];
+  const path = `${context.path}.${field}`;
+
+  if (typeof value !== 'string' || value.trim() === '') {
+    context.issues.push({ path, message: `is required when ${context.type} is enabled` });
+    return;
+  }
+
+  if (value.includes('-from-secrets')) {
+    validateSecretReference(value, path, context.issues, context.secrets);
+    return;
+  }
+
+  const message = check?.(value);
+  if (message) {
+    context.issues.push({ path, message });
+  }
+};
+
+// Optional settings may still reference secrets that have to exist
+export const checkSecretReference = (settings: Record<string, unknown>, field: string, context: ChannelValidationContext): void => {
+  const value = settings[field];
+  if (typeof value === 'string' && value.includes('-from-secrets')) {
+    validateSecretReference(value, `${context.path}.${field}`, context.issues, context.secrets);
+  }
+};
+
+export const mustBeUrl = (value: string): string | undefined => {
+  return isValidUrl(value) ? undefined : 'must be a URL or a "-from-secrets" reference';
+};
+
+export const mustBeEmail = (value: string): string | undefined => {
+  return isValidEmail(emailAddress(value)) ? undefined : `is not a valid email address: ${JSON.stringify(value)}`;
+};
+
+export const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value);
+  return typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`;
+};
+
+const closestMatch = (field: string, candidates: string[]): string | undefined => {
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(field.toLowerCase(), candidate.toLowerCase());
+    if (distance <= 3 && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  return best?.candidate;
+};
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+
+  return row[b.length];
+};
@@ -0,0 +1,438 @@
+import { SecretsConfig } from '../types';
+import { getSupportedMarketplaces, isSupportedMarketplace } from './scrapers';
+import { ChannelType, createNotificationChannel, getSupportedChannels, isSupportedChannel } from './notifiers';
+import { getTemplateChannels } from './notifiers/preview';
+import { findTemplateError } from './notifiers/templates';
+import { findFilterError } from './filters';
+import { findPlace } from './geo';
+import { WEEKDAYS, getNextCronTime, parseInterval } from './schedule';
+import { isSupportedCurrency } from '../utils/prices';
+import {
+  ConfigIssue,
+  ObjectSchema,
+  Rule,
+  booleanField,
+  describeValue,
+  isObject,
+  numberField,
+  objectField,
+  oneOfField,
+  stringArrayField,
+  stringField,
+} from './config-rules';
+import { ERROR_MESSAGES, NOTIFICATION_TYPES } from '../utils/constants';
+
+export type { ConfigIssue } from './config-rules';
+
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(`${ERROR_MESSAGES.INVALID_CONFIG}:\n${formatConfigIssues(issues)}`);
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+  }
+}
+
+const marketplaceField = (): Rule => (value, path, issues) => {
+  if (typeof value !== 'string' || !isSupportedMarketplace(value)) {
+    issues.push({
+      path,
+      message: `unsupported marketplace ${JSON.stringify(value)} (supported: ${getSupportedMarketplaces().join(', ')})`,
+    });
+  }
+};
+
+const priceDropThresholdField = (): Rule => (value, path, issues) => {
+  if (typeof value === 'number' && value > 1) {
+    issues.push({
+      path,
+      message: `must be a fraction between 0 and 1, got ${value} (for ${value}% use ${value / 100})`,
+    });
+    return;
+  }
+  numberField({ min: 0, exclusiveMin: true, max: 1 })(value, path, issues);
+};
+
+const currencyField = (): Rule => (value, path, issues) => {
+  if (typeof value !== 'string' || !isSupportedCurrency(value)) {
+    issues.push({ path, message: `expected a supported ISO 4217 currency code such as "USD" or "CAD", got ${describeValue(value)}` });
+  }
+};
+
+const exchangeRatesField = (): Rule => (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected an object of currency codes and rates, got ${describeValue(value)}` });
+    return;
+  }
+  for (const [currency, rate] of Object.entries(value)) {
+    currencyField()(currency, `${path}.${currency}`, issues);
+    numberField({ min: 0, exclusiveMin: true })(rate, `${path}.${currency}`, issues);
+  }
+};
+
+const DELIVERY_MODES = ['immediate', 'batch', 'hourly', 'daily'];
+
+const timeOfDayField = (): Rule => (value, path, issues) => {
+  if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+    issues.push({ path, message: `expected a time such as "22:00", got ${describeValue(value)}` });
+  }
+};
+
+const timezoneField = (): Rule => (value, path, issues) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: String(value) });
+  } catch {
+    issues.push({ path, message: `unknown timezone ${describeValue(value)} (use an IANA name such as "America/Los_Angeles")` });
+    return;
+  }
+  stringField()(value, path, issues);
+};
+
+const QUIET_HOURS_SCHEMA: ObjectSchema = {
+  start: { required: true, rule: timeOfDayField() },
+  end: { required: true, rule: timeOfDayField() },
+  timezone: { rule: timezoneField() },
+  mode: { rule: oneOfField(['hold', 'low_priority']) },
+};
+
+// Settings every channel accepts, plus the channel's own
+const channelSchema = (type: ChannelType): ObjectSchema => ({
+  enabled: { required: true, rule: booleanField() },
+  id: { rule: stringField({ nonEmpty: true }) },
+  delivery: { rule: oneOfField(DELIVERY_MODES) },
+  quietHours: { rule: objectField(QUIET_HOURS_SCHEMA) },
+  maxPerHour: { rule: numberField({ min: 1, integer: true }) },
+  ...createNotificationChannel(type).configSchema,
+});
+
+const channelEntryField = (): Rule => (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `expected an object, got ${describeValue(value)}` });
+    return;
+  }
+  if (typeof value.type !== 'string' || !isSupportedChannel(value.type)) {
+    if (value.type === undefined) {
+      issues.push({ path: `${path}.type`, message: 'is required' });
+    } else {
+      oneOfField(getSupportedChannels())(value.type, `${path}.type`, issues);
+    }
+    return;
+  }
+  objectField({ type: { required: true, rule: stringField() }, ...channelSchema(value.type) })(value, path, issues);
+};
+
+// Older configs key one instance of each channel by its type
+const LEGACY_NOTIFICATIONS_SCHEMA: ObjectSchema = Object.fromEntries(
+  getSupportedChannels().map(type => [type, { rule: objectField(channelSchema(type)) }])
+);
+
+const notificationsField = (): Rule => (value, path, issues) => {
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) => channelEntryField()(entry, `${path}[${index}]`, issues));
+  } else {
+    objectField(LEGACY_NOTIFICATIONS_SCHEMA)(value, path, issues);
+  }
+};
+
+const templateField = (): Rule => (value, path, issues) => {
+  stringField()(value, path, issues);
+  const error = typeof value === 'string' ? findTemplateError(value) : undefined;
+  if (error) {
+    issues.push({ path, message: `invalid template: ${error}` });
+  }
+};
+
+const filterField = (): Rule => (value, path, issues) => {
+  stringField()(value, path, issues);
+  const error = typeof value === 'string' ? findFilterError(value) : undefined;
+  if (error) {
+    issues.push({ path, message: `invalid filter: ${error}` });
+  }
+};
+
+// Channel type → notification type → template, for channels that support templates
+const TEMPLATES_SCHEMA: ObjectSchema = Object.fromEntries(
+  getTemplateChannels().map(channel => [
+    channel,
+    { rule: objectField(Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, { rule: templateField() }]))) },
+  ])
+);
+
+const ALERTS_SCHEMA: ObjectSchema = {
+  newListing: { rule: booleanField() },
+  priceDrop: { rule: booleanField() },
+  priceIncrease: { rule: booleanField() },
+  listingRemoved: { rule: booleanField() },
+  relisted: { rule: booleanField() },
+  removedAfterMissedRuns: { rule: numberField({ min: 1, integer: true }) },
+  groupDuplicates: { rule: booleanField() },
+};
+
+const ENRICHMENT_SCHEMA: ObjectSchema = {
+  enabled: { required: true, rule: booleanField() },
+  maxPerRun: { rule: numberField({ min: 1, integer: true }) },
+};
+
+const MARKET_VALUE_SCHEMA: ObjectSchema = {
+  enabled: { required: true, rule: booleanField() },
+  bucketBy: { rule: oneOfField(['year', 'keyword']) },
+  keywords: { rule: stringArrayField() },
+  alertBelowPercentile: { rule: numberField({ min: 0, exclusiveMin: true, max: 100 }) },
+  minSamples: { rule: numberField({ min: 1, integer: true }) },
+};
+
+const marketValueField = (): Rule => (value, path, issues) => {
+  objectField(MARKET_VALUE_SCHEMA)(value, path, issues);
+  if (isObject(value) && value.bucketBy === 'keyword' && !(Array.isArray(value.keywords) && value.keywords.length > 0)) {
+    issues.push({ path: `${path}.keywords`, message: 'is required when bucketBy is "keyword"' });
+  }
+};
+
+const intervalField = (): Rule => (value, path, issues) => {
+  if (typeof value !== 'string' || parseInterval(value) === undefined) {
+    issues.push({ path, message: `expected an interval such as "15m", "2h" or "1d", got ${describeValue(value)}` });
+  }
+};
+
+const cronField = (): Rule => (value, path, issues) => {
+  stringField()(value, path, issues);
+  if (typeof value !== 'string') {
+    return;
+  }
+  try {
+    getNextCronTime(value, new Date());
+  } catch (error) {
+    issues.push({ path, message: `invalid cron expression: ${(error as Error).message}` });
+  }
+};
+
+const weekdaysField = (): Rule => (value, path, issues) => {
+  stringArrayField()(value, path, issues);
+  if (Array.isArray(value)) {
+    value.forEach((day, index) => {
+      if (typeof day === 'string' && !WEEKDAYS.includes(day)) {
+        issues.push({ path: `${path}[${index}]`, message: `expected one of ${WEEKDAYS.join(', ')}, got ${describeValue(day)}` });
+      }
+    });
+  }
+};
+
+const ACTIVE_HOURS_SCHEMA: ObjectSchema = {
+  start: { required: true, rule: timeOfDayField() },
+  end: { required: true, rule: timeOfDayField() },
+  days: { rule: weekdaysField() },
+};
+
+const SCHEDULE_SCHEMA: ObjectSchema = {
+  every: { rule: intervalField() },
+  cron: { rule: cronField() },
+  timezone: { rule: timezoneField() },
+  activeHours: {
+    rule: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array of windows, got ${describeValue(value)}` });
+        return;
+      }
+      value.forEach((window, index) => objectField(ACTIVE_HOURS_SCHEMA)(window, `${path}[${index}]`, issues));
+    },
+  },
+  jitterMinutes: { rule: numberField({ min: 0 }) },
+};
+
+const scheduleField = (): Rule => (value, path, issues) => {
+  objectField(SCHEDULE_SCHEMA)(value, path, issues);
+  if (isObject(value) && (value.every === undefined) === (value.cron === undefined)) {
+    issues.push({ path, message: 'needs either every or cron, not both' });
+  }
+};
+
+const SCRAPER_SCHEMA: ObjectSchema = {
+  id: { required: true, rule: stringField({ nonEmpty: true }) },
+  name: { required: true, rule: stringField({ nonEmpty: true }) },
+  enabled: { required: true, rule: booleanField() },
+  marketplace: { required: true, rule: marketplaceField() },
+  query: { required: true, rule: stringField({ nonEmpty: true }) },
+  location: { required: true, rule: stringField({ nonEmpty: true }) },
+  radius: { required: true, rule: numberField({ min: 0 }) },
+  currency: { rule: currencyField() },
+  priceMin: { rule: numberField({ min: 0 }) },
+  priceMax: { rule: numberField({ min: 0 }) },
+  includeKeywords: { rule: stringArrayField() },
+  excludeKeywords: { rule: stringArrayField() },
+  filter: { rule: filterField() },
+  scrollDepth: { required: true, rule: numberField({ min: 1, max: 20, integer: true }) },
+  priceDropThreshold: { required: true, rule: priceDropThresholdField() },
+  auctionEndingWindowMinutes: { rule: numberField({ min: 0, exclusiveMin: true }) },
+  alerts: { rule: objectField(ALERTS_SCHEMA) },
+  enrichment: { rule: objectField(ENRICHMENT_SCHEMA) },
+  marketValue: { rule: marketValueField() },
+  maxDistance: { rule: numberField({ min: 0, exclusiveMin: true }) },
+  sortByDistance: { rule: booleanField() },
+  urgentBelowPrice: { rule: numberField({ min: 0 }) },
+  schedule: { rule: scheduleField() },
+  notifications: { required: true, rule: notificationsField() },
+  templates: { rule: objectField(TEMPLATES_SCHEMA) },
+};
+
+const HOME_SCHEMA: ObjectSchema = {
+  name: { required: true, rule: stringField({ nonEmpty: true }) },
+  location: { rule: stringField({ nonEmpty: true }) },
+  latitude: { rule: numberField({ min: -90, max: 90 }) },
+  longitude: { rule: numberField({ min: -180, max: 180 }) },
+};
+
+// A home is placed by its coordinates, or else by a location the gazetteer knows
+const homeField = (): Rule => (value, path, issues) => {
+  objectField(HOME_SCHEMA)(value, path, issues);
+  if (!isObject(value)) {
+    return;
+  }
+
+  if ((value.latitude === undefined) !== (value.longitude === undefined)) {
+    issues.push({ path, message: 'latitude and longitude must be set together' });
+  } else if (value.latitude === undefined && value.location === undefined) {
+    issues.push({ path, message: 'needs a location or latitude and longitude' });
+  } else if (value.latitude === undefined && typeof value.location === 'string' && value.location.trim() !== '' && !findPlace(value.location)) {
+    issues.push({
+      path: `${path}.location`,
+      message: `unknown location "${value.location}"; use a larger nearby city, a ZIP code, or latitude and longitude`,
+    });
+  }
+};
+
+const RATE_LIMIT_SCHEMA: ObjectSchema = {
+  intervalMs: { rule: numberField({ min: 0 }) },
+  burst: { rule: numberField({ min: 1, integer: true }) },
+  hostIntervalMs: { rule: numberField({ min: 0 }) },
+  hostBurst: { rule: numberField({ min: 1, integer: true }) },
+};
+
+const RATE_LIMITS_SCHEMA: ObjectSchema = Object.fromEntries(
+  getSupportedMarketplaces().map(marketplace => [marketplace, { rule: objectField(RATE_LIMIT_SCHEMA) }])
+);
+
+const APP_CONFIG_SCHEMA: ObjectSchema = {
+  exchangeRates: { rule: exchangeRatesField() },
+  rateLimits: { rule: objectField(RATE_LIMITS_SCHEMA) },
+  homes: {
+    rule: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array of homes, got ${describeValue(value)}` });
+        return;
+      }
+      value.forEach((home, index) => homeField()(home, `${path}[${index}]`, issues));
+    },
+  },
+  scrapers: {
+    required: true,
+    rule: (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array of scrapers, got ${describeValue(value)}` });
+        return;
+      }
+      value.forEach((scraper, index) => objectField(SCRAPER_SCHEMA)(scraper, `${path}[${index}]`, issues));
+    },
+  },
+};
+
+/**
+ * Check a parsed configuration against the AppConfig shape and report every
+ * problem with its JSON path. When secrets are given, `-from-secrets`
+ * references are also resolved against them.
+ */
+export const validateAppConfig = (config: unknown, secrets?: Partial<SecretsConfig>): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+
+  objectField(APP_CONFIG_SCHEMA)(config, '$', issues);
+
+  if (!isObject(config) || !Array.isArray(config.scrapers)) {
+    return issues;
+  }
+
+  const seenIds = new Map<string, number>();
+
+  config.scrapers.forEach((scraper, index) => {
+    if (!isObject(scraper)) {
+      return;
+    }
+
+    const path = `$.scrapers[${index}]`;
+
+    // Duplicate IDs would share listings and dedup state
+    if (typeof scraper.id === 'string') {
+      const firstIndex = seenIds.get(scraper.id);
+      if (firstIndex !== undefined) {
+        issues.push({ path: `${path}.id`, message: `duplicate scraper id "${scraper.id}" (also used by $.scrapers[${firstIndex}])` });
+      } else {
+        seenIds.set(scraper.id, index);
+      }
+    }
+
+    if (typeof scraper.priceMin === 'number' && typeof scraper.priceMax === 'number' && scraper.priceMin > scraper.priceMax) {
+      issues.push({ path: `${path}.priceMin`, message: `must not exceed priceMax (${scraper.priceMin} > ${scraper.priceMax})` });
+    }
+
+    if (scraper.notifications !== undefined) {
+      validateChannels(scraper.notifications, `${path}.notifications`, issues, secrets);
+    }
+  });
+
+  return issues;
+};
+
+// Checks that need the whole channel entry: credentials, secret references and unique ids
+const validateChannels = (
+  notifications: unknown,
+  path: string,
+  issues: ConfigIssue[],
+  secrets?: Partial<SecretsConfig>
+): void => {
+  const entries: [unknown, string, unknown][] = Array.isArray(notifications)
+    ? notifications.map((entry, index) => [isObject(entry) ? entry.type : undefined, `${path}[${index}]`, entry])
+    : Object.entries(isObject(notifications) ? notifications : {}).map(([type, entry]) => [type, `${path}.${type}`, entry]);
+
+  const seenIds = new Map<string, string>();
+
+  for (const [type, entryPath, settings] of entries) {
+    if (typeof type !== 'string' || !isSupportedChannel(type) || !isObject(settings)) {
+      continue;
+    }
+
+    // Instances sharing an id would share digests and hourly counts
+    const id = typeof settings.id === 'string' ? settings.id : type;
+    const firstPath = seenIds.get(id);
+    if (firstPath !== undefined) {
+      issues.push({ path: `${entryPath}.id`, message: `duplicate channel id "${id}" (also used by ${firstPath}); give each channel of the same type a unique id` });
+    } else {
+      seenIds.set(id, entryPath);
+    }
+
+    if (settings.enabled === true) {
+      createNotificationChannel(type).validateConfig(settings, { type, path: entryPath, issues, secrets });
+    }
+  }
+};
+
+/**
+ * Every `-from-secrets` reference in a configuration, for listing the ones
+ * that couldn't be resolved when no secrets were given.
+ */
+export const findSecretReferences = (value: unknown, path = '$'): ConfigIssue[] => {
+  if (typeof value === 'string') {
+    return value.includes('-from-secrets')
+      ? [{ path, message: `references secret "${value.replace('-from-secrets', '')}", which was not checked` }]
+      : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findSecretReferences(item, `${path}[${index}]`));
+  }
+  if (isObject(value)) {
+    return Object.entries(value).flatMap(([field, item]) => findSecretReferences(item, `${path}.${field}`));
+  }
+  return [];
+};
+
+export const formatConfigIssues = (issues: ConfigIssue[]): string => {
+  return issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n');
+};
@@ -1,6 +1,8 @@
+import { promises as fs } from 'fs';
 import { SSMClient, GetParameterCommand } from '@aws-sdk/client-ssm';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import { AppConfig, SecretsConfig } from '../types';
+import { ConfigValidationError, validateAppConfig } from './config-validator';
 
 export class ConfigService {
   private ssmClient: SSMClient;
@@ -21,23 +23,17 @@ export class ConfigService {
     }
 
     try {
-      const parameterName = process.env.CONFIG_PARAMETER;
-      if (!parameterName) {
-        throw new Error('CONFIG_PARAMETER environment variable not set');
+      const value = await this.loadConfigValue();
+      const config: AppConfig = JSON.parse(value);
+
+      // Resolve -from-secrets references too when the secrets are reachable
+      const secrets = await this.getSecrets().catch(() => undefined);
+      const issues = validateAppConfig(config, secrets);
+      if (issues.length > 0) {
+        throw new ConfigValidationError(issues);
       }
 
-      const command = new GetParameterCommand({
-        Name: parameterName,
-        WithDecryption: true,
-      });
-
-      const response = await this.ssmClient.send(command);
-
-      if (!response.Parameter?.Value) {
-        throw new Error('Configuration parameter not found or empty');
-      }
-
-      this.configCache = JSON.parse(response.Parameter.Value);
+      this.configCache = config;
       this.cacheExpiry = Date.now() + this.CACHE_TTL;
 
       return this.configCache!;
@@ -53,22 +49,9 @@ export class ConfigService {
     }
 
     try {
-      const secretName = process.env.SECRETS_NAME;
-      if (!secretName) {
-        throw new Error('SECRETS_NAME environment variable not set');
-      }
-
-      const command = new GetSecretValueCommand({
-        SecretId: secretName,
-      });
+      const value = await this.loadSecretsValue();
 
-      const response = await this.secretsClient.send(command);
-
-      if (!response.SecretString) {
-        throw new Error('Secrets not found or empty');
-      }
-
-      this.secretsCache = JSON.parse(response.SecretString);
+      this.secretsCache = JSON.parse(value);
       this.cacheExpiry = Date.now() + this.CACHE_TTL;
 
       return this.secretsCache!;
@@ -78,6 +61,55 @@ export class ConfigService {
     }
   }
 
+  private async loadConfigValue(): Promise<string> {
+    // Local mode reads configuration from a file instead of SSM
+    if (process.env.CONFIG_FILE) {
+      return fs.readFile(process.env.CONFIG_FILE, 'utf8');
+    }
+
+    const parameterName = process.env.CONFIG_PARAMETER;
+    if (!parameterName) {
+      throw new Error('CONFIG_PARAMETER environment variable not set');
+    }
+
+    const command = new GetParameterCommand({
+      Name: parameterName,
+      WithDecryption: true,
+    });
+
+    const response = await this.ssmClient.send(command);
+
+    if (!response.Parameter?.Value) {
+      throw new Error('Configuration parameter not found or empty');
+    }
+
+    return response.Parameter.Value;
+  }
+
+  private async loadSecretsValue(): Promise<string> {
+    // Local mode reads secrets from a file instead of Secrets Manager
+    if (process.env.SECRETS_FILE) {
+      return fs.readFile(process.env.SECRETS_FILE, 'utf8');
+    }
+
+    const secretName = process.env.SECRETS_NAME;
+    if (!secretName) {
+      throw new Error('SECRETS_NAME environment variable not set');
+    }
+
+    const command = new GetSecretValueCommand({
+      SecretId: secretName,
+    });
+
+    const response = await this.secretsClient.send(command);
+
+    if (!response.SecretString) {
+      throw new Error('Secrets not found or empty');
+    }
+
+    return response.SecretString;
+  }
+
   async getEnabledScrapers(): Promise<AppConfig['scrapers']> {
     const config = await this.getConfig();
     return config.scrapers.filter(scraper => scraper.enabled);
@@ -6,16 +6,38 @@ import {
   QueryCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
-import { Listing } from '../types';
+import {
+  DigestItem,
+  DigestKind,
+  Listing,
+  ListingRepository,
+  ListingUpdate,
+  NotificationStore,
+  PendingDigest,
+  PriceHistoryEntry,
+  RateLimitBucket,
+  RateLimitStore,
+  RunStore,
+  SchedulerRun,
+  ScheduleState,
+  ScrapeJobResult,
+  ScheduleStore,
+} from '../types';
+import { getDigestSlot, resolvePriceHistory } from '../utils/helpers';
+import { DELIVERY_RECORD_TTL_DAYS, RUN_RECORD_TTL_DAYS } from '../utils/constants';
+
+const RATE_LIMIT_UPDATE_ATTEMPTS = 5;
 
-export class DatabaseService {
+export class DatabaseService implements ListingRepository, NotificationStore, ScheduleStore, RunStore, RateLimitStore {
   private docClient: DynamoDBDocumentClient;
   private tableName: string;
+  private stateTableName: string;
 
   constructor() {
     const client = new DynamoDBClient({ region: process.env.AWS_REGION });
     this.docClient = DynamoDBDocumentClient.from(client);
     this.tableName = process.env.LISTINGS_TABLE || '';
+    this.stateTableName = process.env.NOTIFICATION_STATE_TABLE || '';
   }
 
   async getListing(scraperId: string, listingId: string): Promise<Listing | null> {
@@ -42,6 +64,7 @@ export class DatabaseService {
         TableName: this.tableName,
         Item: {
           ...listing,
+          priceHistory: resolvePriceHistory(listing),
           expiresAt: Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60), // 30 days TTL
         },
       });
@@ -60,51 +83,134 @@ export class DatabaseService {
     lastSeen: string
   ): Promise<Listing | null> {
     try {
-      // First get the current listing to preserve the previous price
+      // First get the current listing to preserve the previous price and history
       const currentListing = await this.getListing(scraperId, listingId);
       if (!currentListing) {
         return null;
       }
 
+      const expiresAt = Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60); // Reset TTL
+
+      // Unchanged prices only refresh lastSeen so the last real change is kept
+      const command = newPrice === currentListing.price
+        ? new UpdateCommand({
+          TableName: this.tableName,
+          Key: {
+            scraperId,
+            listingId,
+          },
+          UpdateExpression: 'SET lastSeen = :lastSeen, expiresAt = :expiresAt',
+          ExpressionAttributeValues: {
+            ':lastSeen': lastSeen,
+            ':expiresAt': expiresAt,
+          },
+          ReturnValues: 'ALL_NEW',
+        })
+        : new UpdateCommand({
+          TableName: this.tableName,
+          Key: {
+            scraperId,
+            listingId,
+          },
+          UpdateExpression: 'SET price = :newPrice, previousPrice = :prevPrice, priceHistory = :history, lastSeen = :lastSeen, expiresAt = :expiresAt',
+          ExpressionAttributeValues: {
+            ':newPrice': newPrice,
+            ':prevPrice': currentListing.price,
+            ':history': [...resolvePriceHistory(currentListing), { price: newPrice, timestamp: lastSeen }],
+            ':lastSeen': lastSeen,
+            ':expiresAt': expiresAt,
+          },
+          ReturnValues: 'ALL_NEW',
+        });
+
+      const response = await this.docClient.send(command);
+      return response.Attributes as Listing;
+    } catch (error) {
+      console.error(`Failed to update listing price for ${listingId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateListing(
+    scraperId: string,
+    listingId: string,
+    updates: ListingUpdate
+  ): Promise<void> {
+    const fields = Object.entries(updates).filter(([, value]) => value !== undefined);
+    if (fields.length === 0) {
+      return;
+    }
+
+    try {
       const command = new UpdateCommand({
         TableName: this.tableName,
         Key: {
           scraperId,
           listingId,
         },
-        UpdateExpression: 'SET price = :newPrice, previousPrice = :prevPrice, lastSeen = :lastSeen, expiresAt = :expiresAt',
-        ExpressionAttributeValues: {
-          ':newPrice': newPrice,
-          ':prevPrice': currentListing.price,
-          ':lastSeen': lastSeen,
-          ':expiresAt': Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60), // Reset TTL
-        },
-        ReturnValues: 'ALL_NEW',
+        UpdateExpression: `SET ${fields.map(([name]) => `#${name} = :${name}`).join(', ')}`,
+        ExpressionAttributeNames: Object.fromEntries(fields.map(([name]) => [`#${name}`, name])),
+        ExpressionAttributeValues: Object.fromEntries(fields.map(([name, value]) => [`:${name}`, value])),
       });
 
-      const response = await this.docClient.send(command);
-      return response.Attributes as Listing;
+      await this.docClient.send(command);
     } catch (error) {
-      console.error(`Failed to update listing price for ${listingId}:`, error);
+      console.error(`Failed to update listing ${listingId}:`, error);
       throw error;
     }
   }
 
+  async getPriceHistory(scraperId: string, listingId: string): Promise<PriceHistoryEntry[]> {
+    const listing = await this.getListing(scraperId, listingId);
+    return listing ? resolvePriceHistory(listing) : [];
+  }
+
   async getListingsByScraperId(scraperId: string, limit = 100): Promise<Listing[]> {
+    try {
+      const listings: Listing[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      // Queries stop at 1 MB, so keep paging until the limit is reached
+      do {
+        const command = new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'scraperId = :scraperId',
+          ExpressionAttributeValues: {
+            ':scraperId': scraperId,
+          },
+          Limit: limit - listings.length,
+          ExclusiveStartKey: exclusiveStartKey,
+        });
+
+        const response = await this.docClient.send(command);
+        listings.push(...(response.Items as Listing[] || []));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey && listings.length < limit);
+
+      return listings;
+    } catch (error) {
+      console.error(`Failed to get listings for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async getListingsByFingerprint(fingerprint: string): Promise<Listing[]> {
     try {
       const command = new QueryCommand({
         TableName: this.tableName,
-        KeyConditionExpression: 'scraperId = :scraperId',
+        IndexName: 'FingerprintIndex',
+        KeyConditionExpression: 'fingerprint = :fingerprint',
+        FilterExpression: 'expiresAt >= :now',
         ExpressionAttributeValues: {
-          ':scraperId': scraperId,
+          ':fingerprint': fingerprint,
+          ':now': Math.floor(Date.now() / 1000),
         },
-        Limit: limit,
       });
 
       const response = await this.docClient.send(command);
       return response.Items as Listing[] || [];
     } catch (error) {
-      console.error(`Failed to get listings for scraper ${scraperId}:`, error);
+      console.error(`Failed to get listings with fingerprint ${fingerprint}:`, error);
       throw error;
     }
   }
@@ -135,4 +241,260 @@ export class DatabaseService {
       throw error;
     }
   }
+
+  async addToDigest(
+    scraperId: string,
+    channelId: string,
+    items: DigestItem[],
+    kind: DigestKind = 'scheduled'
+  ): Promise<void> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.stateTableName,
+        Key: { pk: this.digestKey(scraperId, channelId, kind) },
+        UpdateExpression: 'SET #items = list_append(if_not_exists(#items, :empty), :items), startedAt = if_not_exists(startedAt, :now)',
+        ExpressionAttributeNames: {
+          '#items': 'items',
+        },
+        ExpressionAttributeValues: {
+          ':empty': [],
+          ':items': items,
+          ':now': new Date().toISOString(),
+        },
+      });
+
+      await this.docClient.send(command);
+    } catch (error) {
+      console.error(`Failed to add to ${channelId} digest for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async getDigest(scraperId: string, channelId: string, kind: DigestKind = 'scheduled'): Promise<PendingDigest> {
+    try {
+      const command = new GetCommand({
+        TableName: this.stateTableName,
+        Key: { pk: this.digestKey(scraperId, channelId, kind) },
+      });
+
+      const response = await this.docClient.send(command);
+      return {
+        items: response.Item?.items || [],
+        startedAt: response.Item?.startedAt,
+        lastSentAt: response.Item?.lastSentAt,
+      };
+    } catch (error) {
+      console.error(`Failed to get ${channelId} digest for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async clearDigest(
+    scraperId: string,
+    channelId: string,
+    sentAt: string,
+    kind: DigestKind = 'scheduled'
+  ): Promise<void> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.stateTableName,
+        Key: { pk: this.digestKey(scraperId, channelId, kind) },
+        UpdateExpression: 'SET #items = :empty, lastSentAt = :sentAt REMOVE startedAt',
+        ExpressionAttributeNames: {
+          '#items': 'items',
+        },
+        ExpressionAttributeValues: {
+          ':empty': [],
+          ':sentAt': sentAt,
+        },
+      });
+
+      await this.docClient.send(command);
+    } catch (error) {
+      console.error(`Failed to clear ${channelId} digest for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async incrementSentCount(scraperId: string, channelId: string, windowStart: string): Promise<number> {
+    try {
+      const command = new UpdateCommand({
+        TableName: this.stateTableName,
+        Key: { pk: `count#${scraperId}#${channelId}#${windowStart}` },
+        UpdateExpression: 'ADD sentCount :one SET expiresAt = if_not_exists(expiresAt, :expiresAt)',
+        ExpressionAttributeValues: {
+          ':one': 1,
+          ':expiresAt': Math.floor(Date.now() / 1000) + (24 * 60 * 60),
+        },
+        ReturnValues: 'UPDATED_NEW',
+      });
+
+      const response = await this.docClient.send(command);
+      return response.Attributes?.sentCount ?? 1;
+    } catch (error) {
+      console.error(`Failed to count ${channelId} notifications for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async hasDelivered(deliveryKey: string): Promise<boolean> {
+    try {
+      const command = new GetCommand({
+        TableName: this.stateTableName,
+        Key: { pk: `delivered#${deliveryKey}` },
+      });
+
+      const response = await this.docClient.send(command);
+      return response.Item !== undefined;
+    } catch (error) {
+      console.error(`Failed to check delivery ${deliveryKey}:`, error);
+      throw error;
+    }
+  }
+
+  async recordDelivery(deliveryKey: string): Promise<void> {
+    try {
+      const command = new PutCommand({
+        TableName: this.stateTableName,
+        Item: {
+          pk: `delivered#${deliveryKey}`,
+          deliveredAt: new Date().toISOString(),
+          expiresAt: Math.floor(Date.now() / 1000) + (DELIVERY_RECORD_TTL_DAYS * 24 * 60 * 60),
+        },
+      });
+
+      await this.docClient.send(command);
+    } catch (error) {
+      console.error(`Failed to record delivery ${deliveryKey}:`, error);
+      throw error;
+    }
+  }
+
+  async getScheduleState(scraperId: string): Promise<ScheduleState | null> {
+    try {
+      const command = new GetCommand({
+        TableName: this.stateTableName,
+        Key: { pk: `schedule#${scraperId}` },
+      });
+
+      const response = await this.docClient.send(command);
+      return response.Item
+        ? { lastRunAt: response.Item.lastRunAt, nextRunAt: response.Item.nextRunAt }
+        : null;
+    } catch (error) {
+      console.error(`Failed to get schedule state for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async saveScheduleState(scraperId: string, state: ScheduleState): Promise<void> {
+    try {
+      const command = new PutCommand({
+        TableName: this.stateTableName,
+        Item: {
+          pk: `schedule#${scraperId}`,
+          lastRunAt: state.lastRunAt,
+          nextRunAt: state.nextRunAt,
+        },
+      });
+
+      await this.docClient.send(command);
+    } catch (error) {
+      console.error(`Failed to save schedule state for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async startRun(runId: string, jobCount: number, startedAt: string): Promise<void> {
+    try {
+      const command = new PutCommand({
+        TableName: this.stateTableName,
+        Item: {
+          pk: `run#${runId}`,
+          startedAt,
+          jobCount,
+          results: [],
+          expiresAt: Math.floor(Date.now() / 1000) + (RUN_RECORD_TTL_DAYS * 24 * 60 * 60),
+        },
+      });
+
+      await this.docClient.send(command);
+    } catch (error) {
+      console.error(`Failed to start run ${runId}:`, error);
+      throw error;
+    }
+  }
+
+  async recordJobResult(runId: string, result: ScrapeJobResult): Promise<SchedulerRun | null> {
+    try {
+      // Appending is atomic, so jobs finishing together each see the other's result
+      const command = new UpdateCommand({
+        TableName: this.stateTableName,
+        Key: { pk: `run#${runId}` },
+        ConditionExpression: 'attribute_exists(pk)',
+        UpdateExpression: 'SET results = list_append(results, :result)',
+        ExpressionAttributeValues: { ':result': [result] },
+        ReturnValues: 'ALL_NEW',
+      });
+
+      const response = await this.docClient.send(command);
+      const item = response.Attributes!;
+      return { runId, startedAt: item.startedAt, jobCount: item.jobCount, results: item.results };
+    } catch (error) {
+      if ((error as Error).name === 'ConditionalCheckFailedException') {
+        return null;
+      }
+      console.error(`Failed to record the result of scraper ${result.scraperId} in run ${runId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateRateLimitBucket(
+    key: string,
+    update: (bucket: RateLimitBucket | null) => RateLimitBucket
+  ): Promise<RateLimitBucket> {
+    try {
+      // Optimistic concurrency: each write must see the version it read
+      for (let attempt = 1; attempt <= RATE_LIMIT_UPDATE_ATTEMPTS; attempt++) {
+        const response = await this.docClient.send(new GetCommand({
+          TableName: this.stateTableName,
+          Key: { pk: `ratelimit#${key}` },
+          ConsistentRead: true,
+        }));
+
+        const version: number = response.Item?.version ?? 0;
+        const bucket = update(response.Item
+          ? { nextAt: response.Item.nextAt, blockedUntil: response.Item.blockedUntil, strikes: response.Item.strikes }
+          : null);
+
+        try {
+          await this.docClient.send(new PutCommand({
+            TableName: this.stateTableName,
+            Item: {
+              pk: `ratelimit#${key}`,
+              ...Object.fromEntries(Object.entries(bucket).filter(([, value]) => value !== undefined)),
+              version: version + 1,
+              expiresAt: Math.floor(Date.now() / 1000) + (24 * 60 * 60),
+            },
+            ConditionExpression: 'attribute_not_exists(pk) OR version = :version',
+            ExpressionAttributeValues: { ':version': version },
+          }));
+          return bucket;
+        } catch (error) {
+          if ((error as Error).name !== 'ConditionalCheckFailedException' || attempt === RATE_LIMIT_UPDATE_ATTEMPTS) {
+            throw error;
+          }
+        }
+      }
+
+      throw new Error(`Rate limit bucket ${key} kept changing`);
+    } catch (error) {
+      console.error(`Failed to update rate limit bucket ${key}:`, error);
+      throw error;
+    }
+  }
+
+  private digestKey(scraperId: string, channelId: string, kind: DigestKind): string {
+    return `digest#${scraperId}#${getDigestSlot(channelId, kind)}`;
+  }
 }
@@ -0,0 +1,113 @@
+import { SQSClient, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import { NotificationDispatcher, NotificationPayload } from '../types';
+import { NotificationService } from './notification';
+
+export const NOTIFICATION_DISPATCHERS = ['sqs', 'in-process'] as const;
+
+export type DispatcherBackend = typeof NOTIFICATION_DISPATCHERS[number];
+
+const SQS_BATCH_SIZE = 10; // SendMessageBatch limit
+const SQS_BATCH_BYTES = 256 * 1024; // SendMessageBatch limit for all the messages together
+
+// Group message bodies into SendMessageBatch-sized batches, by count and by total size
+const batchMessages = (bodies: string[]): string[][] => {
+  const batches: string[][] = [];
+  let batchBytes = 0;
+
+  for (const body of bodies) {
+    const bytes = Buffer.byteLength(body);
+    const current = batches[batches.length - 1];
+
+    if (current && current.length < SQS_BATCH_SIZE && batchBytes + bytes <= SQS_BATCH_BYTES) {
+      current.push(body);
+      batchBytes += bytes;
+    } else {
+      batches.push([body]);
+      batchBytes = bytes;
+    }
+  }
+
+  return batches;
+};
+
+/**
+ * Publishes payloads to the notification queue, where the notifier Lambda
+ * sends them and retries failures on its own schedule.
+ */
+export class SqsNotificationDispatcher implements NotificationDispatcher {
+  private client: SQSClient;
+  private queueUrl: string;
+
+  constructor(queueUrl: string = process.env.NOTIFICATION_QUEUE_URL || '') {
+    if (!queueUrl) {
+      throw new Error('NOTIFICATION_QUEUE_URL is required for the sqs notification dispatcher');
+    }
+
+    this.client = new SQSClient({ region: process.env.AWS_REGION });
+    this.queueUrl = queueUrl;
+  }
+
+  async dispatch(payloads: NotificationPayload[]): Promise<void> {
+    if (payloads.length === 0) {
+      return;
+    }
+
+    try {
+      let sent = 0;
+
+      for (const batch of batchMessages(payloads.map(payload => JSON.stringify(payload)))) {
+        const response = await this.client.send(new SendMessageBatchCommand({
+          QueueUrl: this.queueUrl,
+          Entries: batch.map((body, index) => ({ Id: String(index), MessageBody: body })),
+        }));
+
+        if (response.Failed && response.Failed.length > 0) {
+          const listingIds = response.Failed.map(entry => payloads[sent + Number(entry.Id)].listing.listingId);
+          throw new Error(`Failed to queue notifications for listings ${listingIds.join(', ')}: ${response.Failed[0].Message}`);
+        }
+        sent += batch.length;
+      }
+
+      console.log(`Queued ${payloads.length} notifications`);
+    } catch (error) {
+      console.error('Failed to queue notifications:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Sends payloads right away in this process. Used for local runs and tests,
+ * where there is no queue.
+ */
+export class InProcessNotificationDispatcher implements NotificationDispatcher {
+  private notificationService: NotificationService;
+
+  constructor(notificationService: NotificationService) {
+    this.notificationService = notificationService;
+  }
+
+  async dispatch(payloads: NotificationPayload[]): Promise<void> {
+    // Sent in parallel; NotificationService logs each channel's failures
+    await Promise.allSettled(payloads.map(payload => this.notificationService.sendNotifications(payload)));
+  }
+}
+
+/**
+ * Build the dispatcher selected by NOTIFICATION_DISPATCHER (in-process unless
+ * configured otherwise). The notification service is used by the in-process
+ * dispatcher only.
+ */
+export const createNotificationDispatcher = (
+  notificationService: NotificationService,
+  backend: string = process.env.NOTIFICATION_DISPATCHER || 'in-process'
+): NotificationDispatcher => {
+  switch (backend) {
+    case 'sqs':
+      return new SqsNotificationDispatcher();
+    case 'in-process':
+      return new InProcessNotificationDispatcher(notificationService);
+    default:
+      throw new Error(`Unsupported notification dispatcher: ${backend}. Supported: ${NOTIFICATION_DISPATCHERS.join(', ')}`);
+  }
+};
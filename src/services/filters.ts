@@ -0,0 +1,347 @@
+import { ExchangeRates, Listing, ScraperConfig } from '../types';
+import { getComparablePrice } from '../utils/prices';
+
+/**
+ * Listing filters, applied to every marketplace's results by ScraperService.
+ *
+ * A scraper's `filter` expression combines terms with AND, OR, NOT and
+ * parentheses; terms next to each other are ANDed:
+ *
+ *   manual (2015 OR 2016) NOT salvage
+ *   title ~ /\bmt\b/ AND price < 12k AND mileage <= 120000
+ *
+ * A bare word or "quoted phrase" matches whole words in the title, and a
+ * trailing `*` matches any ending (`hond*`). `/regex/flags` matches the title
+ * as a regular expression. `field ~ term` matches a term against another text
+ * field, such as the description read by enrichment, and numeric fields
+ * (price, year, mileage, bids, distance) compare with < <= > >= = !=. Words and phrases ignore case; add the i flag
+ * for a case-insensitive regex.
+ */
+
+type ListingPredicate = (listing: Listing) => boolean;
+
+type Token =
+  | { kind: 'symbol'; text: string; position: number }
+  | { kind: 'word'; text: string; position: number }
+  | { kind: 'phrase'; text: string; position: number }
+  | { kind: 'regex'; text: string; pattern: RegExp; position: number };
+
+const TEXT_FIELDS: Record<string, (listing: Listing) => string> = {
+  title: listing => listing.title,
+  location: listing => listing.location,
+  seller: listing => listing.seller ?? '',
+  description: listing => listing.description ?? '',
+  condition: listing => listing.condition ?? '',
+};
+
+// Comparisons against a value the listing doesn't have are false
+const NUMBER_FIELDS: Record<string, (listing: Listing) => number | undefined> = {
+  price: listing => (listing.priceStatus === 'contact' ? undefined : listing.price),
+  year: listing => extractYear(listing.title),
+  mileage: listing => extractMileage(listing.title) ?? extractMileage(listing.description ?? ''),
+  bids: listing => listing.auction?.bidCount,
+  distance: listing => listing.distance,
+};
+
+const COMPARISONS: Record<string, (value: number, target: number) => boolean> = {
+  '<': (value, target) => value < target,
+  '<=': (value, target) => value <= target,
+  '>': (value, target) => value > target,
+  '>=': (value, target) => value >= target,
+  '=': (value, target) => value === target,
+  '!=': (value, target) => value !== target,
+};
+
+const TOKEN_PATTERN = /\s*(?:([()~]|<=|>=|!=|<|>|=)|"([^"]*)"|'([^']*)'|\/((?:\\.|[^/\\])+)\/([a-z]*)|([^\s()"'<>=!~]+))/y;
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (expression.slice(TOKEN_PATTERN.lastIndex).trim() !== '') {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      const position = start + (expression.slice(start).length - expression.slice(start).trimStart().length);
+      throw new Error(`unexpected "${expression[position]}" at character ${position + 1}`);
+    }
+
+    const [text, symbol, doubleQuoted, singleQuoted, regexSource, regexFlags, word] = match;
+    const position = start + text.length - text.trimStart().length;
+
+    if (symbol) {
+      tokens.push({ kind: 'symbol', text: symbol, position });
+    } else if (regexSource !== undefined) {
+      let pattern: RegExp;
+      try {
+        // g and y would make test() remember its position between listings
+        pattern = new RegExp(regexSource, regexFlags.replace(/[gy]/g, ''));
+      } catch (error) {
+        throw new Error(`invalid regular expression /${regexSource}/${regexFlags}: ${(error as Error).message}`);
+      }
+      tokens.push({ kind: 'regex', text: text.trim(), pattern, position });
+    } else if (word !== undefined) {
+      tokens.push({ kind: 'word', text: word, position });
+    } else {
+      tokens.push({ kind: 'phrase', text: doubleQuoted ?? singleQuoted, position });
+    }
+  }
+
+  return tokens;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match; "mt" doesn't match "mountain" but "mount*" does
+const wordPattern = (term: string): RegExp => {
+  const prefix = term.endsWith('*');
+  const words = term.replace(/\*+$/, '').trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${words}${prefix ? '' : '(?![\\p{L}\\p{N}])'}`, 'iu');
+};
+
+const parseNumber = (text: string): number | undefined => {
+  const match = text.match(/^\$?(\d[\d,]*(?:\.\d+)?)(k)?$/i);
+  if (!match) {
+    return undefined;
+  }
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  return match[2] ? value * 1000 : value;
+};
+
+const isField = (fields: object, name: string): boolean => Object.prototype.hasOwnProperty.call(fields, name);
+
+const isKeyword = (token: Token | undefined, keyword: string): boolean => {
+  return token?.kind === 'word' && token.text.toUpperCase() === keyword;
+};
+
+const isSymbol = (token: Token | undefined, symbol: string): boolean => {
+  return token?.kind === 'symbol' && token.text === symbol;
+};
+
+// `price` reads the listing's price in the scraper's currency when exchange rates are known
+const parseFilter = (expression: string, price = NUMBER_FIELDS.price): ListingPredicate => {
+  const tokens = tokenize(expression);
+  let index = 0;
+
+  const describe = (token: Token | undefined): string => {
+    return token ? `"${token.text}" at character ${token.position + 1}` : 'end of filter';
+  };
+
+  const parseOr = (): ListingPredicate => {
+    let left = parseAnd();
+    while (isKeyword(tokens[index], 'OR')) {
+      index++;
+      const [either, or] = [left, parseAnd()];
+      left = (listing): boolean => either(listing) || or(listing);
+    }
+    return left;
+  };
+
+  const parseAnd = (): ListingPredicate => {
+    let left = parseNot();
+    for (;;) {
+      const token = tokens[index];
+      if (isKeyword(token, 'AND')) {
+        index++;
+      } else if (!token || isKeyword(token, 'OR') || isSymbol(token, ')')) {
+        return left;
+      }
+      const [both, and] = [left, parseNot()];
+      left = (listing): boolean => both(listing) && and(listing);
+    }
+  };
+
+  const parseNot = (): ListingPredicate => {
+    if (isKeyword(tokens[index], 'NOT')) {
+      index++;
+      const operand = parseNot();
+      return (listing): boolean => !operand(listing);
+    }
+    return parseTerm();
+  };
+
+  const parseMatch = (token: Token | undefined, field: (listing: Listing) => string): ListingPredicate => {
+    if (token?.kind === 'regex') {
+      const { pattern } = token;
+      return listing => pattern.test(field(listing));
+    }
+    if ((token?.kind === 'word' || token?.kind === 'phrase') && token.text.replace(/\*+$/, '').trim() !== '') {
+      const pattern = wordPattern(token.text);
+      return listing => pattern.test(field(listing));
+    }
+    throw new Error(`expected a word, "phrase" or /regex/ but found ${describe(token)}`);
+  };
+
+  const parseComparison = (name: string): ListingPredicate => {
+    const operator = tokens[index++];
+    const valueToken = tokens[index++];
+
+    if (operator.text === '~') {
+      if (!isField(TEXT_FIELDS, name)) {
+        throw new Error(`${name} is a number; compare it with < <= > >= = or != instead of ~`);
+      }
+      return parseMatch(valueToken, TEXT_FIELDS[name]);
+    }
+
+    if (!isField(NUMBER_FIELDS, name)) {
+      throw new Error(`${name} is text; match it with ~ instead of ${operator.text}`);
+    }
+    const target = valueToken?.kind === 'word' ? parseNumber(valueToken.text) : undefined;
+    if (target === undefined) {
+      throw new Error(`expected a number after "${name} ${operator.text}" but found ${describe(valueToken)}`);
+    }
+
+    const field = name === 'price' ? price : NUMBER_FIELDS[name];
+    const compare = COMPARISONS[operator.text];
+    return listing => {
+      const value = field(listing);
+      return value !== undefined && compare(value, target);
+    };
+  };
+
+  const parseTerm = (): ListingPredicate => {
+    const token = tokens[index];
+
+    if (token?.kind === 'symbol' && token.text === '(') {
+      index++;
+      const inner = parseOr();
+      if (!isSymbol(tokens[index], ')')) {
+        throw new Error(`expected ")" to close the "(" at character ${token.position + 1} but found ${describe(tokens[index])}`);
+      }
+      index++;
+      return inner;
+    }
+
+    // A word followed by an operator names a field
+    const next = tokens[index + 1];
+    if (token?.kind === 'word' && next?.kind === 'symbol' && next.text !== '(' && next.text !== ')') {
+      const name = token.text.toLowerCase();
+      if (!isField(TEXT_FIELDS, name) && !isField(NUMBER_FIELDS, name)) {
+        throw new Error(
+          `unknown field "${token.text}" at character ${token.position + 1}; ` +
+          `fields are ${[...Object.keys(TEXT_FIELDS), ...Object.keys(NUMBER_FIELDS)].join(', ')}`
+        );
+      }
+      index++;
+      return parseComparison(name);
+    }
+
+    if (token?.kind === 'symbol' || isKeyword(token, 'AND') || isKeyword(token, 'OR')) {
+      throw new Error(`expected a search term but found ${describe(token)}`);
+    }
+
+    index++;
+    return parseMatch(token, TEXT_FIELDS.title);
+  };
+
+  if (tokens.length === 0) {
+    throw new Error('filter is empty');
+  }
+
+  const predicate = parseOr();
+  if (index < tokens.length) {
+    throw new Error(`unexpected ${describe(tokens[index])}`);
+  }
+  return predicate;
+};
+
+// A description of what is wrong with the filter expression, or undefined when it parses
+export const findFilterError = (expression: string): string | undefined => {
+  try {
+    parseFilter(expression);
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Model year from a title such as "2015 Honda Civic EX"
+export const extractYear = (title: string): number | undefined => {
+  const latest = new Date().getFullYear() + 1;
+  for (const match of title.matchAll(/(?<![\d.,$])(19\d{2}|20\d{2})(?![\d,]|\.\d)/g)) {
+    const year = parseInt(match[1], 10);
+    if (year >= 1900 && year <= latest) {
+      return year;
+    }
+  }
+  return undefined;
+};
+
+const MILEAGE_PATTERNS = [
+  /(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k)?\s*(?:miles|mi)\b/i,
+  /\b(?:mileage|odometer|odo)\W*(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k)?/i,
+];
+
+// Mileage from a title such as "Civic EX 120k miles" or "mileage: 85,000"
+export const extractMileage = (title: string): number | undefined => {
+  for (const pattern of MILEAGE_PATTERNS) {
+    const match = title.match(pattern);
+    if (match) {
+      const value = parseFloat(match[1].replace(/,/g, ''));
+      return Math.round(match[2] ? value * 1000 : value);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Price bounds and keyword lists, which only need the search results. Prices
+ * are converted to the scraper's currency when there are rates for it, and
+ * listings without an asking price pass the bounds.
+ */
+export const passesSimpleFilters = (listing: Listing, config: ScraperConfig, exchangeRates?: ExchangeRates): boolean => {
+  const titleLower = listing.title.toLowerCase();
+
+  // Check price bounds
+  if (listing.priceStatus !== 'contact') {
+    const price = getComparablePrice(listing, config, exchangeRates);
+    if (config.priceMin !== undefined && price < config.priceMin) {
+      return false;
+    }
+    if (config.priceMax !== undefined && price > config.priceMax) {
+      return false;
+    }
+  }
+
+  // Check inclusion keywords
+  if (config.includeKeywords && config.includeKeywords.length > 0) {
+    const hasIncludeKeyword = config.includeKeywords.some(keyword =>
+      titleLower.includes(keyword.toLowerCase())
+    );
+    if (!hasIncludeKeyword) {
+      return false;
+    }
+  }
+
+  // Check exclusion keywords
+  if (config.excludeKeywords && config.excludeKeywords.length > 0) {
+    const hasExcludeKeyword = config.excludeKeywords.some(keyword =>
+      titleLower.includes(keyword.toLowerCase())
+    );
+    if (hasExcludeKeyword) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+// Listings whose distance isn't known are kept rather than guessed at
+const isWithinDistance = (listing: Listing, config: ScraperConfig): boolean => {
+  return config.maxDistance === undefined || listing.distance === undefined || listing.distance <= config.maxDistance;
+};
+
+/**
+ * Build the filter for a scraper: its price bounds, keyword lists, maximum
+ * distance and `filter` expression must all pass. Throws when the expression
+ * is invalid.
+ */
+export const createListingFilter = (config: ScraperConfig, exchangeRates?: ExchangeRates): ListingPredicate => {
+  const price = (listing: Listing): number | undefined => {
+    return listing.priceStatus === 'contact' ? undefined : getComparablePrice(listing, config, exchangeRates);
+  };
+  const expression = config.filter ? parseFilter(config.filter, price) : undefined;
+  return listing => passesSimpleFilters(listing, config, exchangeRates) &&
+    isWithinDistance(listing, config) &&
+    (!expression || expression(listing));
+};
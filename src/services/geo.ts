@@ -0,0 +1,176 @@
+import gazetteer from '../data/gazetteer.json';
+import { Coordinates, HomeConfig, Listing, ScraperConfig } from '../types';
+
+/**
+ * Offline geocoding against the bundled gazetteer (src/data/gazetteer.json):
+ * centroids for large US cities, suburbs and neighborhoods around the
+ * bigger metros, and some downtown ZIP codes. Locations it doesn't know
+ * have no coordinates, and so no distance.
+ */
+
+export interface Place extends Coordinates {
+  name: string; // "Ballard, WA" or a ZIP code
+}
+
+// A point distances are measured from; unnamed when it's the scraper's search location
+export interface HomePoint extends Coordinates {
+  name?: string;
+}
+
+const STATE_CODES: Record<string, string> = {
+  alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO',
+  connecticut: 'CT', delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA',
+  hawaii: 'HI', idaho: 'ID', illinois: 'IL', indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY',
+  louisiana: 'LA', maine: 'ME', maryland: 'MD', massachusetts: 'MA', michigan: 'MI', minnesota: 'MN',
+  mississippi: 'MS', missouri: 'MO', montana: 'MT', nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH',
+  'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY', 'north carolina': 'NC', 'north dakota': 'ND',
+  ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA', 'rhode island': 'RI',
+  'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT', vermont: 'VT',
+  virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+};
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// "St. Louis" and "Saint Louis" are the same place
+const normalizeName = (name: string): string => {
+  return name.toLowerCase().replace(/\./g, '').replace(/^st\s+/, 'saint ').replace(/\s+/g, ' ').trim();
+};
+
+// City name → places with that name, most populous first
+const CITIES = new Map<string, Place[]>();
+for (const [city, state, latitude, longitude] of gazetteer.cities as [string, string, number, number][]) {
+  const key = normalizeName(city);
+  CITIES.set(key, [...(CITIES.get(key) || []), { name: `${city}, ${state}`, latitude, longitude }]);
+}
+
+const ZIPS: Record<string, number[]> = gazetteer.zips;
+
+const toState = (text: string): string | undefined => {
+  const value = text.replace(/\b\d{5}(?:-\d{4})?\b/, '').trim();
+  if (/^[A-Za-z]{2}$/.test(value)) {
+    const code = value.toUpperCase();
+    return Object.values(STATE_CODES).includes(code) ? code : undefined;
+  }
+  return STATE_CODES[value.toLowerCase()];
+};
+
+// The state in a location such as "Seattle, WA 98101" or "Portland, Oregon, United States"
+export const getState = (location: string): string | undefined => {
+  return location.split(',').slice(1).map(part => toState(part)).find(Boolean);
+};
+
+const findZip = (zip: string): Place | undefined => {
+  if (ZIPS[zip]) {
+    const [latitude, longitude] = ZIPS[zip];
+    return { name: zip, latitude, longitude };
+  }
+
+  // Other ZIP codes fall back to the middle of the known ones sharing their first three digits
+  const nearby = Object.entries(ZIPS).filter(([known]) => known.slice(0, 3) === zip.slice(0, 3)).map(([, point]) => point);
+  if (nearby.length === 0) {
+    return undefined;
+  }
+  return {
+    name: zip,
+    latitude: nearby.reduce((sum, [latitude]) => sum + latitude, 0) / nearby.length,
+    longitude: nearby.reduce((sum, [, longitude]) => sum + longitude, 0) / nearby.length,
+  };
+};
+
+/**
+ * Look a location up in the gazetteer. ZIP codes are tried first, then each
+ * comma- or slash-separated part as a city or neighborhood. Names in several
+ * states are resolved by the location's own state, then `nearState`, then
+ * the most populous match.
+ */
+export const findPlace = (location: string, nearState?: string): Place | undefined => {
+  const zip = location.match(/\b(\d{5})(?:-\d{4})?\b/);
+  const zipPlace = zip ? findZip(zip[1]) : undefined;
+  if (zipPlace) {
+    return zipPlace;
+  }
+
+  const state = getState(location);
+  const names = location.split(/[,/]/).map(part => normalizeName(part.replace(/\b\d{5}(?:-\d{4})?\b/, '')));
+
+  for (const name of names) {
+    const matches = CITIES.get(name);
+    if (!matches) {
+      continue;
+    }
+
+    const inState = (code?: string): Place | undefined => matches.find(place => code && place.name.endsWith(`, ${code}`));
+    if (state) {
+      const match = inState(state);
+      if (match) {
+        return match;
+      }
+      continue;
+    }
+    return inState(nearState) || matches[0];
+  }
+
+  return undefined;
+};
+
+// Great-circle distance
+export const distanceInMiles = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * The configured home points, or the scraper's search location when there
+ * are none. Homes whose location isn't in the gazetteer are skipped.
+ */
+export const resolveHomePoints = (homes: HomeConfig[] | undefined, config: ScraperConfig): HomePoint[] => {
+  if (!homes || homes.length === 0) {
+    const searchLocation = findPlace(config.location);
+    return searchLocation ? [{ latitude: searchLocation.latitude, longitude: searchLocation.longitude }] : [];
+  }
+
+  return homes.flatMap(home => {
+    if (home.latitude !== undefined && home.longitude !== undefined) {
+      return [{ name: home.name, latitude: home.latitude, longitude: home.longitude }];
+    }
+
+    const place = home.location ? findPlace(home.location) : undefined;
+    if (!place) {
+      console.warn(`Home "${home.name}" location "${home.location}" isn't in the gazetteer, skipping it`);
+      return [];
+    }
+    return [{ name: home.name, latitude: place.latitude, longitude: place.longitude }];
+  });
+};
+
+/**
+ * Set a listing's coordinates and its distance from the nearest home point.
+ * Coordinates from the listing itself win over its location's centroid, and
+ * a location that is just the scraper's search location counts as unknown.
+ */
+export const locateListing = (listing: Listing, config: ScraperConfig, homes: HomePoint[]): void => {
+  if (!listing.coordinates && listing.location !== config.location) {
+    const place = findPlace(listing.location, getState(config.location));
+    if (place) {
+      listing.coordinates = { latitude: place.latitude, longitude: place.longitude };
+    }
+  }
+
+  if (!listing.coordinates || homes.length === 0) {
+    return;
+  }
+
+  const [nearest] = homes
+    .map(home => ({ home, miles: distanceInMiles(home, listing.coordinates!) }))
+    .sort((a, b) => a.miles - b.miles);
+
+  listing.distance = Math.round(nearest.miles * 10) / 10;
+  // Only worth naming when there is more than one home to be near
+  if (homes.length > 1) {
+    listing.nearestHome = nearest.home.name;
+  }
+};
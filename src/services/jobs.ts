@@ -0,0 +1,181 @@
+import { SQSClient, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import { RunStore, SchedulerRun, ScrapeJob, ScrapeJobDispatcher, ScrapeJobResult, ScraperConfig, ScrapingResult } from '../types';
+import { ScraperService } from './scraper';
+import { DEFAULT_MAX_CONCURRENT_SCRAPERS, SCRAPER_TIMEOUTS } from '../utils/constants';
+
+export const SCRAPE_JOB_DISPATCHERS = ['sqs', 'in-process'] as const;
+
+export type ScrapeJobDispatcherBackend = typeof SCRAPE_JOB_DISPATCHERS[number];
+
+const SQS_BATCH_SIZE = 10; // SendMessageBatch limit
+
+type CountField = Exclude<keyof ScrapeJobResult, 'scraperId' | 'success' | 'error'>;
+
+export const createScrapeJob = (runId: string, scraper: ScraperConfig): ScrapeJob => ({
+  runId,
+  scraperId: scraper.id,
+  timeoutMs: SCRAPER_TIMEOUTS[scraper.marketplace],
+});
+
+const summarizeResult = (result: ScrapingResult): ScrapeJobResult => ({
+  scraperId: result.scraperId,
+  success: result.success,
+  ...(result.error !== undefined ? { error: result.error } : {}),
+  newListings: result.newListings.length,
+  priceDrops: result.priceDrops.length,
+  priceIncreases: result.priceIncreases.length,
+  endingAuctions: result.endingAuctions.length,
+  removedListings: result.removedListings.length,
+  relistedListings: result.relistedListings.length,
+  totalFound: result.totalFound,
+  executionTime: result.executionTime,
+});
+
+export const logRunSummary = (run: SchedulerRun): void => {
+  const { results } = run;
+  const total = (field: CountField): number => results.reduce((sum, r) => sum + r[field], 0);
+  const successCount = results.filter(r => r.success).length;
+  const avgExecutionTime = results.length > 0 ? total('executionTime') / results.length : 0;
+
+  console.log(`\n=== Scheduler Summary (run ${run.runId}) ===`);
+  console.log(`Total scrapers: ${run.jobCount}`);
+  console.log(`Successful: ${successCount}`);
+  console.log(`Failed: ${run.jobCount - successCount}`);
+  console.log(`Total listings found: ${total('totalFound')}`);
+  console.log(`New listings: ${total('newListings')}`);
+  console.log(`Price drops: ${total('priceDrops')}`);
+  console.log(`Price increases: ${total('priceIncreases')}`);
+  console.log(`Auctions ending: ${total('endingAuctions')}`);
+  console.log(`Removed listings: ${total('removedListings')}`);
+  console.log(`Relisted: ${total('relistedListings')}`);
+  console.log(`Average execution time: ${avgExecutionTime.toFixed(0)}ms`);
+  console.log(`Run time: ${Date.now() - new Date(run.startedAt).getTime()}ms`);
+  console.log(`========================\n`);
+
+  // Log individual scraper results
+  results.forEach(result => {
+    if (result.success) {
+      console.log(`✅ ${result.scraperId}: ${result.newListings} new, ${result.priceDrops} drops (${result.executionTime}ms)`);
+    } else {
+      console.log(`❌ ${result.scraperId}: ${result.error} (${result.executionTime}ms)`);
+    }
+  });
+};
+
+/**
+ * Run one job within its timeout and add its result to the run. Whichever
+ * job finishes last logs the run summary. Never throws: a failed scrape is
+ * a failed result, and a result that can't be recorded is only logged, so
+ * a queued job isn't retried after it has already scraped.
+ */
+export const runScrapeJob = async (
+  job: ScrapeJob,
+  scraperService: ScraperService,
+  runStore: RunStore
+): Promise<ScrapingResult> => {
+  const result = await scraperService.executeScraper(job.scraperId, job.timeoutMs);
+
+  try {
+    const run = await runStore.recordJobResult(job.runId, summarizeResult(result));
+    if (run && run.results.length >= run.jobCount) {
+      logRunSummary(run);
+    }
+  } catch (error) {
+    console.error(`Failed to record the result of scraper ${job.scraperId} in run ${job.runId}:`, error);
+  }
+
+  return result;
+};
+
+/**
+ * Publishes one message per job to the scrape job queue. Each is picked up
+ * by its own scrape-job Lambda invocation, so a slow search can only use
+ * up its own time.
+ */
+export class SqsScrapeJobDispatcher implements ScrapeJobDispatcher {
+  private client: SQSClient;
+  private queueUrl: string;
+
+  constructor(queueUrl: string = process.env.SCRAPE_JOB_QUEUE_URL || '') {
+    if (!queueUrl) {
+      throw new Error('SCRAPE_JOB_QUEUE_URL is required for the sqs scrape job dispatcher');
+    }
+
+    this.client = new SQSClient({ region: process.env.AWS_REGION });
+    this.queueUrl = queueUrl;
+  }
+
+  async dispatch(jobs: ScrapeJob[]): Promise<void> {
+    try {
+      for (let i = 0; i < jobs.length; i += SQS_BATCH_SIZE) {
+        const batch = jobs.slice(i, i + SQS_BATCH_SIZE);
+        const response = await this.client.send(new SendMessageBatchCommand({
+          QueueUrl: this.queueUrl,
+          Entries: batch.map((job, index) => ({ Id: String(index), MessageBody: JSON.stringify(job) })),
+        }));
+
+        if (response.Failed && response.Failed.length > 0) {
+          const scraperIds = response.Failed.map(entry => batch[Number(entry.Id)].scraperId);
+          throw new Error(`Failed to queue scrape jobs for ${scraperIds.join(', ')}: ${response.Failed[0].Message}`);
+        }
+      }
+
+      console.log(`Queued ${jobs.length} scrape jobs`);
+    } catch (error) {
+      console.error('Failed to queue scrape jobs:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Runs jobs in this process, up to `maxConcurrent` at a time, and waits for
+ * them. Used for local runs and tests, where there is no queue.
+ */
+export class InProcessScrapeJobDispatcher implements ScrapeJobDispatcher {
+  private scraperService: ScraperService;
+  private runStore: RunStore;
+  private maxConcurrent: number;
+
+  constructor(
+    scraperService: ScraperService,
+    runStore: RunStore,
+    maxConcurrent: number = parseInt(process.env.MAX_CONCURRENT_SCRAPERS || String(DEFAULT_MAX_CONCURRENT_SCRAPERS), 10)
+  ) {
+    this.scraperService = scraperService;
+    this.runStore = runStore;
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  async dispatch(jobs: ScrapeJob[]): Promise<void> {
+    console.log(`Running up to ${this.maxConcurrent} scrapers concurrently`);
+
+    for (let i = 0; i < jobs.length; i += this.maxConcurrent) {
+      const batch = jobs.slice(i, i + this.maxConcurrent);
+      console.log(`Executing batch ${Math.floor(i / this.maxConcurrent) + 1}: ${batch.map(job => job.scraperId).join(', ')}`);
+
+      // Requests are paced by the shared rate limiter, so batches follow each other straight away
+      await Promise.all(batch.map(job => runScrapeJob(job, this.scraperService, this.runStore)));
+    }
+  }
+}
+
+/**
+ * Build the dispatcher selected by SCRAPE_JOB_DISPATCHER (in-process unless
+ * configured otherwise). The scraper service and run store are used by the
+ * in-process dispatcher only.
+ */
+export const createScrapeJobDispatcher = (
+  scraperService: ScraperService,
+  runStore: RunStore,
+  backend: string = process.env.SCRAPE_JOB_DISPATCHER || 'in-process'
+): ScrapeJobDispatcher => {
+  switch (backend) {
+    case 'sqs':
+      return new SqsScrapeJobDispatcher();
+    case 'in-process':
+      return new InProcessScrapeJobDispatcher(scraperService, runStore);
+    default:
+      throw new Error(`Unsupported scrape job dispatcher: ${backend}. Supported: ${SCRAPE_JOB_DISPATCHERS.join(', ')}`);
+  }
+};
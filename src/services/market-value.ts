@@ -0,0 +1,79 @@
+import { Listing, MarketValue, MarketValueConfig } from '../types';
+import { extractYear } from './filters';
+import { DEFAULT_MARKET_VALUE_SAMPLES } from '../utils/constants';
+
+/**
+ * Market value estimates from a scraper's stored listings. A listing is
+ * compared with the others the scraper has seen: the median is its typical
+ * price, and its percentile is the share of those priced below it. With
+ * `bucketBy`, listings are compared with those of the same model year or
+ * keyword when there are enough of them, and with every listing otherwise.
+ */
+
+interface PriceSample {
+  listingId: string;
+  price: number;
+  bucket?: string;
+}
+
+type MarketValueEstimator = (listing: Listing) => MarketValue | undefined;
+
+// The model year or first configured keyword in the title, e.g. "2015" or "si"
+export const getPriceBucket = (listing: Listing, config: MarketValueConfig): string | undefined => {
+  if (config.bucketBy === 'year') {
+    return extractYear(listing.title)?.toString();
+  }
+  if (config.bucketBy === 'keyword') {
+    const title = listing.title.toLowerCase();
+    return config.keywords?.find(keyword => title.includes(keyword.toLowerCase()));
+  }
+  return undefined;
+};
+
+// Linear interpolation between the closest ranks; `prices` must be sorted
+export const getPercentile = (prices: number[], percentile: number): number => {
+  const position = (prices.length - 1) * (percentile / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return prices[lower] + (prices[upper] - prices[lower]) * (position - lower);
+};
+
+/**
+ * Build an estimator from a scraper's stored listings. Free listings and
+ * removed listings that were put back up (and so are counted again under
+ * their new ID) are left out. Listings are never compared with themselves,
+ * and get no estimate until at least `minSamples` others can be compared.
+ */
+export const createMarketValueEstimator = (history: Listing[], config: MarketValueConfig): MarketValueEstimator => {
+  const minSamples = config.minSamples ?? DEFAULT_MARKET_VALUE_SAMPLES;
+  const samples: PriceSample[] = history
+    .filter(listing => listing.price > 0 && !listing.relistedAs)
+    .map(listing => ({ listingId: listing.listingId, price: listing.price, bucket: getPriceBucket(listing, config) }));
+
+  return listing => {
+    if (listing.price <= 0) {
+      return undefined;
+    }
+
+    const others = samples.filter(sample => sample.listingId !== listing.listingId);
+    const bucket = getPriceBucket(listing, config);
+    const bucketSamples = bucket ? others.filter(sample => sample.bucket === bucket) : [];
+    const compared = bucketSamples.length >= minSamples ? bucketSamples : others;
+    if (compared.length < minSamples) {
+      return undefined;
+    }
+
+    const prices = compared.map(sample => sample.price).sort((a, b) => a - b);
+    const typicalPrice = Math.round(getPercentile(prices, 50));
+    const below = prices.filter(price => price < listing.price).length;
+    const equal = prices.filter(price => price === listing.price).length;
+
+    return {
+      typicalPrice,
+      percentile: Math.round(((below + equal / 2) / prices.length) * 100),
+      difference: Math.round(((typicalPrice - listing.price) / typicalPrice) * 100),
+      sampleSize: prices.length,
+      ...(compared === bucketSamples ? { bucket } : {}),
+    };
+  };
+};
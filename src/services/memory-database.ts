@@ -0,0 +1,215 @@
+import {
+  DigestItem,
+  DigestKind,
+  Listing,
+  ListingRepository,
+  ListingUpdate,
+  NotificationStore,
+  PendingDigest,
+  PriceHistoryEntry,
+  RateLimitBucket,
+  RateLimitStore,
+  RunStore,
+  SchedulerRun,
+  ScheduleState,
+  ScrapeJobResult,
+  ScheduleStore,
+} from '../types';
+import { getDigestSlot, resolvePriceHistory } from '../utils/helpers';
+import { DELIVERY_RECORD_TTL_DAYS, LISTING_TTL_DAYS } from '../utils/constants';
+
+/**
+ * Process-local listing store. Nothing survives a restart, which makes it a
+ * good fit for tests and dry runs.
+ */
+export class InMemoryDatabaseService implements ListingRepository, NotificationStore, ScheduleStore, RunStore, RateLimitStore {
+  private listings = new Map<string, Listing>();
+  private digests = new Map<string, PendingDigest>();
+  private sentCounts = new Map<string, number>();
+  private deliveries = new Map<string, number>(); // Delivery key → expiry
+  private schedules = new Map<string, ScheduleState>();
+  private runs = new Map<string, SchedulerRun>();
+  private rateLimitBuckets = new Map<string, RateLimitBucket>();
+
+  async getListing(scraperId: string, listingId: string): Promise<Listing | null> {
+    const listing = this.listings.get(this.key(scraperId, listingId));
+
+    if (!listing || listing.expiresAt < this.now()) {
+      return null;
+    }
+
+    return structuredClone(listing);
+  }
+
+  async saveListing(listing: Listing): Promise<void> {
+    this.write({
+      ...listing,
+      priceHistory: resolvePriceHistory(listing),
+      expiresAt: this.expiry(),
+    });
+  }
+
+  async updateListingPrice(
+    scraperId: string,
+    listingId: string,
+    newPrice: number,
+    lastSeen: string
+  ): Promise<Listing | null> {
+    const currentListing = await this.getListing(scraperId, listingId);
+    if (!currentListing) {
+      return null;
+    }
+
+    const updatedListing: Listing = {
+      ...currentListing,
+      // Unchanged prices only refresh lastSeen so the last real change is kept
+      ...(newPrice !== currentListing.price ? {
+        price: newPrice,
+        previousPrice: currentListing.price,
+        priceHistory: [...resolvePriceHistory(currentListing), { price: newPrice, timestamp: lastSeen }],
+      } : {}),
+      lastSeen,
+      expiresAt: this.expiry(), // Reset TTL
+    };
+
+    this.write(updatedListing);
+    return structuredClone(updatedListing);
+  }
+
+  async updateListing(scraperId: string, listingId: string, updates: ListingUpdate): Promise<void> {
+    const currentListing = await this.getListing(scraperId, listingId);
+    if (!currentListing) {
+      return;
+    }
+
+    const fields = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+    this.write({ ...currentListing, ...fields });
+  }
+
+  async getPriceHistory(scraperId: string, listingId: string): Promise<PriceHistoryEntry[]> {
+    const listing = await this.getListing(scraperId, listingId);
+    return listing ? resolvePriceHistory(listing) : [];
+  }
+
+  async getListingsByScraperId(scraperId: string, limit = 100): Promise<Listing[]> {
+    return Array.from(this.listings.values())
+      .filter(listing => listing.scraperId === scraperId && listing.expiresAt >= this.now())
+      .sort((a, b) => a.listingId.localeCompare(b.listingId))
+      .slice(0, limit)
+      .map(listing => structuredClone(listing));
+  }
+
+  async getListingsByFingerprint(fingerprint: string): Promise<Listing[]> {
+    return Array.from(this.listings.values())
+      .filter(listing => listing.fingerprint === fingerprint && listing.expiresAt >= this.now())
+      .map(listing => structuredClone(listing));
+  }
+
+  async cleanupOldListings(scraperId: string, daysOld = 30): Promise<number> {
+    const cutoffIso = new Date(Date.now() - (daysOld * 24 * 60 * 60 * 1000)).toISOString();
+    let removed = 0;
+
+    for (const [key, listing] of this.listings) {
+      if (listing.scraperId === scraperId && listing.lastSeen < cutoffIso) {
+        this.listings.delete(key);
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+
+  async addToDigest(
+    scraperId: string,
+    channelId: string,
+    items: DigestItem[],
+    kind: DigestKind = 'scheduled'
+  ): Promise<void> {
+    const digest = await this.getDigest(scraperId, channelId, kind);
+
+    this.digests.set(this.key(scraperId, getDigestSlot(channelId, kind)), {
+      ...digest,
+      items: [...digest.items, ...structuredClone(items)],
+      startedAt: digest.startedAt || new Date().toISOString(),
+    });
+  }
+
+  async getDigest(scraperId: string, channelId: string, kind: DigestKind = 'scheduled'): Promise<PendingDigest> {
+    const digest = this.digests.get(this.key(scraperId, getDigestSlot(channelId, kind)));
+    return digest ? structuredClone(digest) : { items: [] };
+  }
+
+  async clearDigest(
+    scraperId: string,
+    channelId: string,
+    sentAt: string,
+    kind: DigestKind = 'scheduled'
+  ): Promise<void> {
+    this.digests.set(this.key(scraperId, getDigestSlot(channelId, kind)), { items: [], lastSentAt: sentAt });
+  }
+
+  async incrementSentCount(scraperId: string, channelId: string, windowStart: string): Promise<number> {
+    const key = this.key(scraperId, `${channelId}#${windowStart}`);
+    const count = (this.sentCounts.get(key) || 0) + 1;
+
+    this.sentCounts.set(key, count);
+    return count;
+  }
+
+  async hasDelivered(deliveryKey: string): Promise<boolean> {
+    return (this.deliveries.get(deliveryKey) ?? 0) >= this.now();
+  }
+
+  async recordDelivery(deliveryKey: string): Promise<void> {
+    this.deliveries.set(deliveryKey, this.now() + (DELIVERY_RECORD_TTL_DAYS * 24 * 60 * 60));
+  }
+
+  async getScheduleState(scraperId: string): Promise<ScheduleState | null> {
+    const state = this.schedules.get(scraperId);
+    return state ? { ...state } : null;
+  }
+
+  async saveScheduleState(scraperId: string, state: ScheduleState): Promise<void> {
+    this.schedules.set(scraperId, { ...state });
+  }
+
+  async startRun(runId: string, jobCount: number, startedAt: string): Promise<void> {
+    this.runs.set(runId, { runId, startedAt, jobCount, results: [] });
+  }
+
+  async recordJobResult(runId: string, result: ScrapeJobResult): Promise<SchedulerRun | null> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return null;
+    }
+
+    run.results.push({ ...result });
+    return structuredClone(run);
+  }
+
+  async updateRateLimitBucket(
+    key: string,
+    update: (bucket: RateLimitBucket | null) => RateLimitBucket
+  ): Promise<RateLimitBucket> {
+    // Nothing can run between the read and the write
+    const bucket = update(this.rateLimitBuckets.get(key) ?? null);
+    this.rateLimitBuckets.set(key, { ...bucket });
+    return bucket;
+  }
+
+  private write(listing: Listing): void {
+    this.listings.set(this.key(listing.scraperId, listing.listingId), structuredClone(listing));
+  }
+
+  private key(scraperId: string, listingId: string): string {
+    return `${scraperId}#${listingId}`;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private expiry(): number {
+    return this.now() + (LISTING_TTL_DAYS * 24 * 60 * 60);
+  }
+}
@@ -1,221 +1,287 @@
-import axios from 'axios';
-import { NotificationPayload, SecretsConfig } from '../types';
+import {
+  ChannelConfig,
+  DeliveryMode,
+  DigestItem,
+  NotificationChannel,
+  NotificationPayload,
+  NotificationStore,
+  ScraperConfig,
+  SecretsConfig,
+} from '../types';
+import { createNotificationChannel, getChannelConfigs, getChannelId } from './notifiers';
+import { getTemplate } from './notifiers/templates';
+import { getDeliveryKey, isWithinQuietHours } from '../utils/helpers';
+import { DIGEST_INTERVALS, ERROR_MESSAGES } from '../utils/constants';
+
+// One enabled channel instance from a scraper's notifications
+interface ChannelTarget {
+  id: string;
+  channel: NotificationChannel;
+  settings: ChannelConfig;
+  delivery: DeliveryMode;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
 
 export class NotificationService {
   private secrets: SecretsConfig;
+  private notificationStore?: NotificationStore;
+  private overflow: { channelId: string; payload: NotificationPayload }[] = [];
 
-  constructor(secrets: SecretsConfig) {
+  constructor(secrets: SecretsConfig, notificationStore?: NotificationStore) {
     this.secrets = secrets;
+    this.notificationStore = notificationStore;
   }
 
+  /**
+   * Send one message for the payload to every enabled channel that uses
+   * immediate delivery. During quiet hours the payload is held (or sent at
+   * low priority where the channel supports it) unless it is urgent, and
+   * anything over a channel's hourly limit waits for the run's summary.
+   *
+   * Throws once every channel has been tried if any of them failed. With a
+   * notification store, channels that already handled the payload are
+   * skipped, so sending it again only retries the ones that failed.
+   */
   async sendNotifications(payload: NotificationPayload): Promise<void> {
-    const { scraper } = payload;
-    const promises: Promise<void>[] = [];
-
-    if (scraper.notifications.slack?.enabled) {
-      promises.push(this.sendSlackNotification(payload));
-    }
-
-    if (scraper.notifications.telegram?.enabled) {
-      promises.push(this.sendTelegramNotification(payload));
-    }
-
-    if (scraper.notifications.pushover?.enabled) {
-      promises.push(this.sendPushoverNotification(payload));
-    }
+    const targets = this.getTargets(payload.scraper).filter(({ delivery }) => delivery === 'immediate');
 
     // Send all notifications in parallel, but don't let one failure stop others
-    const results = await Promise.allSettled(promises);
+    const results = await Promise.allSettled(targets.map(target => this.deliverOnce(target, payload)));
+    const failed = targets.filter((_target, index) => results[index].status === 'rejected');
 
     results.forEach((result, index) => {
       if (result.status === 'rejected') {
-        console.error(`Notification ${index} failed:`, result.reason);
+        console.error(`${targets[index].id} notification failed:`, result.reason);
       }
     });
-  }
-
-  private async sendSlackNotification(payload: NotificationPayload): Promise<void> {
-    try {
-      const webhookUrl = this.getSecretValue(payload.scraper.notifications.slack!.webhook);
-
-      const message = this.formatSlackMessage(payload);
 
-      await axios.post(webhookUrl, message, {
-        headers: { 'Content-Type': 'application/json' },
-        timeout: 10000,
-      });
+    if (failed.length > 0) {
+      throw new Error(`${ERROR_MESSAGES.NOTIFICATION_FAILED} for listing ${payload.listing.listingId}: ${failed.map(({ id }) => id).join(', ')}`);
+    }
+  }
 
-      console.log(`Slack notification sent for listing ${payload.listing.listingId}`);
-    } catch (error) {
-      console.error('Failed to send Slack notification:', error);
-      throw error;
+  /**
+   * Deliver a run's payloads to channels using batch or digest delivery.
+   * Batch channels get one message now; hourly and daily channels store the
+   * payloads and get one message once the period has passed. Also sends
+   * alerts held during quiet hours once they end, and rolls up anything over
+   * the hourly limit. Call this on every run, even without payloads, so due
+   * digests go out.
+   */
+  async sendBatchedNotifications(scraper: ScraperConfig, payloads: NotificationPayload[]): Promise<void> {
+    for (const target of this.getTargets(scraper)) {
+      try {
+        const quietMode = this.getQuietMode(target);
+
+        if (quietMode !== 'hold') {
+          await this.sendHeldNotifications(target, scraper);
+        }
+
+        await this.sendOverflowSummary(target, scraper, quietMode === 'low_priority');
+
+        if (target.delivery === 'immediate') {
+          continue;
+        }
+
+        if (quietMode === 'hold') {
+          // Urgent alerts still go out now; the rest wait for quiet hours to end
+          const urgent = payloads.filter(payload => payload.urgent);
+          await this.holdForQuietHours(target, scraper, payloads.filter(payload => !payload.urgent));
+          if (urgent.length > 0) {
+            await this.sendDigest(target, scraper, urgent);
+          }
+        } else if (target.delivery === 'batch') {
+          if (payloads.length > 0) {
+            await this.sendDigest(target, scraper, payloads, quietMode === 'low_priority');
+          }
+        } else {
+          await this.deliverScheduledDigest(target, target.delivery, scraper, payloads, quietMode === 'low_priority');
+        }
+      } catch (error) {
+        console.error(`Failed to deliver ${target.id} digest for scraper ${scraper.id}:`, error);
+      }
     }
   }
 
-  private async sendTelegramNotification(payload: NotificationPayload): Promise<void> {
-    try {
-      const botToken = this.getSecretValue(payload.scraper.notifications.telegram!.botToken);
-      const chatId = this.getSecretValue(payload.scraper.notifications.telegram!.chatId);
-
-      const message = this.formatTelegramMessage(payload);
-      const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
-
-      await axios.post(url, {
-        chat_id: chatId,
-        text: message,
-        parse_mode: 'HTML',
-        disable_web_page_preview: false,
-      }, {
-        timeout: 10000,
-      });
-
-      console.log(`Telegram notification sent for listing ${payload.listing.listingId}`);
-    } catch (error) {
-      console.error('Failed to send Telegram notification:', error);
-      throw error;
+  /**
+   * Summarize alerts still waiting on an hourly limit. sendBatchedNotifications
+   * does this at the end of a scraper run; the queue consumer has no run, so
+   * it calls this after each batch of messages instead.
+   */
+  async sendOverflowSummaries(): Promise<void> {
+    const scrapers = new Map(this.overflow.map(({ payload }) => [payload.scraper.id, payload.scraper]));
+
+    for (const scraper of scrapers.values()) {
+      for (const target of this.getTargets(scraper)) {
+        try {
+          await this.sendOverflowSummary(target, scraper, this.getQuietMode(target) === 'low_priority');
+        } catch (error) {
+          console.error(`Failed to send ${target.id} summary for scraper ${scraper.id}:`, error);
+        }
+      }
     }
   }
 
-  private async sendPushoverNotification(payload: NotificationPayload): Promise<void> {
-    try {
-      const userKey = this.getSecretValue(payload.scraper.notifications.pushover!.userKey);
-      const appToken = this.getSecretValue(payload.scraper.notifications.pushover!.appToken);
-
-      const message = this.formatPushoverMessage(payload);
-
-      await axios.post('https://api.pushover.net/1/messages.json', {
-        token: appToken,
-        user: userKey,
-        title: message.title,
-        message: message.message,
-        url: payload.listing.url,
-        url_title: 'View Listing',
-      }, {
-        timeout: 10000,
-      });
-
-      console.log(`Pushover notification sent for listing ${payload.listing.listingId}`);
-    } catch (error) {
-      console.error('Failed to send Pushover notification:', error);
-      throw error;
+  private getTargets(scraper: ScraperConfig): ChannelTarget[] {
+    return getChannelConfigs(scraper.notifications)
+      .filter(settings => settings.enabled)
+      .map(settings => ({
+        id: getChannelId(settings),
+        channel: createNotificationChannel(settings.type),
+        settings,
+        delivery: settings.delivery || 'immediate',
+      }));
+  }
+
+  private async deliverOnce(target: ChannelTarget, payload: NotificationPayload): Promise<void> {
+    const deliveryKey = getDeliveryKey(payload, target.id);
+
+    if (await this.notificationStore?.hasDelivered(deliveryKey)) {
+      console.log(`${target.id} already handled ${payload.type} for listing ${payload.listing.listingId}, skipping`);
+      return;
     }
+
+    await this.deliverImmediately(target, payload);
+    await this.notificationStore?.recordDelivery(deliveryKey);
   }
 
-  private formatSlackMessage(payload: NotificationPayload): any {
-    const { type, listing, scraper, priceDropPercentage } = payload;
+  private async deliverImmediately(target: ChannelTarget, payload: NotificationPayload): Promise<void> {
+    const quietMode = this.getQuietMode(target, payload);
+    const { maxPerHour } = target.settings;
 
-    let color = '#36a64f'; // Green for new listings
-    let title = '🆕 New Listing Found';
-    let description = `Found a new listing matching your search criteria for "${scraper.name}".`;
+    if (quietMode === 'hold') {
+      await this.holdForQuietHours(target, payload.scraper, [payload]);
+      return;
+    }
 
-    if (type === 'price_drop') {
-      color = '#ff6b6b'; // Red for price drops
-      title = '📉 Price Drop Alert';
-      description = `Price dropped by ${priceDropPercentage?.toFixed(1)}% for a tracked listing.`;
+    if (maxPerHour !== undefined && await this.isOverHourlyLimit(target, payload.scraper, maxPerHour)) {
+      this.overflow.push({ channelId: target.id, payload });
+      return;
     }
 
-    return {
-      attachments: [
-        {
-          color,
-          title,
-          title_link: listing.url,
-          text: description,
-          fields: [
-            {
-              title: 'Title',
-              value: listing.title,
-              short: false,
-            },
-            {
-              title: 'Price',
-              value: `$${listing.price.toLocaleString()}`,
-              short: true,
-            },
-            {
-              title: 'Location',
-              value: listing.location,
-              short: true,
-            },
-            ...(listing.previousPrice ? [{
-              title: 'Previous Price',
-              value: `$${listing.previousPrice.toLocaleString()}`,
-              short: true,
-            }] : []),
-          ],
-          image_url: listing.imageUrl,
-          footer: `Peddler • ${scraper.name}`,
-          ts: Math.floor(Date.now() / 1000),
-        },
-      ],
-    };
+    await this.sendToChannel(target, payload, quietMode === 'low_priority');
   }
 
-  private formatTelegramMessage(payload: NotificationPayload): string {
-    const { type, listing, scraper, priceDropPercentage } = payload;
+  // null outside quiet hours or for urgent payloads
+  private getQuietMode({ channel, settings }: ChannelTarget, payload?: NotificationPayload): 'hold' | 'low_priority' | null {
+    if (!settings.quietHours || payload?.urgent || !isWithinQuietHours(settings.quietHours)) {
+      return null;
+    }
 
-    let emoji = '🆕';
-    let header = 'New Listing Found';
+    return settings.quietHours.mode === 'low_priority' && channel.supportsLowPriority ? 'low_priority' : 'hold';
+  }
 
-    if (type === 'price_drop') {
-      emoji = '📉';
-      header = `Price Drop Alert (-${priceDropPercentage?.toFixed(1)}%)`;
+  private async holdForQuietHours(target: ChannelTarget, scraper: ScraperConfig, payloads: NotificationPayload[]): Promise<void> {
+    if (payloads.length === 0) {
+      return;
     }
 
-    let message = `${emoji} <b>${header}</b>\n\n`;
-    message += `<b>Title:</b> ${this.escapeHtml(listing.title)}\n`;
-    message += `<b>Price:</b> $${listing.price.toLocaleString()}\n`;
+    await this.requireStore('quiet hours').addToDigest(scraper.id, target.id, payloads.map(toDigestItem), 'held');
+    console.log(`Holding ${payloads.length} ${target.id} notifications for scraper ${scraper.id} until quiet hours end`);
+  }
 
-    if (listing.previousPrice) {
-      message += `<b>Previous Price:</b> $${listing.previousPrice.toLocaleString()}\n`;
+  private async sendHeldNotifications(target: ChannelTarget, scraper: ScraperConfig): Promise<void> {
+    if (!target.settings.quietHours) {
+      return;
     }
 
-    message += `<b>Location:</b> ${listing.location}\n`;
-    message += `<b>Scraper:</b> ${scraper.name}\n\n`;
-    message += `<a href="${listing.url}">View Listing</a>`;
+    const store = this.requireStore('quiet hours');
+    const held = await store.getDigest(scraper.id, target.id, 'held');
 
-    return message;
+    if (held.items.length > 0) {
+      await this.sendDigest(target, scraper, held.items.map(item => ({ ...item, scraper })));
+      await store.clearDigest(scraper.id, target.id, new Date().toISOString(), 'held');
+    }
   }
 
-  private formatPushoverMessage(payload: NotificationPayload): { title: string; message: string } {
-    const { type, listing, scraper, priceDropPercentage } = payload;
+  private async isOverHourlyLimit(target: ChannelTarget, scraper: ScraperConfig, maxPerHour: number): Promise<boolean> {
+    const windowStart = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS).toISOString();
+    const sent = await this.requireStore('maxPerHour').incrementSentCount(scraper.id, target.id, windowStart);
 
-    let title = `New: ${listing.title}`;
+    return sent > maxPerHour;
+  }
 
-    if (type === 'price_drop') {
-      title = `Price Drop: ${listing.title}`;
+  private async sendOverflowSummary(target: ChannelTarget, scraper: ScraperConfig, lowPriority: boolean): Promise<void> {
+    const overflow = this.overflow.filter(entry => entry.channelId === target.id && entry.payload.scraper.id === scraper.id);
+    if (overflow.length === 0) {
+      return;
     }
 
-    let message = `$${listing.price.toLocaleString()}`;
+    this.overflow = this.overflow.filter(entry => !overflow.includes(entry));
+    console.log(`${target.id} hourly limit reached for scraper ${scraper.id}, summarizing ${overflow.length} notifications`);
+    await this.sendDigest(target, scraper, overflow.map(entry => entry.payload), lowPriority);
+  }
 
-    if (listing.previousPrice) {
-      message += ` (was $${listing.previousPrice.toLocaleString()})`;
-      if (priceDropPercentage) {
-        message += ` - ${priceDropPercentage.toFixed(1)}% drop`;
-      }
+  private async deliverScheduledDigest(
+    target: ChannelTarget,
+    delivery: 'hourly' | 'daily',
+    scraper: ScraperConfig,
+    payloads: NotificationPayload[],
+    lowPriority: boolean
+  ): Promise<void> {
+    const store = this.requireStore(`${delivery} delivery`);
+
+    if (payloads.length > 0) {
+      await store.addToDigest(scraper.id, target.id, payloads.map(toDigestItem));
+    }
+
+    const digest = await store.getDigest(scraper.id, target.id);
+    const periodStart = digest.lastSentAt || digest.startedAt;
+
+    if (digest.items.length === 0 || (periodStart && Date.now() - Date.parse(periodStart) < DIGEST_INTERVALS[delivery])) {
+      return;
     }
 
-    message += `\n📍 ${listing.location}`;
-    message += `\n🔍 ${scraper.name}`;
+    await this.sendDigest(target, scraper, digest.items.map(item => ({ ...item, scraper })), lowPriority);
+    await store.clearDigest(scraper.id, target.id, new Date().toISOString());
+  }
 
-    return { title, message };
+  private requireStore(feature: string): NotificationStore {
+    if (!this.notificationStore) {
+      throw new Error(`${feature} requires a notification store`);
+    }
+    return this.notificationStore;
   }
 
-  private getSecretValue(key: string): string {
-    // If the key contains '-from-secrets', look it up in secrets
-    if (key.includes('-from-secrets')) {
-      const secretKey = key.replace('-from-secrets', '') as keyof SecretsConfig;
-      return this.secrets[secretKey] || '';
+  private async sendToChannel({ id, channel, settings }: ChannelTarget, payload: NotificationPayload, lowPriority = false): Promise<void> {
+    try {
+      const template = getTemplate(payload, settings.type);
+      const message = template !== undefined && channel.formatTemplate
+        ? channel.formatTemplate(template, payload, settings, { lowPriority })
+        : channel.formatMessage(payload, settings, { lowPriority });
+
+      await channel.send(message, settings, this.secrets);
+      console.log(`${id} notification sent for listing ${payload.listing.listingId}`);
+    } catch (error) {
+      console.error(`Failed to send ${id} notification:`, error);
+      throw error;
     }
-    return key;
   }
 
-  private escapeHtml(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&#x27;');
+  private async sendDigest(
+    target: ChannelTarget,
+    scraper: ScraperConfig,
+    payloads: NotificationPayload[],
+    lowPriority = false
+  ): Promise<void> {
+    const { id, channel, settings } = target;
+
+    if (!channel.supportsBatching) {
+      // Channels that can't combine payloads get one message each
+      for (const payload of payloads) {
+        await this.sendToChannel(target, payload, lowPriority);
+      }
+      return;
+    }
+
+    await channel.send(channel.formatDigest(scraper, payloads, settings, { lowPriority }), settings, this.secrets);
+    console.log(`${id} digest sent for scraper ${scraper.id} (${payloads.length} items)`);
   }
 }
+
+const toDigestItem = (payload: NotificationPayload): DigestItem => {
+  const item: Partial<NotificationPayload> = { ...payload };
+  delete item.scraper; // Rejoined with the current config when the digest is sent
+  return item as DigestItem;
+};
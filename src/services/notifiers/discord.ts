@@ -0,0 +1,89 @@
+import axios from 'axios';
+import { ChannelOptions, NotificationChannel, NotificationPayload, ScraperConfig, SecretsConfig } from '../../types';
+import { ChannelValidationContext, ObjectSchema, mustBeUrl, requireCredential, stringField } from '../config-rules';
+import { resolveSecret } from '../../utils/helpers';
+import { describePrice } from '../../utils/prices';
+import { DIGEST_MAX_ITEMS } from '../../utils/constants';
+import { describeDigestItem, getEventHeading, getListingDetails, summarizeDigest } from './formatting';
+import { renderTemplate } from './templates';
+
+export interface DiscordSettings extends ChannelOptions {
+  webhook: string;
+}
+
+export class DiscordChannel implements NotificationChannel<DiscordSettings, object> {
+  readonly configSchema: ObjectSchema = {
+    webhook: { rule: stringField() },
+  };
+
+  readonly supportsBatching = true;
+  readonly supportsLowPriority = false;
+
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void {
+    requireCredential(settings, 'webhook', context, mustBeUrl);
+  }
+
+  formatMessage(payload: NotificationPayload): object {
+    const { listing, scraper } = payload;
+    const { emoji, heading, color } = getEventHeading(payload);
+
+    return {
+      username: 'Peddler',
+      embeds: [
+        {
+          title: listing.title.slice(0, 256),
+          url: listing.url,
+          description: `${emoji} ${heading}`,
+          color,
+          fields: getListingDetails(payload).map(([name, value]) => ({ name, value, inline: name !== 'Price History' && name !== 'Description' })),
+          ...(listing.imageUrl ? { image: { url: listing.imageUrl } } : {}),
+          footer: { text: `Peddler • ${scraper.name}` },
+          timestamp: new Date().toISOString(),
+        },
+      ],
+    };
+  }
+
+  formatDigest(scraper: ScraperConfig, payloads: NotificationPayload[]): object {
+    const lines = payloads
+      .slice(0, DIGEST_MAX_ITEMS)
+      .map(payload => {
+        const title = payload.listing.title.replace(/[[\]]/g, '');
+        return `${describeDigestItem(payload)} [${title}](${payload.listing.url}) - ${describePrice(payload.listing)}`;
+      });
+
+    if (payloads.length > DIGEST_MAX_ITEMS) {
+      lines.push(`…and ${payloads.length - DIGEST_MAX_ITEMS} more`);
+    }
+
+    return {
+      username: 'Peddler',
+      embeds: [
+        {
+          title: `📬 ${scraper.name}: ${payloads.length} update${payloads.length === 1 ? '' : 's'}`.slice(0, 256),
+          description: lines.join('\n').slice(0, 4096), // Discord's embed description limit
+          color: 0x2d7ff9,
+          footer: { text: summarizeDigest(payloads) },
+          timestamp: new Date().toISOString(),
+        },
+      ],
+    };
+  }
+
+  formatTemplate(template: string, payload: NotificationPayload): object {
+    const { listing } = payload;
+
+    return {
+      username: 'Peddler',
+      content: renderTemplate(template, payload).slice(0, 2000), // Discord's message limit
+      ...(listing.imageUrl ? { embeds: [{ image: { url: listing.imageUrl } }] } : {}),
+    };
+  }
+
+  async send(message: object, settings: DiscordSettings, secrets: SecretsConfig): Promise<void> {
+    await axios.post(resolveSecret(settings.webhook, secrets), message, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 10000,
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import nodemailer from 'nodemailer';
+import { ChannelOptions, NotificationChannel, NotificationPayload, ScraperConfig, SecretsConfig } from '../../types';
+import {
+  ChannelValidationContext,
+  ObjectSchema,
+  checkSecretReference,
+  emailListField,
+  mustBeEmail,
+  numberField,
+  oneOfField,
+  requireCredential,
+  stringField,
+} from '../config-rules';
+import { resolveSecret } from '../../utils/helpers';
+import { describePrice } from '../../utils/prices';
+import { describeDigestItem, escapeHtml, getEventHeading, getListingDetails, summarizeDigest } from './formatting';
+import { renderTemplate, splitTitle } from './templates';
+
+export interface EmailSettings extends ChannelOptions {
+  host: string;
+  port?: number; // Defaults to 465 for implicit TLS, 587 otherwise
+  tls?: 'implicit' | 'starttls' | 'none'; // Defaults to starttls
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface EmailMessage {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export class EmailChannel implements NotificationChannel<EmailSettings, EmailMessage> {
+  readonly configSchema: ObjectSchema = {
+    host: { rule: stringField() },
+    port: { rule: numberField({ min: 1, max: 65535, integer: true }) },
+    tls: { rule: oneOfField(['implicit', 'starttls', 'none']) },
+    username: { rule: stringField() },
+    password: { rule: stringField() },
+    from: { rule: stringField() },
+    to: { rule: emailListField() },
+  };
+
+  readonly supportsBatching = true;
+  readonly supportsLowPriority = false;
+
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void {
+    requireCredential(settings, 'host', context);
+    requireCredential(settings, 'from', context, mustBeEmail);
+    checkSecretReference(settings, 'username', context);
+    checkSecretReference(settings, 'password', context);
+
+    if (!Array.isArray(settings.to) || settings.to.length === 0) {
+      context.issues.push({ path: `${context.path}.to`, message: `needs at least one recipient when ${context.type} is enabled` });
+    }
+  }
+
+  formatMessage(payload: NotificationPayload): EmailMessage {
+    const { listing, scraper } = payload;
+    const { heading: header } = getEventHeading(payload);
+    const details = getListingDetails(payload);
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px;">
+        <h2 style="margin: 0 0 12px;">${escapeHtml(header)}</h2>
+        ${listing.imageUrl ? `<a href="${escapeHtml(listing.url)}"><img src="${escapeHtml(listing.imageUrl)}" alt="${escapeHtml(listing.title)}" style="max-width: 100%; border-radius: 6px;"></a>` : ''}
+        <h3 style="margin: 12px 0;"><a href="${escapeHtml(listing.url)}">${escapeHtml(listing.title)}</a></h3>
+        <table style="border-collapse: collapse;">
+          ${details.map(([label, value]) => `<tr><td style="padding: 2px 12px 2px 0; color: #666;">${escapeHtml(label)}</td><td style="padding: 2px 0;">${escapeHtml(value)}</td></tr>`).join('\n          ')}
+        </table>
+        <p><a href="${escapeHtml(listing.url)}" style="display: inline-block; padding: 8px 16px; background: #2d7ff9; color: #fff; text-decoration: none; border-radius: 4px;">View Listing</a></p>
+        <p style="color: #999; font-size: 12px;">Peddler • ${escapeHtml(scraper.name)}</p>
+      </div>`;
+
+    const text = [
+      header,
+      '',
+      listing.title,
+      ...details.map(([label, value]) => `${label}: ${value}`),
+      '',
+      `View listing: ${listing.url}`,
+      '',
+      `Peddler • ${scraper.name}`,
+    ].join('\n');
+
+    return { subject: `[Peddler] ${header}: ${listing.title}`, html, text };
+  }
+
+  formatDigest(scraper: ScraperConfig, payloads: NotificationPayload[]): EmailMessage {
+    const summary = summarizeDigest(payloads);
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px;">
+        <h2 style="margin: 0 0 4px;">${escapeHtml(scraper.name)}: ${payloads.length} update${payloads.length === 1 ? '' : 's'}</h2>
+        <p style="margin: 0 0 12px; color: #666;">${escapeHtml(summary)}</p>
+        <table style="border-collapse: collapse; width: 100%;">
+          ${payloads.map(payload => `<tr>
+            <td style="padding: 6px 8px 6px 0; vertical-align: top;">${listingThumbnail(payload.listing.imageUrl)}</td>
+            <td style="padding: 6px 0; vertical-align: top;">
+              <a href="${escapeHtml(payload.listing.url)}">${escapeHtml(payload.listing.title)}</a><br>
+              ${escapeHtml(describeDigestItem(payload))} • ${escapeHtml(describePrice(payload.listing))} • ${escapeHtml(payload.listing.location)}
+            </td>
+          </tr>`).join('\n          ')}
+        </table>
+        <p style="color: #999; font-size: 12px;">Peddler • ${escapeHtml(scraper.name)}</p>
+      </div>`;
+
+    const text = [
+      `${scraper.name}: ${summary}`,
+      '',
+      ...payloads.map(payload =>
+        `${describeDigestItem(payload)} ${payload.listing.title} - ${describePrice(payload.listing)}\n  ${payload.listing.url}`
+      ),
+    ].join('\n');
+
+    return { subject: `[Peddler] ${scraper.name}: ${summary}`, html, text };
+  }
+
+  // The first line of the rendered template is the subject, the rest the plain-text body
+  formatTemplate(template: string, payload: NotificationPayload): EmailMessage {
+    const { title, body } = splitTitle(renderTemplate(template, payload));
+
+    return {
+      subject: title,
+      html: `<div style="font-family: Arial, sans-serif; max-width: 600px;">${escapeHtml(body).replace(/\n/g, '<br>\n')}</div>`,
+      text: body,
+    };
+  }
+
+  async send(message: EmailMessage, settings: EmailSettings, secrets: SecretsConfig): Promise<void> {
+    const tls = settings.tls || 'starttls';
+    const username = settings.username ? resolveSecret(settings.username, secrets) : undefined;
+
+    const transport = nodemailer.createTransport({
+      host: resolveSecret(settings.host, secrets),
+      port: settings.port || (tls === 'implicit' ? 465 : 587),
+      secure: tls === 'implicit',
+      requireTLS: tls === 'starttls',
+      ignoreTLS: tls === 'none',
+      auth: username ? { user: username, pass: resolveSecret(settings.password || '', secrets) } : undefined,
+      connectionTimeout: 10000,
+    });
+
+    await transport.sendMail({
+      from: settings.from,
+      to: settings.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+const listingThumbnail = (imageUrl?: string): string => {
+  return imageUrl ? `<img src="${escapeHtml(imageUrl)}" alt=""" width="80" style="border-radius: 4px;">` : '';
+};
@@ -0,0 +1,188 @@
+import { Listing, ListingSighting, NotificationPayload } from '../../types';
+import { describePriceHistory, formatDate, formatTimeRemaining, getDaysListed } from '../../utils/helpers';
+import { DESCRIPTION_PREVIEW_LENGTH } from '../../utils/constants';
+import { describePrice, formatPrice } from '../../utils/prices';
+
+/**
+ * Wording shared by the channel formatters, so every channel describes an
+ * event the same way.
+ */
+
+const EVENT_HEADINGS: Record<NotificationPayload['type'], { emoji: string; heading: string; color: number }> = {
+  new_listing: { emoji: '🆕', heading: 'New Listing Found', color: 0x36a64f },
+  price_drop: { emoji: '📉', heading: 'Price Drop', color: 0xff6b6b },
+  price_increase: { emoji: '📈', heading: 'Price Increase', color: 0x5bc0de },
+  auction_ending: { emoji: '⏰', heading: 'Auction Ending Soon', color: 0xf0ad4e },
+  listing_removed: { emoji: '🏁', heading: 'Listing Removed', color: 0x999999 },
+  relisted: { emoji: '🔁', heading: 'Listing Relisted', color: 0x9b59b6 },
+};
+
+// e.g. { emoji: '📉', heading: 'Price Drop (-12.5%)', color: 0xff6b6b }
+export const getEventHeading = (payload: NotificationPayload): { emoji: string; heading: string; color: number } => {
+  const { emoji, heading, color } = EVENT_HEADINGS[payload.type];
+
+  if (payload.type === 'price_drop') {
+    return { emoji, heading: `${heading} (-${payload.priceDropPercentage?.toFixed(1)}%)`, color };
+  }
+  if (payload.type === 'price_increase') {
+    return { emoji, heading: `${heading} (+${payload.priceIncreasePercentage?.toFixed(1)}%)`, color };
+  }
+  return { emoji, heading, color };
+};
+
+// e.g. "craigslist-civic ($8,900), civic-manual ($9,000)"
+export const describeSightings = (sightings: ListingSighting[]): string => {
+  return sightings.map(({ scraperId, price, currency }) => `${scraperId} (${formatPrice(price, currency)})`).join(', ');
+};
+
+// The start of a listing description on one line, cut at a word boundary
+export const previewDescription = (description: string, maxLength: number = DESCRIPTION_PREVIEW_LENGTH): string => {
+  const text = description.replace(/\s+/g, ' ').trim();
+  if (text.length <= maxLength) {
+    return text;
+  }
+
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:-]+$/, '')}…`;
+};
+
+// e.g. "12 mi away", or "3.5 mi from Work" when there are several homes
+export const describeDistance = ({ distance, nearestHome }: Listing): string | undefined => {
+  if (distance === undefined) {
+    return undefined;
+  }
+  const miles = distance < 10 ? distance.toFixed(1).replace(/\.0$/, '') : Math.round(distance).toLocaleString();
+  return `${miles} mi ${nearestHome ? `from ${nearestHome}` : 'away'}`;
+};
+
+// e.g. "Ballard, WA (12 mi away)"
+export const describeLocation = (listing: Listing): string => {
+  const distance = describeDistance(listing);
+  return distance ? `${listing.location} (${distance})` : listing.location;
+};
+
+// e.g. "32% below typical for 2015 ($12,000)"
+export const describeMarketValue = ({ marketValue, currency }: Listing): string | undefined => {
+  if (!marketValue) {
+    return undefined;
+  }
+  const { difference, typicalPrice, bucket } = marketValue;
+  const comparison = difference === 0 ? 'Typical price' : `${Math.abs(difference)}% ${difference > 0 ? 'below' : 'above'} typical`;
+  return `${comparison}${bucket ? ` for ${bucket}` : ''} (${formatPrice(typicalPrice, currency)})`;
+};
+
+// Label/value pairs shown under the listing title
+export const getListingDetails = ({ type, listing, alsoListed }: NotificationPayload): [string, string][] => {
+  const details: [string, string][] = [['Price', describePrice(listing)]];
+
+  if (listing.previousPrice) {
+    details.push(['Previous Price', formatPrice(listing.previousPrice, listing.currency)]);
+  }
+
+  const priceHistory = describePriceHistory(listing);
+  if (priceHistory) {
+    details.push(['Price History', priceHistory]);
+  }
+
+  const marketValue = describeMarketValue(listing);
+  if (marketValue) {
+    details.push(['Deal', marketValue]);
+  }
+
+  if (listing.auction) {
+    details.push(['Bids', listing.auction.bidCount.toString()]);
+    if (listing.auction.endTime) {
+      details.push(['Ends In', formatTimeRemaining(listing.auction.endTime)]);
+    }
+  }
+
+  if (type === 'listing_removed') {
+    const daysListed = getDaysListed(listing);
+    details.push(['Listed For', `${daysListed} day${daysListed === 1 ? '' : 's'}`]);
+  }
+
+  details.push(['Location', describeLocation(listing)]);
+
+  if (listing.condition) {
+    details.push(['Condition', listing.condition]);
+  }
+  if (listing.postedAt) {
+    details.push(['Posted', formatDate(listing.postedAt)]);
+  }
+
+  if (alsoListed?.length) {
+    details.push(['Also Listed', describeSightings(alsoListed)]);
+  }
+
+  if (listing.description) {
+    details.push(['Description', previewDescription(listing.description)]);
+  }
+
+  return details;
+};
+
+const DIGEST_LABELS: Record<NotificationPayload['type'], [string, string]> = {
+  new_listing: ['new', 'new'],
+  price_drop: ['price drop', 'price drops'],
+  price_increase: ['price increase', 'price increases'],
+  auction_ending: ['auction ending', 'auctions ending'],
+  listing_removed: ['removed', 'removed'],
+  relisted: ['relisted', 'relisted'],
+};
+
+// e.g. "3 new, 1 price drop"
+export const summarizeDigest = (payloads: NotificationPayload[]): string => {
+  const counts = new Map<NotificationPayload['type'], number>();
+  payloads.forEach(({ type }) => counts.set(type, (counts.get(type) || 0) + 1));
+
+  return Array.from(counts, ([type, count]) => `${count} ${DIGEST_LABELS[type][count === 1 ? 0 : 1]}`).join(', ');
+};
+
+export const describeDigestItem = (payload: NotificationPayload): string => {
+  const { type, listing, priceDropPercentage, priceIncreasePercentage } = payload;
+
+  switch (type) {
+    case 'new_listing':
+      return '🆕';
+    case 'price_drop':
+      return `📉 -${priceDropPercentage?.toFixed(1)}%`;
+    case 'price_increase':
+      return `📈 +${priceIncreasePercentage?.toFixed(1)}%`;
+    case 'auction_ending':
+      return listing.auction?.endTime ? `⏰ ${formatTimeRemaining(listing.auction.endTime)} left` : '⏰';
+    case 'listing_removed':
+      return '🏁 removed';
+    case 'relisted':
+      return '🔁 relisted';
+  }
+};
+
+// Plain-text digest lines, with a "…and N more" line past the item limit
+export const listDigestItems = (payloads: NotificationPayload[], limit: number): string[] => {
+  const lines = payloads
+    .slice(0, limit)
+    .map(payload => `${describeDigestItem(payload)} ${payload.listing.title} - ${describePrice(payload.listing)}`);
+
+  if (payloads.length > limit) {
+    lines.push(`…and ${payloads.length - limit} more`);
+  }
+
+  return lines;
+};
+
+export const escapeSlack = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+};
+
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#x27;');
+};
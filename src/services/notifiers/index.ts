@@ -0,0 +1,66 @@
+import { ChannelConfig, NotificationChannel, NotificationConfig } from '../../types';
+import { ERROR_MESSAGES } from '../../utils/constants';
+import { SlackChannel } from './slack';
+import { TelegramChannel } from './telegram';
+import { PushoverChannel } from './pushover';
+import { EmailChannel } from './email';
+import { DiscordChannel } from './discord';
+import { NtfyChannel } from './ntfy';
+import { WebhookChannel } from './webhook';
+
+/**
+ * Channel type → channel factory. Adding a channel means writing a class
+ * that implements NotificationChannel and registering it here; the
+ * NotificationConfig types and config validation follow from this map.
+ */
+const CHANNEL_REGISTRY = {
+  slack: (): SlackChannel => new SlackChannel(),
+  telegram: (): TelegramChannel => new TelegramChannel(),
+  pushover: (): PushoverChannel => new PushoverChannel(),
+  email: (): EmailChannel => new EmailChannel(),
+  discord: (): DiscordChannel => new DiscordChannel(),
+  ntfy: (): NtfyChannel => new NtfyChannel(),
+  webhook: (): WebhookChannel => new WebhookChannel(),
+} satisfies Record<string, () => NotificationChannel>;
+
+export type ChannelType = keyof typeof CHANNEL_REGISTRY;
+
+// Channel type → settings accepted by that channel
+export type ChannelSettingsMap = {
+  [K in ChannelType]: ReturnType<(typeof CHANNEL_REGISTRY)[K]> extends NotificationChannel<infer S> ? S : never;
+};
+
+export const getSupportedChannels = (): ChannelType[] => {
+  return Object.keys(CHANNEL_REGISTRY) as ChannelType[];
+};
+
+export const isSupportedChannel = (type: string): type is ChannelType => {
+  return Object.prototype.hasOwnProperty.call(CHANNEL_REGISTRY, type);
+};
+
+export const createNotificationChannel = (type: string): NotificationChannel => {
+  if (!isSupportedChannel(type)) {
+    throw new Error(`${ERROR_MESSAGES.INVALID_CHANNEL}: ${type}`);
+  }
+
+  return CHANNEL_REGISTRY[type]();
+};
+
+/**
+ * The configured channel instances, in order. Accepts both the list format
+ * and the older object keyed by channel type.
+ */
+export const getChannelConfigs = (notifications: NotificationConfig): ChannelConfig[] => {
+  if (Array.isArray(notifications)) {
+    return notifications;
+  }
+
+  return getSupportedChannels()
+    .filter(type => notifications[type])
+    .map(type => ({ ...notifications[type], type }) as ChannelConfig);
+};
+
+// Instances of the same type need distinct ids so their digests and counts stay separate
+export const getChannelId = (config: ChannelConfig): string => {
+  return config.id || config.type;
+};
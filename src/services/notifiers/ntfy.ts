@@ -0,0 +1,112 @@
+import axios from 'axios';
+import {
+  ChannelOptions,
+  FormatOptions,
+  NotificationChannel,
+  NotificationPayload,
+  ScraperConfig,
+  SecretsConfig,
+} from '../../types';
+import {
+  ChannelValidationContext,
+  ObjectSchema,
+  checkSecretReference,
+  numberField,
+  requireCredential,
+  stringArrayField,
+  stringField,
+  urlField,
+} from '../config-rules';
+import { resolveSecret } from '../../utils/helpers';
+import { DIGEST_MAX_ITEMS } from '../../utils/constants';
+import { getEventHeading, getListingDetails, listDigestItems, summarizeDigest } from './formatting';
+import { renderTemplate, splitTitle } from './templates';
+
+export interface NtfySettings extends ChannelOptions {
+  server?: string; // Defaults to https://ntfy.sh
+  topic: string;
+  token?: string; // Access token for protected topics
+  priority?: 1 | 2 | 3 | 4 | 5; // 1 = min, 3 = default, 5 = max
+  tags?: string[]; // Emoji shortcodes or labels shown with the message
+}
+
+export interface NtfyMessage {
+  title: string;
+  message: string;
+  priority?: number;
+  tags?: string[];
+  click?: string;
+  attach?: string;
+}
+
+export class NtfyChannel implements NotificationChannel<NtfySettings, NtfyMessage> {
+  readonly configSchema: ObjectSchema = {
+    server: { rule: urlField() },
+    topic: { rule: stringField() },
+    token: { rule: stringField() },
+    priority: { rule: numberField({ min: 1, max: 5, integer: true }) },
+    tags: { rule: stringArrayField() },
+  };
+
+  readonly supportsBatching = true;
+  readonly supportsLowPriority = true;
+
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void {
+    requireCredential(settings, 'topic', context);
+    checkSecretReference(settings, 'token', context);
+  }
+
+  formatMessage(payload: NotificationPayload, settings: NtfySettings, options: FormatOptions): NtfyMessage {
+    const { listing } = payload;
+    const { emoji, heading } = getEventHeading(payload);
+
+    return {
+      title: `${emoji} ${heading}: ${listing.title}`,
+      message: getListingDetails(payload).map(([label, value]) => `${label}: ${value}`).join('\n'),
+      priority: ntfyPriority([payload], options.lowPriority, settings.priority),
+      click: listing.url,
+      ...(listing.imageUrl ? { attach: listing.imageUrl } : {}),
+    };
+  }
+
+  formatDigest(scraper: ScraperConfig, payloads: NotificationPayload[], settings: NtfySettings, options: FormatOptions): NtfyMessage {
+    return {
+      title: `${scraper.name}: ${summarizeDigest(payloads)}`,
+      message: listDigestItems(payloads, DIGEST_MAX_ITEMS).join('\n'),
+      priority: ntfyPriority(payloads, options.lowPriority, settings.priority),
+    };
+  }
+
+  formatTemplate(template: string, payload: NotificationPayload, settings: NtfySettings, options: FormatOptions): NtfyMessage {
+    const { listing } = payload;
+    const { title, body } = splitTitle(renderTemplate(template, payload));
+
+    return {
+      title,
+      message: body || title,
+      priority: ntfyPriority([payload], options.lowPriority, settings.priority),
+      click: listing.url,
+      ...(listing.imageUrl ? { attach: listing.imageUrl } : {}),
+    };
+  }
+
+  async send(message: NtfyMessage, settings: NtfySettings, secrets: SecretsConfig): Promise<void> {
+    const token = settings.token ? resolveSecret(settings.token, secrets) : undefined;
+
+    // JSON publishing keeps emoji and non-ASCII titles intact
+    await axios.post(settings.server || 'https://ntfy.sh', {
+      topic: resolveSecret(settings.topic, secrets),
+      ...message,
+      tags: [...(settings.tags || []), ...(message.tags || [])],
+    }, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      timeout: 10000,
+    });
+  }
+}
+
+// ntfy priorities run from 1 (min) to 5 (max)
+const ntfyPriority = (payloads: NotificationPayload[], lowPriority: boolean, configured?: number): number | undefined => {
+  if (payloads.some(payload => payload.urgent)) return 5;
+  return lowPriority ? 1 : configured;
+};
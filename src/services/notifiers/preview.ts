@@ -0,0 +1,85 @@
+import { ChannelType, createNotificationChannel, getSupportedChannels } from '.';
+import { Listing, NotificationPayload, NotificationType, ScraperConfig } from '../../types';
+import { DEFAULT_CURRENCY, NOTIFICATION_TYPES } from '../../utils/constants';
+import { renderTemplate } from './templates';
+
+// Channel types that accept message templates
+export const getTemplateChannels = (): ChannelType[] => {
+  return getSupportedChannels().filter(type => createNotificationChannel(type).formatTemplate !== undefined);
+};
+
+/**
+ * A made-up payload of the given type for the scraper, so templates can be
+ * previewed without waiting for a real listing.
+ */
+export const createSamplePayload = (scraper: ScraperConfig, type: NotificationType, now = new Date()): NotificationPayload => {
+  const daysAgo = (days: number): string => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+  const listing: Listing = {
+    scraperId: scraper.id,
+    listingId: 'sample',
+    title: '2015 Honda Civic EX - 6 speed manual',
+    price: type === 'price_increase' ? 11000 : 9000,
+    currency: scraper.currency ?? DEFAULT_CURRENCY,
+    previousPrice: type === 'price_drop' || type === 'price_increase' ? 10000 : undefined,
+    priceHistory: [
+      { price: 12000, timestamp: daysAgo(9) },
+      { price: 10000, timestamp: daysAgo(4) },
+      ...(type === 'price_drop' ? [{ price: 9000, timestamp: daysAgo(0) }] : []),
+      ...(type === 'price_increase' ? [{ price: 11000, timestamp: daysAgo(0) }] : []),
+    ],
+    marketValue: { typicalPrice: 11500, percentile: 18, difference: 22, sampleSize: 42 },
+    location: scraper.location,
+    distance: 4.2,
+    url: 'https://example.com/listings/sample',
+    imageUrl: 'https://example.com/listings/sample.jpg',
+    seller: 'sample-seller',
+    description: 'Clean title, 98k miles. New clutch and timing belt, one owner.',
+    condition: 'Used - Good',
+    postedAt: daysAgo(10),
+    ...(type === 'auction_ending' ? {
+      listingType: 'auction',
+      auction: { currentBid: 9000, bidCount: 7, endTime: new Date(now.getTime() + 25 * 60 * 1000).toISOString() },
+    } : {}),
+    firstSeen: daysAgo(9),
+    lastSeen: now.toISOString(),
+    expiresAt: 0,
+  };
+
+  return {
+    type,
+    listing,
+    scraper,
+    ...(type === 'price_drop' ? { priceDropPercentage: 10 } : {}),
+    ...(type === 'price_increase' ? { priceIncreasePercentage: 10 } : {}),
+  };
+};
+
+export interface TemplatePreview {
+  channel?: ChannelType; // Unset when rendering a template given on the command line
+  type: NotificationType;
+  output: string;
+}
+
+/**
+ * Render every template configured for the scraper against sample payloads.
+ * With `template`, that text is rendered for each notification type instead.
+ */
+export const previewTemplates = (
+  scraper: ScraperConfig,
+  options: { channel?: string; type?: string; template?: string } = {}
+): TemplatePreview[] => {
+  const types = NOTIFICATION_TYPES.filter(type => !options.type || type === options.type);
+
+  if (options.template !== undefined) {
+    const template = options.template;
+    return types.map(type => ({ type, output: renderTemplate(template, createSamplePayload(scraper, type)) }));
+  }
+
+  const channels = getTemplateChannels().filter(channel => !options.channel || channel === options.channel);
+
+  return channels.flatMap(channel => types.flatMap(type => {
+    const template = scraper.templates?.[channel]?.[type];
+    return template === undefined ? [] : [{ channel, type, output: renderTemplate(template, createSamplePayload(scraper, type)) }];
+  }));
+};
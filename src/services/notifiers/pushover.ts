@@ -0,0 +1,102 @@
+import axios from 'axios';
+import {
+  ChannelOptions,
+  FormatOptions,
+  NotificationChannel,
+  NotificationPayload,
+  ScraperConfig,
+  SecretsConfig,
+} from '../../types';
+import { ChannelValidationContext, ObjectSchema, requireCredential, stringField } from '../config-rules';
+import { resolveSecret } from '../../utils/helpers';
+import { DIGEST_MAX_ITEMS } from '../../utils/constants';
+import { getEventHeading, getListingDetails, listDigestItems, summarizeDigest } from './formatting';
+import { renderTemplate, splitTitle } from './templates';
+
+export interface PushoverSettings extends ChannelOptions {
+  userKey: string;
+  appToken: string;
+}
+
+export interface PushoverMessage {
+  title: string;
+  message: string;
+  url?: string;
+  priority?: number;
+}
+
+export class PushoverChannel implements NotificationChannel<PushoverSettings, PushoverMessage> {
+  readonly configSchema: ObjectSchema = {
+    userKey: { rule: stringField() },
+    appToken: { rule: stringField() },
+  };
+
+  readonly supportsBatching = true;
+  readonly supportsLowPriority = true;
+
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void {
+    requireCredential(settings, 'userKey', context);
+    requireCredential(settings, 'appToken', context);
+  }
+
+  formatMessage(payload: NotificationPayload, _settings: PushoverSettings, options: FormatOptions): PushoverMessage {
+    const { listing, scraper } = payload;
+    const { emoji, heading } = getEventHeading(payload);
+    const details = getListingDetails(payload).map(([label, value]) => `${label}: ${value}`);
+
+    return {
+      title: `${emoji} ${heading}: ${listing.title}`.slice(0, 250), // Pushover's title limit
+      message: [...details, `🔍 ${scraper.name}`].join('\n').slice(0, 1024), // Pushover's message limit
+      url: listing.url,
+      priority: pushoverPriority([payload], options.lowPriority),
+    };
+  }
+
+  formatDigest(
+    scraper: ScraperConfig,
+    payloads: NotificationPayload[],
+    _settings: PushoverSettings,
+    options: FormatOptions
+  ): PushoverMessage {
+    return {
+      title: `${scraper.name}: ${summarizeDigest(payloads)}`,
+      message: listDigestItems(payloads, DIGEST_MAX_ITEMS).join('\n').slice(0, 1024), // Pushover's message limit
+      priority: pushoverPriority(payloads, options.lowPriority),
+    };
+  }
+
+  formatTemplate(
+    template: string,
+    payload: NotificationPayload,
+    _settings: PushoverSettings,
+    options: FormatOptions
+  ): PushoverMessage {
+    const { title, body } = splitTitle(renderTemplate(template, payload));
+
+    return {
+      title,
+      message: body || title, // Pushover rejects empty messages
+      url: payload.listing.url,
+      priority: pushoverPriority([payload], options.lowPriority),
+    };
+  }
+
+  async send(message: PushoverMessage, settings: PushoverSettings, secrets: SecretsConfig): Promise<void> {
+    await axios.post('https://api.pushover.net/1/messages.json', {
+      token: resolveSecret(settings.appToken, secrets),
+      user: resolveSecret(settings.userKey, secrets),
+      title: message.title,
+      message: message.message,
+      ...(message.url ? { url: message.url, url_title: 'View Listing' } : {}),
+      ...(message.priority !== undefined ? { priority: message.priority } : {}),
+    }, {
+      timeout: 10000,
+    });
+  }
+}
+
+// Pushover priorities: -1 is delivered silently, 1 bypasses the user's own quiet hours
+const pushoverPriority = (payloads: NotificationPayload[], lowPriority: boolean): number | undefined => {
+  if (payloads.some(payload => payload.urgent)) return 1;
+  return lowPriority ? -1 : undefined;
+};
@@ -0,0 +1,106 @@
+import axios from 'axios';
+import { ChannelOptions, NotificationChannel, NotificationPayload, ScraperConfig, SecretsConfig } from '../../types';
+import { ChannelValidationContext, ObjectSchema, mustBeUrl, requireCredential, stringField } from '../config-rules';
+import { resolveSecret } from '../../utils/helpers';
+import { describePrice, formatPrice } from '../../utils/prices';
+import { DIGEST_MAX_ITEMS } from '../../utils/constants';
+import { describeDigestItem, escapeSlack, getEventHeading, getListingDetails, summarizeDigest } from './formatting';
+import { renderTemplate } from './templates';
+
+export interface SlackSettings extends ChannelOptions {
+  webhook: string;
+}
+
+export class SlackChannel implements NotificationChannel<SlackSettings, object> {
+  readonly configSchema: ObjectSchema = {
+    webhook: { rule: stringField() },
+  };
+
+  readonly supportsBatching = true;
+  readonly supportsLowPriority = false;
+
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void {
+    requireCredential(settings, 'webhook', context, mustBeUrl);
+  }
+
+  formatMessage(payload: NotificationPayload): object {
+    const { listing, scraper, alsoListed } = payload;
+    const { emoji, heading, color } = getEventHeading(payload);
+
+    // Sightings link to the other listings; every other value is shown as text
+    const fields = getListingDetails(payload).map(([title, value]) => ({
+      title,
+      value: title === 'Also Listed' && alsoListed
+        ? alsoListed.map(({ scraperId, url, price, currency }) => `<${url}|${escapeSlack(scraperId)}> (${formatPrice(price, currency)})`).join(', ')
+        : escapeSlack(value),
+      short: !['Price History', 'Also Listed', 'Description'].includes(title),
+    }));
+
+    return {
+      attachments: [
+        {
+          color: `#${color.toString(16).padStart(6, '0')}`,
+          title: `${emoji} ${heading}`,
+          title_link: listing.url,
+          fields: [{ title: 'Title', value: escapeSlack(listing.title), short: false }, ...fields],
+          image_url: listing.imageUrl,
+          footer: `Peddler • ${scraper.name}`,
+          ts: Math.floor(Date.now() / 1000),
+        },
+      ],
+    };
+  }
+
+  formatDigest(scraper: ScraperConfig, payloads: NotificationPayload[]): object {
+    const shown = payloads.slice(0, DIGEST_MAX_ITEMS);
+    const remaining = payloads.length - shown.length;
+
+    return {
+      text: `${scraper.name}: ${summarizeDigest(payloads)}`,
+      blocks: [
+        {
+          type: 'header',
+          text: { type: 'plain_text', text: `📬 ${scraper.name}: ${payloads.length} update${payloads.length === 1 ? '' : 's'}` },
+        },
+        {
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: summarizeDigest(payloads) }],
+        },
+        { type: 'divider' },
+        ...shown.map(({ listing, ...payload }) => ({
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `*<${listing.url}|${escapeSlack(listing.title)}>*\n` +
+              `${describeDigestItem({ listing, ...payload })} • ${describePrice(listing)} • ${escapeSlack(listing.location)}`,
+          },
+          ...(listing.imageUrl ? {
+            accessory: { type: 'image', image_url: listing.imageUrl, alt_text: listing.title },
+          } : {}),
+        })),
+        ...(remaining > 0 ? [{
+          type: 'context',
+          elements: [{ type: 'mrkdwn', text: `…and ${remaining} more` }],
+        }] : []),
+      ],
+    };
+  }
+
+  formatTemplate(template: string, payload: NotificationPayload): object {
+    const { listing } = payload;
+
+    return {
+      text: renderTemplate(template, payload, escapeSlack),
+      ...(listing.imageUrl ? {
+        attachments: [{ fallback: listing.title, image_url: listing.imageUrl }],
+      } : {}),
+    };
+  }
+
+  async send(message: object, settings: SlackSettings, secrets: SecretsConfig): Promise<void> {
+    await axios.post(resolveSecret(settings.webhook, secrets), message, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 10000,
+    });
+  }
+}
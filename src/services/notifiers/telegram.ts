@@ -0,0 +1,90 @@
+import axios from 'axios';
+import { ChannelOptions, NotificationChannel, NotificationPayload, ScraperConfig, SecretsConfig } from '../../types';
+import { ChannelValidationContext, ObjectSchema, requireCredential, stringField } from '../config-rules';
+import { resolveSecret } from '../../utils/helpers';
+import { describePrice, formatPrice } from '../../utils/prices';
+import { DIGEST_MAX_ITEMS } from '../../utils/constants';
+import { describeDigestItem, escapeHtml, getEventHeading, getListingDetails, summarizeDigest } from './formatting';
+import { renderTemplate } from './templates';
+
+export interface TelegramSettings extends ChannelOptions {
+  botToken: string;
+  chatId: string;
+}
+
+export class TelegramChannel implements NotificationChannel<TelegramSettings, string> {
+  readonly configSchema: ObjectSchema = {
+    botToken: { rule: stringField() },
+    chatId: { rule: stringField() },
+  };
+
+  readonly supportsBatching = true;
+  readonly supportsLowPriority = false;
+
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void {
+    requireCredential(settings, 'botToken', context);
+    requireCredential(settings, 'chatId', context);
+  }
+
+  formatMessage(payload: NotificationPayload): string {
+    const { listing, scraper, alsoListed } = payload;
+    const { emoji, heading } = getEventHeading(payload);
+
+    // Every value is escaped: Telegram rejects HTML messages with a stray "<" or "&"
+    let message = `${emoji} <b>${escapeHtml(heading)}</b>\n\n`;
+    message += `<b>Title:</b> ${escapeHtml(listing.title)}\n`;
+
+    for (const [label, value] of getListingDetails(payload)) {
+      // Sightings link to the other listings
+      const shown = label === 'Also Listed' && alsoListed
+        ? alsoListed.map(({ scraperId, url, price, currency }) =>
+          `<a href="${escapeHtml(url)}">${escapeHtml(scraperId)}</a> (${escapeHtml(formatPrice(price, currency))})`
+        ).join(', ')
+        : escapeHtml(value);
+      message += `<b>${escapeHtml(label)}:</b> ${shown}\n`;
+    }
+
+    message += `<b>Scraper:</b> ${escapeHtml(scraper.name)}\n\n`;
+    message += `<a href="${escapeHtml(listing.url)}">View Listing</a>`;
+
+    return message;
+  }
+
+  formatDigest(scraper: ScraperConfig, payloads: NotificationPayload[]): string {
+    const shown = payloads.slice(0, DIGEST_MAX_ITEMS);
+    const remaining = payloads.length - shown.length;
+
+    let message = `📬 <b>${escapeHtml(scraper.name)}: ${payloads.length} update${payloads.length === 1 ? '' : 's'}</b>\n`;
+    message += `${escapeHtml(summarizeDigest(payloads))}\n\n`;
+
+    for (const payload of shown) {
+      const { listing } = payload;
+      message += `${escapeHtml(describeDigestItem(payload))} <a href="${escapeHtml(listing.url)}">${escapeHtml(listing.title)}</a>`;
+      message += ` - ${escapeHtml(describePrice(listing))}\n`;
+    }
+
+    if (remaining > 0) {
+      message += `\n…and ${remaining} more`;
+    }
+
+    return message;
+  }
+
+  formatTemplate(template: string, payload: NotificationPayload): string {
+    return renderTemplate(template, payload, escapeHtml);
+  }
+
+  async send(text: string, settings: TelegramSettings, secrets: SecretsConfig): Promise<void> {
+    const botToken = resolveSecret(settings.botToken, secrets);
+    const url = `https://api.telegram.org/bot${botToken}/sendMessage`;
+
+    await axios.post(url, {
+      chat_id: resolveSecret(settings.chatId, secrets),
+      text,
+      parse_mode: 'HTML',
+      disable_web_page_preview: false,
+    }, {
+      timeout: 10000,
+    });
+  }
+}
@@ -0,0 +1,157 @@
+import type { ChannelType } from '.';
+import { NotificationPayload } from '../../types';
+import { describePriceHistory, formatDate, formatTimeRemaining, getDaysListed } from '../../utils/helpers';
+import { describePrice, formatPrice } from '../../utils/prices';
+import { describeDistance, describeMarketValue, describeSightings, getEventHeading } from './formatting';
+
+/**
+ * Message templates. `{{name}}` inserts a placeholder value and
+ * `{{#if name}}…{{else}}…{{/if}}` (or `#unless`) keeps a section only when
+ * the value is non-empty. Blocks can be nested.
+ */
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; name: string }
+  | { kind: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+// Placeholder name → value; empty strings count as false in conditionals
+const PLACEHOLDERS: Record<string, (payload: NotificationPayload) => string> = {
+  title: ({ listing }) => listing.title,
+  price: ({ listing }) => describePrice(listing),
+  previousPrice: ({ listing }) => (listing.previousPrice === undefined ? '' : formatPrice(listing.previousPrice, listing.currency)),
+  dropPercent: ({ priceDropPercentage }) => priceDropPercentage?.toFixed(1) ?? '',
+  increasePercent: ({ priceIncreasePercentage }) => priceIncreasePercentage?.toFixed(1) ?? '',
+  priceHistory: ({ listing }) => describePriceHistory(listing) ?? '',
+  deal: ({ listing }) => describeMarketValue(listing) ?? '',
+  typicalPrice: ({ listing }) => (listing.marketValue ? formatPrice(listing.marketValue.typicalPrice, listing.currency) : ''),
+  location: ({ listing }) => listing.location,
+  distance: ({ listing }) => describeDistance(listing) ?? '',
+  url: ({ listing }) => listing.url,
+  imageUrl: ({ listing }) => listing.imageUrl ?? '',
+  seller: ({ listing }) => listing.seller ?? '',
+  description: ({ listing }) => listing.description ?? '',
+  condition: ({ listing }) => listing.condition ?? '',
+  posted: ({ listing }) => (listing.postedAt ? formatDate(listing.postedAt) : ''),
+  daysListed: ({ listing }) => String(getDaysListed(listing)),
+  bids: ({ listing }) => listing.auction?.bidCount.toString() ?? '',
+  endsIn: ({ listing }) => (listing.auction?.endTime ? formatTimeRemaining(listing.auction.endTime) : ''),
+  type: ({ type }) => type,
+  emoji: payload => getEventHeading(payload).emoji,
+  heading: payload => getEventHeading(payload).heading,
+  urgent: ({ urgent }) => (urgent ? 'yes' : ''),
+  alsoListed: ({ alsoListed }) => describeSightings(alsoListed || []),
+  'scraper.id': ({ scraper }) => scraper.id,
+  'scraper.name': ({ scraper }) => scraper.name,
+  'scraper.marketplace': ({ scraper }) => scraper.marketplace,
+};
+
+export const getTemplatePlaceholders = (): string[] => Object.keys(PLACEHOLDERS);
+
+const TAG_PATTERN = /\{\{\s*(#if|#unless|else|\/if|\/unless)?\s*([\w.]*)\s*\}\}/g;
+
+const parseTemplate = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last; `nodes` is where content currently goes
+  const stack: { block: Extract<TemplateNode, { kind: 'if' }>; keyword: string; nodes: TemplateNode[] }[] = [];
+  let nodes = root;
+  let position = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, keyword, name] = match;
+
+    if (match.index! > position) {
+      nodes.push({ kind: 'text', text: template.slice(position, match.index) });
+    }
+    position = match.index! + tag.length;
+
+    if (keyword === '#if' || keyword === '#unless') {
+      if (!name) {
+        throw new Error(`${tag} needs a placeholder name`);
+      }
+      requirePlaceholder(name);
+      const block: Extract<TemplateNode, { kind: 'if' }> = { kind: 'if', name, negate: keyword === '#unless', then: [], otherwise: [] };
+      nodes.push(block);
+      stack.push({ block, keyword: keyword.slice(1), nodes });
+      nodes = block.then;
+    } else if (keyword === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || nodes !== open.block.then) {
+        throw new Error('{{else}} outside of an {{#if}} or {{#unless}} block');
+      }
+      nodes = open.block.otherwise;
+    } else if (keyword) {
+      const open = stack.pop();
+      if (!open || open.keyword !== keyword.slice(1)) {
+        throw new Error(`unexpected ${tag}`);
+      }
+      nodes = open.nodes;
+    } else {
+      requirePlaceholder(name);
+      nodes.push({ kind: 'value', name });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`{{#${stack[stack.length - 1].keyword} ${stack[stack.length - 1].block.name}}} is never closed`);
+  }
+
+  if (position < template.length) {
+    nodes.push({ kind: 'text', text: template.slice(position) });
+  }
+
+  return root;
+};
+
+const requirePlaceholder = (name: string): void => {
+  if (!Object.prototype.hasOwnProperty.call(PLACEHOLDERS, name)) {
+    throw new Error(`unknown placeholder {{${name}}}`);
+  }
+};
+
+/**
+ * Render a template for a payload. `escape` is applied to placeholder values
+ * only, so channels can escape listing text without touching the template's
+ * own markup.
+ */
+export const renderTemplate = (
+  template: string,
+  payload: NotificationPayload,
+  escape: (value: string) => string = (value): string => value
+): string => {
+  const render = (nodes: TemplateNode[]): string => nodes.map((node): string => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'value':
+        return escape(PLACEHOLDERS[node.name](payload));
+      case 'if': {
+        const truthy = PLACEHOLDERS[node.name](payload) !== '';
+        return render(truthy !== node.negate ? node.then : node.otherwise);
+      }
+    }
+  }).join('');
+
+  return render(parseTemplate(template)).trim();
+};
+
+// A description of what is wrong with the template, or undefined when it parses
+export const findTemplateError = (template: string): string | undefined => {
+  try {
+    parseTemplate(template);
+    return undefined;
+  } catch (error) {
+    return (error as Error).message;
+  }
+};
+
+// Channels with a title or subject use the first line for it and the rest as the body
+export const splitTitle = (rendered: string): { title: string; body: string } => {
+  const [title, ...rest] = rendered.split('\n');
+  return { title: title.trim(), body: rest.join('\n').trim() };
+};
+
+// The configured template for a payload on a channel type, if any
+export const getTemplate = (payload: NotificationPayload, channelType: ChannelType): string | undefined => {
+  return payload.scraper.templates?.[channelType]?.[payload.type];
+};
@@ -0,0 +1,140 @@
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import {
+  ChannelOptions,
+  Listing,
+  ListingSighting,
+  NotificationChannel,
+  NotificationPayload,
+  ScraperConfig,
+  SecretsConfig,
+} from '../../types';
+import {
+  ChannelValidationContext,
+  ObjectSchema,
+  checkSecretReference,
+  mustBeUrl,
+  requireCredential,
+  stringField,
+  stringMapField,
+} from '../config-rules';
+import { DEFAULT_CURRENCY } from '../../utils/constants';
+import { resolveSecret } from '../../utils/helpers';
+import { summarizeDigest } from './formatting';
+
+export interface WebhookSettings extends ChannelOptions {
+  url: string;
+  secret?: string; // Signs the body with HMAC-SHA256 (X-Peddler-Signature header)
+  headers?: Record<string, string>;
+}
+
+interface WebhookEvent {
+  event: NotificationPayload['type'];
+  sentAt: string;
+  scraper: Pick<ScraperConfig, 'id' | 'name' | 'marketplace'>;
+  listing: Partial<Listing>;
+  priceDropPercentage?: number;
+  priceIncreasePercentage?: number;
+  urgent: boolean;
+  alsoListed?: ListingSighting[];
+}
+
+interface WebhookDigest {
+  event: 'digest';
+  sentAt: string;
+  scraper: WebhookEvent['scraper'];
+  summary: string;
+  items: Omit<WebhookEvent, 'sentAt' | 'scraper'>[];
+}
+
+export class WebhookChannel implements NotificationChannel<WebhookSettings, WebhookEvent | WebhookDigest> {
+  readonly configSchema: ObjectSchema = {
+    url: { rule: stringField() },
+    secret: { rule: stringField() },
+    headers: { rule: stringMapField() },
+  };
+
+  readonly supportsBatching = true;
+  readonly supportsLowPriority = false;
+
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void {
+    requireCredential(settings, 'url', context, mustBeUrl);
+    checkSecretReference(settings, 'secret', context);
+  }
+
+  /**
+   * Body POSTed for a single event. The shape is documented in
+   * docs/WEBHOOKS.md, so only add fields here.
+   */
+  formatMessage(payload: NotificationPayload): WebhookEvent {
+    const { listing, scraper } = payload;
+
+    return {
+      event: payload.type,
+      sentAt: new Date().toISOString(),
+      scraper: { id: scraper.id, name: scraper.name, marketplace: scraper.marketplace },
+      listing: {
+        listingId: listing.listingId,
+        title: listing.title,
+        price: listing.price,
+        currency: listing.currency ?? DEFAULT_CURRENCY,
+        priceStatus: listing.priceStatus ?? 'listed',
+        previousPrice: listing.previousPrice,
+        priceHistory: listing.priceHistory,
+        marketValue: listing.marketValue,
+        location: listing.location,
+        coordinates: listing.coordinates,
+        distance: listing.distance,
+        nearestHome: listing.nearestHome,
+        url: listing.url,
+        imageUrl: listing.imageUrl,
+        imageUrls: listing.imageUrls,
+        seller: listing.seller,
+        description: listing.description,
+        condition: listing.condition,
+        postedAt: listing.postedAt,
+        listingType: listing.listingType,
+        auction: listing.auction,
+        firstSeen: listing.firstSeen,
+        lastSeen: listing.lastSeen,
+        removedAt: listing.removedAt,
+        relistedFrom: listing.relistedFrom,
+      },
+      priceDropPercentage: payload.priceDropPercentage,
+      priceIncreasePercentage: payload.priceIncreasePercentage,
+      urgent: payload.urgent ?? false,
+      ...(payload.alsoListed ? { alsoListed: payload.alsoListed } : {}),
+    };
+  }
+
+  formatDigest(scraper: ScraperConfig, payloads: NotificationPayload[]): WebhookDigest {
+    return {
+      event: 'digest',
+      sentAt: new Date().toISOString(),
+      scraper: { id: scraper.id, name: scraper.name, marketplace: scraper.marketplace },
+      summary: summarizeDigest(payloads),
+      items: payloads.map(payload => {
+        const { event, listing, priceDropPercentage, priceIncreasePercentage, urgent, alsoListed } = this.formatMessage(payload);
+        return { event, listing, priceDropPercentage, priceIncreasePercentage, urgent, ...(alsoListed ? { alsoListed } : {}) };
+      }),
+    };
+  }
+
+  async send(event: WebhookEvent | WebhookDigest, settings: WebhookSettings, secrets: SecretsConfig): Promise<void> {
+    const body = JSON.stringify(event);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Peddler',
+      ...Object.fromEntries(Object.entries(settings.headers || {}).map(([name, value]) => [name, resolveSecret(value, secrets)])),
+    };
+
+    if (settings.secret) {
+      const signature = createHmac('sha256', resolveSecret(settings.secret, secrets)).update(body).digest('hex');
+      headers['X-Peddler-Signature'] = `sha256=${signature}`;
+    }
+
+    // Send the exact string that was signed
+    await axios.post(resolveSecret(settings.url, secrets), body, { headers, timeout: 10000 });
+  }
+}
@@ -0,0 +1,213 @@
+import type { Marketplace } from './scrapers';
+import { RateLimitBucket, RateLimitConfig, RateLimitSettings, RateLimitStore } from '../types';
+import { createRateLimitStore } from './storage';
+import { ERROR_MESSAGES, RATE_LIMIT_BACKOFF, RATE_LIMITS } from '../utils/constants';
+import { sleep } from '../utils/helpers';
+
+/**
+ * Request pacing shared by every scraper. Each navigation or page fetch
+ * takes a token from its marketplace's bucket and from the bucket of the
+ * host it goes to, waiting until both have one. Buckets live in the rate
+ * limit store, so concurrent scrapers in a run (and, with the DynamoDB
+ * store, in other Lambda invocations) draw from the same ones. When a site
+ * answers with a 429 or a checkpoint page, the bucket is blocked for a
+ * pause that doubles each time it happens again.
+ */
+
+export type ThrottleReason = 'rate_limited' | 'checkpoint';
+
+export interface RateLimitPolicy {
+  intervalMs: number;
+  burst: number;
+  hostIntervalMs: number;
+  hostBurst: number;
+}
+
+// The wait before a request, and the bucket after reserving a token (GCRA)
+const reserveToken = (
+  bucket: RateLimitBucket | null,
+  intervalMs: number,
+  burst: number,
+  now: number
+): { bucket: RateLimitBucket; waitMs: number } => {
+  const tolerance = (burst - 1) * intervalMs;
+  const dueAt = Math.max(bucket?.nextAt ?? now, now);
+  const startAt = Math.max(now, dueAt - tolerance, bucket?.blockedUntil ?? 0);
+
+  return {
+    bucket: { ...bucket, nextAt: Math.max(dueAt, startAt) + intervalMs },
+    waitMs: startAt - now,
+  };
+};
+
+// Block the bucket; the pause doubles while blocks follow each other within RATE_LIMIT_BACKOFF.resetAfterMs
+const blockBucket = (
+  bucket: RateLimitBucket | null,
+  tolerance: number,
+  retryAfterMs: number | undefined,
+  now: number
+): RateLimitBucket => {
+  const repeated = bucket?.blockedUntil !== undefined && now - bucket.blockedUntil < RATE_LIMIT_BACKOFF.resetAfterMs;
+  const strikes = repeated ? (bucket!.strikes ?? 0) + 1 : 1;
+  const pauseMs = Math.min(RATE_LIMIT_BACKOFF.maxMs, RATE_LIMIT_BACKOFF.initialMs * 2 ** (strikes - 1));
+  const blockedUntil = Math.max(bucket?.blockedUntil ?? 0, now + Math.max(pauseMs, retryAfterMs ?? 0));
+
+  // No burst straight after the pause: the first request waits for the block, the next for a full interval
+  return { nextAt: Math.max(bucket?.nextAt ?? now, blockedUntil + tolerance), blockedUntil, strikes };
+};
+
+// A Retry-After header, in seconds or as an HTTP date, in milliseconds from `now`
+export const parseRetryAfter = (value: string | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Whether a scraper failed because the site pushed back, as opposed to a broken page
+export const isThrottled = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : '';
+  return message.startsWith(ERROR_MESSAGES.RATE_LIMITED) || message.startsWith(ERROR_MESSAGES.CHECKPOINT);
+};
+
+export class RateLimiter {
+  private store: RateLimitStore;
+  private limits: RateLimitSettings = {};
+
+  constructor(store: RateLimitStore = createRateLimitStore()) {
+    this.store = store;
+  }
+
+  // Apply a config's rateLimits over the defaults in RATE_LIMITS
+  configure(limits: RateLimitSettings = {}): void {
+    this.limits = limits;
+  }
+
+  getPolicy(marketplace: Marketplace): RateLimitPolicy {
+    const config: RateLimitConfig = this.limits[marketplace] ?? {};
+    const intervalMs = config.intervalMs ?? RATE_LIMITS[marketplace].intervalMs;
+    const burst = config.burst ?? RATE_LIMITS[marketplace].burst;
+
+    return {
+      intervalMs,
+      burst,
+      hostIntervalMs: config.hostIntervalMs ?? intervalMs,
+      hostBurst: config.hostBurst ?? burst,
+    };
+  }
+
+  /**
+   * Take a token from the marketplace's bucket and the URL host's bucket,
+   * and return how long to wait before sending the request. Throws, taking
+   * no token, while either bucket is paused after a 429 or checkpoint page,
+   * or when the wait would be longer than `maxWaitMs`.
+   */
+  async reserve(marketplace: Marketplace, url: string, now: number = Date.now(), maxWaitMs?: number): Promise<number> {
+    const policy = this.getPolicy(marketplace);
+    const hostKey = this.hostKey(marketplace, url);
+
+    const marketplaceWaitMs = await this.take(marketplace, policy.intervalMs, policy.burst, now, maxWaitMs, ERROR_MESSAGES.CHECKPOINT);
+    try {
+      return Math.max(marketplaceWaitMs, await this.take(hostKey, policy.hostIntervalMs, policy.hostBurst, now, maxWaitMs, ERROR_MESSAGES.RATE_LIMITED));
+    } catch (error) {
+      // Give the marketplace token back, so a request that isn't sent doesn't push later ones back
+      await this.store.updateRateLimitBucket(marketplace, bucket =>
+        bucket ? { ...bucket, nextAt: bucket.nextAt - policy.intervalMs } : { nextAt: now }
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for a token before a navigation or page fetch. With a `deadline`
+   * (epoch ms), a wait that would run past it fails straight away, so a
+   * paused marketplace fails the run as throttled instead of timing it out.
+   */
+  async acquire(marketplace: Marketplace, url: string, deadline?: number): Promise<void> {
+    const now = Date.now();
+    const waitMs = await this.reserve(marketplace, url, now, deadline !== undefined ? deadline - now : undefined);
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Pause requests after the site pushed back, and return the pause. A 429
+   * only blocks its host; a checkpoint page is about the account or
+   * session, so it blocks the whole marketplace.
+   */
+  async backOff(
+    marketplace: Marketplace,
+    url: string,
+    reason: ThrottleReason,
+    retryAfterMs?: number,
+    now: number = Date.now()
+  ): Promise<number> {
+    const policy = this.getPolicy(marketplace);
+    const key = reason === 'checkpoint' ? marketplace : this.hostKey(marketplace, url);
+    const tolerance = reason === 'checkpoint'
+      ? (policy.burst - 1) * policy.intervalMs
+      : (policy.hostBurst - 1) * policy.hostIntervalMs;
+
+    const bucket = await this.store.updateRateLimitBucket(key, current => blockBucket(current, tolerance, retryAfterMs, now));
+    const pauseMs = bucket.blockedUntil! - now;
+
+    console.warn(`${reason === 'checkpoint' ? 'Checkpoint page' : 'Rate limited'} on ${key}, pausing requests for ${Math.round(pauseMs / 1000)}s`);
+    return pauseMs;
+  }
+
+  // Reserve a token from one bucket and return the wait; a paused bucket or one over maxWaitMs is left as it was
+  private async take(
+    key: string,
+    intervalMs: number,
+    burst: number,
+    now: number,
+    maxWaitMs: number | undefined,
+    pausedMessage: string
+  ): Promise<number> {
+    let outcome: { waitMs: number; blocked?: boolean; tooLong?: boolean } = { waitMs: 0 };
+
+    await this.store.updateRateLimitBucket(key, bucket => {
+      if (bucket?.blockedUntil !== undefined && bucket.blockedUntil > now) {
+        outcome = { waitMs: bucket.blockedUntil - now, blocked: true };
+        return bucket;
+      }
+
+      const reservation = reserveToken(bucket, intervalMs, burst, now);
+      if (maxWaitMs !== undefined && reservation.waitMs > maxWaitMs) {
+        outcome = { waitMs: reservation.waitMs, tooLong: true };
+        return bucket ?? { nextAt: now };
+      }
+
+      outcome = { waitMs: reservation.waitMs };
+      return reservation.bucket;
+    });
+
+    const seconds = Math.ceil(outcome.waitMs / 1000);
+    if (outcome.blocked) {
+      throw new Error(`${pausedMessage}: ${key} is paused for another ${seconds}s`);
+    }
+    if (outcome.tooLong) {
+      throw new Error(`${ERROR_MESSAGES.RATE_LIMITED}: ${key} has no request free for ${seconds}s`);
+    }
+    return outcome.waitMs;
+  }
+
+  private hostKey(marketplace: Marketplace, url: string): string {
+    return `${marketplace}#${new URL(url).hostname}`;
+  }
+}
+
+let sharedRateLimiter: RateLimiter | null = null;
+
+// The limiter every scraper in this process goes through
+export const getRateLimiter = (): RateLimiter => {
+  if (!sharedRateLimiter) {
+    sharedRateLimiter = new RateLimiter();
+  }
+  return sharedRateLimiter;
+};
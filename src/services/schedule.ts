@@ -0,0 +1,241 @@
+import { ActiveHoursWindow, ScheduleConfig, ScheduleState } from '../types';
+import { toMinutes } from '../utils/helpers';
+
+/**
+ * Per-scraper schedules. The scheduler ticks on a fixed rate and runs only
+ * the scrapers whose next run has come, either an interval after their last
+ * run ("every": "2h") or at the next time a cron expression matches. Runs
+ * can be held to active-hours windows and pushed back by random jitter.
+ * Cron expressions and active hours are evaluated in the schedule's
+ * timezone (UTC unless set).
+ */
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Hour-by-hour steps to look ahead for a cron match, a little over four years (for "0 0 29 2 *")
+const MAX_CRON_STEPS = 24 * 366 * 4 + 48;
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // False for "*", which matters for the day-of-month/day-of-week rule
+}
+
+interface CronExpression {
+  minute: CronField;
+  hour: CronField;
+  dayOfMonth: CronField;
+  month: CronField;
+  dayOfWeek: CronField;
+}
+
+interface LocalTime {
+  minute: number;
+  hour: number;
+  dayOfMonth: number;
+  month: number; // 1-12
+  dayOfWeek: number; // 0 is Sunday
+}
+
+// "15m", "2h" or "1d" in milliseconds; undefined when malformed
+export const parseInterval = (interval: string): number | undefined => {
+  const match = interval.trim().match(/^(\d+)\s*([mhd])$/i);
+  const amount = match ? parseInt(match[1], 10) : 0;
+  return amount > 0 ? amount * INTERVAL_UNITS[match![2].toLowerCase()] : undefined;
+};
+
+const parseCronValue = (text: string, names: string[] | undefined, offset: number): number => {
+  const index = names ? names.indexOf(text.toLowerCase()) : -1;
+  if (index !== -1) {
+    return index + offset;
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`"${text}" is not a number${names ? ' or name' : ''}`);
+  }
+  return parseInt(text, 10);
+};
+
+// One field: "*", "5", "1-5", "mon-fri", "*/15", "10-40/10" or a comma-separated list of these
+const parseCronField = (text: string, min: number, max: number, names?: string[], offset = 0): CronField => {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : parseCronValue(stepText, undefined, 0);
+    if (rest.length > 0 || step < 1) {
+      throw new Error(`invalid step in "${part}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`invalid range "${range}"`);
+      }
+      start = parseCronValue(from, names, offset);
+      end = to !== undefined ? parseCronValue(to, names, offset) : stepText !== undefined ? max : start;
+    }
+    if (start < min || end > max || start > end) {
+      throw new Error(`"${part}" is outside ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, restricted: text !== '*' };
+};
+
+/**
+ * Parse a five-field cron expression (minute, hour, day of month, month,
+ * day of week). Months and weekdays may be names ("jan", "mon"), and
+ * Sunday is 0 or 7. Throws with the reason when the expression is invalid.
+ */
+export const parseCron = (expression: string): CronExpression => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+
+  const dayOfWeek = parseCronField(fields[4], 0, 7, WEEKDAYS);
+  if (dayOfWeek.values.delete(7)) {
+    dayOfWeek.values.add(0);
+  }
+
+  return {
+    minute: parseCronField(fields[0], 0, 59),
+    hour: parseCronField(fields[1], 0, 23),
+    dayOfMonth: parseCronField(fields[2], 1, 31),
+    month: parseCronField(fields[3], 1, 12, MONTHS, 1),
+    dayOfWeek,
+  };
+};
+
+// Formatters are slow to build and a cron search reads thousands of times
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getLocalTime = (date: Date, timezone: string): LocalTime => {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      minute: 'numeric',
+      hour: 'numeric',
+      day: 'numeric',
+      month: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+      timeZone: timezone,
+    }));
+  }
+  const parts = formatters.get(timezone)!.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes): string => parts.find(p => p.type === type)!.value;
+
+  return {
+    minute: parseInt(part('minute'), 10),
+    hour: parseInt(part('hour'), 10),
+    dayOfMonth: parseInt(part('day'), 10),
+    month: parseInt(part('month'), 10),
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday').toLowerCase()),
+  };
+};
+
+// As in cron: when both day fields are restricted, a day matching either one counts
+const matchesDay = (cron: CronExpression, time: LocalTime): boolean => {
+  const dayOfMonth = cron.dayOfMonth.values.has(time.dayOfMonth);
+  const dayOfWeek = cron.dayOfWeek.values.has(time.dayOfWeek);
+  if (cron.dayOfMonth.restricted && cron.dayOfWeek.restricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+};
+
+/**
+ * The first minute after `after` that the cron expression matches. Skips
+ * whole hours that can't match, so a search never walks minute by minute
+ * through a day. Throws for expressions that never match, such as
+ * "0 0 31 2 *".
+ */
+export const getNextCronTime = (expression: string, after: Date, timezone = 'UTC'): Date => {
+  const cron = parseCron(expression);
+  const candidate = new Date(after);
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let steps = 0; steps < MAX_CRON_STEPS;) {
+    const time = getLocalTime(candidate, timezone);
+
+    if (!cron.month.values.has(time.month) || !matchesDay(cron, time) || !cron.hour.values.has(time.hour)) {
+      // To the start of the next local hour
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 60 - time.minute);
+      steps++;
+      continue;
+    }
+    if (cron.minute.values.has(time.minute)) {
+      return candidate;
+    }
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+  }
+
+  throw new Error(`cron expression "${expression}" never matches`);
+};
+
+// A window's days are the days it starts on, so "fri" 22:00-02:00 includes early Saturday
+const isWithinWindow = (window: ActiveHoursWindow, time: LocalTime): boolean => {
+  const current = time.hour * 60 + time.minute;
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const onDay = (dayOfWeek: number): boolean => !window.days || window.days.includes(WEEKDAYS[dayOfWeek]);
+
+  if (start <= end) {
+    return current >= start && current < end && onDay(time.dayOfWeek);
+  }
+  return (current >= start && onDay(time.dayOfWeek)) || (current < end && onDay((time.dayOfWeek + 6) % 7));
+};
+
+// Whether `now` falls inside one of the schedule's active-hours windows; always true without any
+export const isWithinActiveHours = (schedule: ScheduleConfig, now: Date = new Date()): boolean => {
+  if (!schedule.activeHours || schedule.activeHours.length === 0) {
+    return true;
+  }
+  const time = getLocalTime(now, schedule.timezone || 'UTC');
+  return schedule.activeHours.some(window => isWithinWindow(window, time));
+};
+
+/**
+ * When a scraper that ran at `lastRunAt` should next run, including a
+ * random delay of up to `jitterMinutes`.
+ */
+export const getNextRunAt = (
+  schedule: ScheduleConfig,
+  lastRunAt: Date,
+  random: () => number = Math.random
+): Date => {
+  const next = schedule.cron
+    ? getNextCronTime(schedule.cron, lastRunAt, schedule.timezone || 'UTC')
+    : new Date(lastRunAt.getTime() + (parseInterval(schedule.every || '') ?? 0));
+
+  const jitterMs = Math.round(random() * (schedule.jitterMinutes ?? 0) * 60 * 1000);
+  return new Date(next.getTime() + jitterMs);
+};
+
+/**
+ * Whether a scraper is due at `now`. Scrapers without a schedule run on
+ * every tick, and a scheduled scraper that has never run is due straight
+ * away. Outside its active hours a scraper waits, however overdue it is.
+ */
+export const isDue = (schedule: ScheduleConfig | undefined, state: ScheduleState | null, now: Date = new Date()): boolean => {
+  if (!schedule) {
+    return true;
+  }
+  if (!isWithinActiveHours(schedule, now)) {
+    return false;
+  }
+  return !state || new Date(state.nextRunAt).getTime() <= now.getTime();
+};
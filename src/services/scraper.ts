@@ -1,21 +1,86 @@
-import { ScraperConfig, Listing, ScrapingResult, NotificationPayload } from '../types';
-import { DatabaseService } from './database';
+import {
+  ScraperConfig,
+  ScrapeOptions,
+  Listing,
+  ScrapingResult,
+  NotificationPayload,
+  MarketplaceScraper,
+  ListingRepository,
+  ListingSighting,
+  NotificationStore,
+  ExchangeRates,
+  AppConfig,
+} from '../types';
+import { createListingRepository, createNotificationStore } from './storage';
 import { NotificationService } from './notification';
-import { FacebookMarketplaceScraper } from './scrapers/facebook';
+import { createNotificationDispatcher } from './dispatcher';
+import { createScraper } from './scrapers';
+import { createListingFilter, passesSimpleFilters } from './filters';
+import { locateListing, resolveHomePoints } from './geo';
+import { createMarketValueEstimator } from './market-value';
+import { getRateLimiter, isThrottled } from './rate-limiter';
+import { describePrice, getComparablePrice } from '../utils/prices';
 import { ConfigService } from './config';
+import { DEFAULT_ALERTS, DEFAULT_ENRICHMENT_LIMIT, ERROR_MESSAGES, TRACKED_LISTINGS_LIMIT } from '../utils/constants';
+import {
+  calculatePriceDropPercentage,
+  getDuplicateGroup,
+  getDuplicateSearchKeys,
+  getFingerprintKey,
+  isLikelyDuplicate,
+  isLikelyRelist,
+  resolvePriceHistory,
+  withTimeout,
+} from '../utils/helpers';
+
+type ListingChanges = Pick<
+  ScrapingResult,
+  'newListings' | 'priceDrops' | 'priceIncreases' | 'endingAuctions' | 'removedListings' | 'relistedListings'
+>;
+
+// Listing fields that enrichment reads from detail pages
+const DETAIL_FIELDS = ['location', 'coordinates', 'seller', 'description', 'condition', 'postedAt', 'imageUrls', 'enrichedAt'] as const;
+
+const pickDetails = (listing: Partial<Listing>): Partial<Listing> => Object.fromEntries(
+  DETAIL_FIELDS.filter(field => listing[field] !== undefined).map(field => [field, listing[field]])
+);
+
+// Stored only for enrichment: waiting for its details, or rejected by the filters once they were read
+const isHeld = (listing: Listing): boolean => Boolean(listing.awaitingDetails || listing.rejectedAt);
+
+const emptyChanges = (): ListingChanges => ({
+  newListings: [],
+  priceDrops: [],
+  priceIncreases: [],
+  endingAuctions: [],
+  removedListings: [],
+  relistedListings: [],
+});
 
 export class ScraperService {
-  private dbService: DatabaseService;
+  private dbService: ListingRepository;
   private configService: ConfigService;
+  private notificationStore: NotificationStore;
 
-  constructor() {
-    this.dbService = new DatabaseService();
-    this.configService = new ConfigService();
+  constructor(
+    dbService: ListingRepository = createListingRepository(),
+    configService: ConfigService = new ConfigService(),
+    notificationStore: NotificationStore = createNotificationStore()
+  ) {
+    this.dbService = dbService;
+    this.configService = configService;
+    this.notificationStore = notificationStore;
   }
 
-  async executeScraper(scraperId: string): Promise<ScrapingResult> {
+  /**
+   * Run one scraper: scrape, process and notify. With `timeoutMs`, a
+   * scrape (including detail pages) that takes longer is stopped, its
+   * browser closed and the run failed before anything is stored or sent.
+   * Processing and notifications don't count against the timeout.
+   */
+  async executeScraper(scraperId: string, timeoutMs?: number): Promise<ScrapingResult> {
     const startTime = Date.now();
-    let scraper: FacebookMarketplaceScraper | null = null;
+    let scraper: MarketplaceScraper | null = null;
 
     try {
       // Get configuration
@@ -31,8 +96,7 @@ export class ScraperService {
         return {
           scraperId,
           success: true,
-          newListings: [],
-          priceDrops: [],
+          ...emptyChanges(),
           totalFound: 0,
           executionTime: Date.now() - startTime,
         };
@@ -41,38 +105,20 @@ export class ScraperService {
       console.log(`Starting scraper: ${scraperId} (${scraperConfig.name})`);
 
       // Initialize scraper based on marketplace type
-      if (scraperConfig.marketplace === 'facebook') {
-        scraper = new FacebookMarketplaceScraper();
-        await scraper.initialize();
-      } else {
-        throw new Error(`Unsupported marketplace: ${scraperConfig.marketplace}`);
-      }
-
-      // Get secrets for authentication
-      const secrets = await this.configService.getSecrets();
-      const cookies = secrets['facebook-cookies'];
-
-      // Scrape listings
-      const scrapedListings = await scraper.scrape(scraperConfig, cookies);
-      console.log(`Scraped ${scrapedListings.length} listings for ${scraperId}`);
+      scraper = createScraper(scraperConfig.marketplace);
+      const { changes, totalFound } = await this.scrapeAndProcess(scraper, scraperConfig, config, timeoutMs);
 
-      // Process listings
-      const { newListings, priceDrops } = await this.processListings(scrapedListings, scraperConfig);
-
-      // Send notifications
-      if (newListings.length > 0 || priceDrops.length > 0) {
-        const notificationService = new NotificationService(secrets);
-        await this.sendNotifications(newListings, priceDrops, scraperConfig, notificationService);
-      }
-
-      console.log(`Scraper ${scraperId} completed: ${newListings.length} new, ${priceDrops.length} price drops`);
+      console.log(
+        `Scraper ${scraperId} completed: ${changes.newListings.length} new, ${changes.priceDrops.length} price drops, ` +
+        `${changes.priceIncreases.length} price increases, ${changes.endingAuctions.length} auctions ending, ` +
+        `${changes.removedListings.length} removed, ${changes.relistedListings.length} relisted`
+      );
 
       return {
         scraperId,
         success: true,
-        newListings,
-        priceDrops,
-        totalFound: scrapedListings.length,
+        ...changes,
+        totalFound,
         executionTime: Date.now() - startTime,
       };
 
@@ -82,8 +128,7 @@ export class ScraperService {
         scraperId,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        newListings: [],
-        priceDrops: [],
+        ...emptyChanges(),
         totalFound: 0,
         executionTime: Date.now() - startTime,
       };
@@ -94,49 +139,300 @@ export class ScraperService {
     }
   }
 
+  private async scrapeAndProcess(
+    scraper: MarketplaceScraper,
+    scraperConfig: ScraperConfig,
+    config: AppConfig,
+    timeoutMs?: number
+  ): Promise<{ changes: ListingChanges; totalFound: number }> {
+    const scraperId = scraperConfig.id;
+    getRateLimiter().configure(config.rateLimits);
+    await scraper.initialize();
+
+    // Get secrets for authentication
+    const secrets = await this.configService.getSecrets();
+    const credentials = scraper.credentialsKey ? secrets[scraper.credentialsKey] : undefined;
+
+    if (scraper.credentialsKey && !credentials) {
+      console.warn(`${ERROR_MESSAGES.MISSING_SECRETS}: ${scraper.credentialsKey} (${scraperConfig.marketplace})`);
+    }
+
+    // Scrape listings, add detail page fields and distances, and keep those matching the scraper's filters
+    const listingFilter = createListingFilter(scraperConfig, config.exchangeRates);
+    // Only the requests to the marketplace count against its timeout; nothing below runs once it has passed
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : undefined;
+    const { scrapedListings, deferred, enriched } = await withTimeout(async signal => {
+      const listings = await scraper.scrape(scraperConfig, credentials, { signal, deadline });
+      const enrichment = scraperConfig.enrichment?.enabled
+        ? await this.enrichListings(listings, scraperConfig, scraper, credentials, config.exchangeRates, { signal, deadline })
+        : { deferred: [], enriched: [] };
+      signal.throwIfAborted();
+      return { scrapedListings: listings, ...enrichment };
+    }, timeoutMs, `Scraper ${scraperId} timed out after ${timeoutMs}ms`);
+    const homes = resolveHomePoints(config.homes, scraperConfig);
+    scrapedListings.forEach(listing => locateListing(listing, scraperConfig, homes));
+    const matchingListings = scrapedListings.filter(listing => !deferred.includes(listing) && listingFilter(listing));
+    await this.holdListings(deferred, enriched.filter(listing => !matchingListings.includes(listing)));
+    console.log(`Scraped ${scrapedListings.length} listings for ${scraperId}, ${matchingListings.length} match the filters`);
+
+    if (scraperConfig.sortByDistance) {
+      // Nearest first, so their alerts go out first; listings with no known distance go last
+      matchingListings.sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+    }
+
+    // Process listings
+    const changes = await this.processListings(matchingListings, scraperConfig, scrapedListings);
+
+    // Send notifications (digest channels may be due even without changes)
+    const notificationService = new NotificationService(secrets, this.notificationStore);
+    await this.sendNotifications(changes, scraperConfig, notificationService, config.exchangeRates);
+
+    return { changes, totalFound: matchingListings.length };
+  }
+
+  /**
+   * Add detail page fields to scraped listings. Stored listings keep the
+   * details read when they were first seen; new ones, and those held from
+   * earlier runs, are fetched up to the scraper's per-run cap. Returns the
+   * listings whose details were read this run, and those deferred to a
+   * later run, which are held back from processing until then.
+   */
+  private async enrichListings(
+    listings: Listing[],
+    config: ScraperConfig,
+    scraper: MarketplaceScraper,
+    credentials?: string,
+    exchangeRates?: ExchangeRates,
+    options: ScrapeOptions = {}
+  ): Promise<{ deferred: Listing[]; enriched: Listing[] }> {
+    const deferred: Listing[] = [];
+    const enriched: Listing[] = [];
+
+    if (!scraper.fetchDetails) {
+      console.warn(`${config.marketplace} scraper can't read listing details, skipping enrichment for ${config.id}`);
+      return { deferred, enriched };
+    }
+
+    const limit = config.enrichment?.maxPerRun ?? DEFAULT_ENRICHMENT_LIMIT;
+    let fetched = 0;
+    let throttled = false;
+
+    for (const listing of listings) {
+      options.signal?.throwIfAborted();
+
+      const stored = await this.dbService.getListing(listing.scraperId, listing.listingId);
+      if (stored?.enrichedAt) {
+        Object.assign(listing, pickDetails(stored));
+        continue;
+      }
+
+      // Listings tracked from before enrichment was enabled go on without details, and
+      // listings outside the price bounds or keyword lists are never stored
+      if ((stored && !stored.awaitingDetails) || !passesSimpleFilters(listing, config, exchangeRates)) {
+        continue;
+      }
+
+      // The site is pushing back, or the cap is reached; the rest are read on a later run
+      if (throttled || fetched >= limit) {
+        deferred.push(listing);
+        continue;
+      }
+
+      fetched++;
+
+      // Detail pages are paced by the scraper's rate limiter
+      try {
+        const details = await scraper.fetchDetails(listing, credentials, options);
+        Object.assign(listing, pickDetails(details), { enrichedAt: new Date().toISOString() });
+        enriched.push(listing);
+      } catch (error) {
+        console.warn(`Failed to read details for listing ${listing.listingId}:`, error);
+
+        if (isThrottled(error)) {
+          throttled = true;
+          deferred.push(listing);
+        }
+      }
+    }
+
+    console.log(
+      `Read details for ${fetched} new listings for ${config.id}` +
+      (deferred.length > 0 ? `, ${deferred.length} more are held until a later run` : '')
+    );
+
+    return { deferred, enriched };
+  }
+
+  /**
+   * Store listings that aren't alerted on yet: those waiting for their
+   * details, and those whose details failed the filters, so that their
+   * pages aren't read again on every run.
+   */
+  private async holdListings(deferred: Listing[], rejected: Listing[]): Promise<void> {
+    const held = [
+      ...deferred.map(listing => ({ ...listing, awaitingDetails: true })),
+      ...rejected.map(listing => ({ ...listing, rejectedAt: new Date().toISOString() })),
+    ];
+
+    for (const listing of held) {
+      try {
+        const stored = await this.dbService.getListing(listing.scraperId, listing.listingId);
+        await this.dbService.saveListing({ ...listing, firstSeen: stored?.firstSeen ?? listing.firstSeen });
+      } catch (error) {
+        console.error(`Error holding listing ${listing.listingId}:`, error);
+      }
+    }
+  }
+
   private async processListings(
     scrapedListings: Listing[],
-    config: ScraperConfig
-  ): Promise<{ newListings: Listing[]; priceDrops: Listing[] }> {
-    const newListings: Listing[] = [];
-    const priceDrops: Listing[] = [];
+    config: ScraperConfig,
+    allScrapedListings: Listing[] = scrapedListings
+  ): Promise<ListingChanges> {
+    const changes = emptyChanges();
+    const alerts = { ...DEFAULT_ALERTS, ...config.alerts };
+
+    const trackedListings = (await this.dbService.getListingsByScraperId(config.id, TRACKED_LISTINGS_LIMIT))
+      .filter(listing => !isHeld(listing));
+    const removedListings = trackedListings.filter(listing => listing.status === 'removed' && !listing.relistedAs);
+
+    // Prices are compared with the listings stored before this run
+    const estimateMarketValue = config.marketValue?.enabled
+      ? createMarketValueEstimator(trackedListings, config.marketValue)
+      : undefined;
+    const alertBelowPercentile = config.marketValue?.enabled ? config.marketValue.alertBelowPercentile : undefined;
+    // Listings without an estimate yet can't be ruled out
+    const isDeal = (listing: Listing): boolean => {
+      return alertBelowPercentile === undefined || !listing.marketValue || listing.marketValue.percentile < alertBelowPercentile;
+    };
 
     for (const listing of scrapedListings) {
       try {
+        listing.fingerprint = getFingerprintKey(listing);
+
+        const marketValue = estimateMarketValue?.(listing);
+        if (marketValue) {
+          listing.marketValue = marketValue;
+        }
+
         // Check if listing already exists
-        const existingListing = await this.dbService.getListing(listing.scraperId, listing.listingId);
+        const stored = await this.dbService.getListing(listing.scraperId, listing.listingId);
+        const endingSoon = this.isAuctionEndingSoon(listing, config);
+
+        // Listings held for their details are new to alerts once they match
+        const existingListing = stored && isHeld(stored) ? null : stored;
+        if (stored && !existingListing) {
+          listing.firstSeen = stored.firstSeen;
+        }
 
         if (!existingListing) {
-          // New listing
-          await this.dbService.saveListing(listing);
-          newListings.push(listing);
-          console.log(`New listing: ${listing.title} - $${listing.price}`);
+          // A removed listing put back up under a new ID by the same seller
+          const original = removedListings.find(removed => isLikelyRelist(removed, listing));
+
+          if (original) {
+            const relisted = await this.saveRelistedListing(listing, original);
+            removedListings.splice(removedListings.indexOf(original), 1);
+            changes.relistedListings.push(relisted);
+            console.log(`Relisted: ${listing.title} - ${describePrice(original)} → ${describePrice(listing)} (was ${original.listingId})`);
+          } else if (endingSoon) {
+            // Already close to the end, so the ending alert is the more useful one
+            await this.dbService.saveListing({ ...listing, auctionEndingNotified: true });
+            changes.endingAuctions.push(listing);
+            console.log(`Auction ending soon: ${listing.title} - ${describePrice(listing)} (${listing.auction?.bidCount} bids)`);
+          } else {
+            const duplicateOf = alerts.groupDuplicates ? await this.findDuplicate(listing) : undefined;
+
+            if (duplicateOf) {
+              // Already alerted on as part of another listing's group
+              await this.dbService.saveListing({ ...listing, duplicateGroup: getDuplicateGroup(duplicateOf) });
+              console.log(`Duplicate listing: ${listing.title} - ${describePrice(listing)} (same item as ${duplicateOf.scraperId}/${duplicateOf.listingId})`);
+            } else if (!isDeal(listing)) {
+              // Stored for tracking, but not priced low enough to alert on
+              await this.dbService.saveListing(listing);
+              console.log(`New listing not below the ${alertBelowPercentile}th price percentile: ${listing.title} - ${describePrice(listing)}`);
+            } else {
+              // New listing
+              await this.dbService.saveListing(listing);
+              changes.newListings.push(listing);
+              console.log(`New listing: ${listing.title} - ${describePrice(listing)}`);
+            }
+          }
+          continue;
+        }
+
+        // Listings stored before fingerprints, or whose price moved to another band
+        if (existingListing.fingerprint !== listing.fingerprint) {
+          await this.dbService.updateListing(listing.scraperId, listing.listingId, { fingerprint: listing.fingerprint });
+        }
+
+        // A price given or taken away, e.g. "Contact for price" becoming $500
+        if ((existingListing.priceStatus ?? 'listed') !== (listing.priceStatus ?? 'listed')) {
+          await this.dbService.updateListing(listing.scraperId, listing.listingId, { priceStatus: listing.priceStatus ?? 'listed' });
+        }
+
+        // Listings stored before distances, or whose home points have changed since
+        if (existingListing.distance !== listing.distance || existingListing.nearestHome !== listing.nearestHome) {
+          await this.dbService.updateListing(listing.scraperId, listing.listingId, {
+            coordinates: listing.coordinates,
+            distance: listing.distance,
+            nearestHome: listing.nearestHome,
+          });
+        }
+
+        // Existing listing - update lastSeen and record any price change
+        const storedListing = await this.dbService.updateListingPrice(
+          listing.scraperId,
+          listing.listingId,
+          listing.price,
+          listing.lastSeen
+        );
+        // Alerts show the estimate for the current price; the stored one is from when the listing was first seen
+        const updatedListing = storedListing && marketValue ? { ...storedListing, marketValue } : storedListing;
+
+        if (existingListing.status === 'removed') {
+          // The same listing came back after being counted as removed
+          await this.dbService.updateListing(listing.scraperId, listing.listingId, { status: 'active', missedRuns: 0 });
+          changes.relistedListings.push({ ...(updatedListing || existingListing), status: 'active', missedRuns: 0 });
+          console.log(`Relisted: ${listing.title} - ${describePrice(listing)}`);
         } else {
-          // Existing listing - check for price changes
-          if (listing.price !== existingListing.price) {
-            const priceDropPercentage = (existingListing.price - listing.price) / existingListing.price;
+          if (existingListing.missedRuns) {
+            await this.dbService.updateListing(listing.scraperId, listing.listingId, { missedRuns: 0 });
+          }
 
-            // Update the listing with new price
-            const updatedListing = await this.dbService.updateListingPrice(
-              listing.scraperId,
-              listing.listingId,
-              listing.price,
-              listing.lastSeen
-            );
+          // Going from or to no asking price is only recorded in the price history
+          const comparable = existingListing.priceStatus !== 'contact' && listing.priceStatus !== 'contact' && existingListing.price > 0;
+
+          if (comparable && updatedListing && listing.price < existingListing.price) {
+            const priceDropPercentage = (existingListing.price - listing.price) / existingListing.price;
 
-            if (updatedListing && priceDropPercentage >= config.priceDropThreshold) {
+            if (priceDropPercentage >= config.priceDropThreshold && isDeal(listing)) {
               // Significant price drop
-              priceDrops.push(updatedListing);
-              console.log(`Price drop: ${listing.title} - $${existingListing.price} → $${listing.price} (${(priceDropPercentage * 100).toFixed(1)}%)`);
+              changes.priceDrops.push(updatedListing);
+              console.log(`Price drop: ${listing.title} - ${describePrice(existingListing)} → ${describePrice(listing)} (${(priceDropPercentage * 100).toFixed(1)}%)`);
             }
-          } else {
-            // Same price, just update lastSeen
-            await this.dbService.updateListingPrice(
-              listing.scraperId,
-              listing.listingId,
-              listing.price,
-              listing.lastSeen
-            );
+          } else if (comparable && updatedListing && listing.price > existingListing.price) {
+            changes.priceIncreases.push(updatedListing);
+            console.log(`Price increase: ${listing.title} - ${describePrice(existingListing)} → ${describePrice(listing)}`);
+          }
+        }
+
+        // Keep bid details current and alert once as the auction closes
+        if (listing.auction) {
+          const notifyEnding = endingSoon && !existingListing.auctionEndingNotified;
+
+          await this.dbService.updateListing(listing.scraperId, listing.listingId, {
+            auction: listing.auction,
+            ...(notifyEnding ? { auctionEndingNotified: true } : {}),
+          });
+
+          if (notifyEnding) {
+            changes.endingAuctions.push({
+              ...existingListing,
+              price: listing.price,
+              auction: listing.auction,
+              lastSeen: listing.lastSeen,
+            });
+            console.log(`Auction ending soon: ${listing.title} - ${describePrice(listing)} (${listing.auction.bidCount} bids)`);
           }
         }
       } catch (error) {
@@ -145,44 +441,223 @@ export class ScraperService {
       }
     }
 
-    return { newListings, priceDrops };
+    const matchingIds = new Set(scrapedListings.map(listing => listing.listingId));
+    await this.recordFilteredListings(
+      trackedListings,
+      allScrapedListings.filter(listing => !matchingIds.has(listing.listingId))
+    );
+
+    // An empty scrape is more likely a blocked or broken page than every
+    // listing selling at once, so only count misses when results came back.
+    // Listings that stopped matching the filters are still on the page.
+    if (allScrapedListings.length > 0) {
+      changes.removedListings = await this.recordMissingListings(
+        trackedListings,
+        new Set(allScrapedListings.map(listing => listing.listingId)),
+        alerts.removedAfterMissedRuns
+      );
+    }
+
+    return changes;
+  }
+
+  private async saveRelistedListing(listing: Listing, original: Listing): Promise<Listing> {
+    const relisted: Listing = {
+      ...listing,
+      relistedFrom: original.listingId,
+      // Carry the seller's earlier asking prices over to the new listing
+      ...(listing.price !== original.price ? { previousPrice: original.price } : {}),
+      priceHistory: [
+        ...resolvePriceHistory(original),
+        ...(listing.price !== original.price ? [{ price: listing.price, timestamp: listing.lastSeen }] : []),
+      ],
+    };
+
+    await this.dbService.saveListing(relisted);
+    await this.dbService.updateListing(original.scraperId, original.listingId, { relistedAs: listing.listingId });
+
+    return relisted;
+  }
+
+  /**
+   * Tracked listings still on the page that no longer match the filters, for
+   * example after a price rise past priceMax. They haven't sold, so their
+   * prices are kept current, but they are no longer alerted on.
+   */
+  private async recordFilteredListings(trackedListings: Listing[], filteredListings: Listing[]): Promise<void> {
+    for (const listing of filteredListings) {
+      const tracked = trackedListings.find(candidate => candidate.listingId === listing.listingId);
+      if (!tracked || tracked.status === 'removed') {
+        continue;
+      }
+
+      try {
+        await this.dbService.updateListingPrice(listing.scraperId, listing.listingId, listing.price, listing.lastSeen);
+        if (tracked.missedRuns) {
+          await this.dbService.updateListing(listing.scraperId, listing.listingId, { missedRuns: 0 });
+        }
+      } catch (error) {
+        console.error(`Error recording filtered listing ${listing.listingId}:`, error);
+      }
+    }
+  }
+
+  private async recordMissingListings(
+    trackedListings: Listing[],
+    seenIds: Set<string>,
+    removedAfterMissedRuns: number
+  ): Promise<Listing[]> {
+    const removedListings: Listing[] = [];
+
+    for (const listing of trackedListings) {
+      if (seenIds.has(listing.listingId) || listing.status === 'removed') {
+        continue;
+      }
+
+      try {
+        const missedRuns = (listing.missedRuns || 0) + 1;
+
+        if (missedRuns < removedAfterMissedRuns) {
+          await this.dbService.updateListing(listing.scraperId, listing.listingId, { missedRuns });
+          continue;
+        }
+
+        const removed: Listing = { ...listing, status: 'removed', missedRuns, removedAt: new Date().toISOString() };
+        await this.dbService.updateListing(listing.scraperId, listing.listingId, {
+          status: removed.status,
+          missedRuns,
+          removedAt: removed.removedAt,
+        });
+        removedListings.push(removed);
+        console.log(`Listing removed: ${listing.title} - last asked ${describePrice(listing)}`);
+      } catch (error) {
+        console.error(`Error recording missing listing ${listing.listingId}:`, error);
+      }
+    }
+
+    return removedListings;
+  }
+
+  // Live listings from any scraper whose fingerprint could match the listing's
+  private async findFingerprintMatches(listing: Listing): Promise<Listing[]> {
+    const results = await Promise.all(
+      getDuplicateSearchKeys(listing).map(fingerprint => this.dbService.getListingsByFingerprint(fingerprint))
+    );
+
+    return results.flat().filter(candidate =>
+      candidate.status !== 'removed' &&
+      !isHeld(candidate) &&
+      !(candidate.scraperId === listing.scraperId && candidate.listingId === listing.listingId)
+    );
+  }
+
+  private async findDuplicate(listing: Listing): Promise<Listing | undefined> {
+    const candidates = await this.findFingerprintMatches(listing);
+    return candidates.find(candidate => isLikelyDuplicate(candidate, listing));
+  }
+
+  // Other listings in the same duplicate group, so one alert can mention all of them
+  private async findSightings(listing: Listing): Promise<ListingSighting[]> {
+    const group = getDuplicateGroup(listing);
+    const matches = await this.findFingerprintMatches(listing);
+
+    return matches
+      .filter(match => getDuplicateGroup(match) === group)
+      .map(({ scraperId, listingId, url, price, currency }) => ({ scraperId, listingId, url, price, ...(currency ? { currency } : {}) }));
+  }
+
+  private isAuctionEndingSoon(listing: Listing, config: ScraperConfig): boolean {
+    if (!config.auctionEndingWindowMinutes || !listing.auction?.endTime) {
+      return false;
+    }
+
+    const remainingMs = new Date(listing.auction.endTime).getTime() - Date.now();
+    return remainingMs > 0 && remainingMs <= config.auctionEndingWindowMinutes * 60 * 1000;
   }
 
   private async sendNotifications(
-    newListings: Listing[],
-    priceDrops: Listing[],
+    changes: ListingChanges,
     config: ScraperConfig,
-    notificationService: NotificationService
+    notificationService: NotificationService,
+    exchangeRates?: ExchangeRates
   ): Promise<void> {
-    const notifications: Promise<void>[] = [];
+    const alerts = { ...DEFAULT_ALERTS, ...config.alerts };
+    const payloads: NotificationPayload[] = [];
+
+    // New listings
+    if (alerts.newListing) {
+      payloads.push(...changes.newListings.map(listing => ({ type: 'new_listing' as const, listing, scraper: config })));
+    }
 
-    // Send notifications for new listings
-    for (const listing of newListings) {
-      const payload: NotificationPayload = {
-        type: 'new_listing',
+    // Price drops
+    if (alerts.priceDrop) {
+      payloads.push(...changes.priceDrops.map(listing => ({
+        type: 'price_drop' as const,
         listing,
         scraper: config,
-      };
-      notifications.push(notificationService.sendNotifications(payload));
+        priceDropPercentage: listing.previousPrice
+          ? calculatePriceDropPercentage(listing.previousPrice, listing.price)
+          : 0,
+      })));
     }
 
-    // Send notifications for price drops
-    for (const listing of priceDrops) {
-      const priceDropPercentage = listing.previousPrice
-        ? (listing.previousPrice - listing.price) / listing.previousPrice * 100
-        : 0;
-
-      const payload: NotificationPayload = {
-        type: 'price_drop',
+    // Price increases (opt-in)
+    if (alerts.priceIncrease) {
+      payloads.push(...changes.priceIncreases.map(listing => ({
+        type: 'price_increase' as const,
         listing,
         scraper: config,
-        priceDropPercentage,
-      };
-      notifications.push(notificationService.sendNotifications(payload));
+        priceIncreasePercentage: listing.previousPrice
+          ? -calculatePriceDropPercentage(listing.previousPrice, listing.price)
+          : 0,
+      })));
+    }
+
+    // Auctions about to close
+    payloads.push(...changes.endingAuctions.map(listing => ({ type: 'auction_ending' as const, listing, scraper: config })));
+
+    // Listings that disappeared, usually because they sold
+    if (alerts.listingRemoved) {
+      payloads.push(...changes.removedListings.map(listing => ({ type: 'listing_removed' as const, listing, scraper: config })));
+    }
+
+    // Listings that came back
+    if (alerts.relisted) {
+      payloads.push(...changes.relistedListings.map(listing => ({ type: 'relisted' as const, listing, scraper: config })));
+    }
+
+    // Mention every other place the same item is listed
+    if (alerts.groupDuplicates) {
+      await Promise.all(payloads.map(async payload => {
+        try {
+          const sightings = await this.findSightings(payload.listing);
+          if (sightings.length > 0) {
+            payload.alsoListed = sightings;
+          }
+        } catch (error) {
+          console.error(`Failed to look up duplicates of listing ${payload.listing.listingId}:`, error);
+        }
+      }));
+    }
+
+    // Listings at or under the target price bypass quiet hours
+    if (config.urgentBelowPrice !== undefined) {
+      payloads.forEach(payload => {
+        payload.urgent = payload.type !== 'listing_removed' &&
+          payload.listing.priceStatus !== 'contact' &&
+          getComparablePrice(payload.listing, config, exchangeRates) <= config.urgentBelowPrice!;
+      });
+    }
+
+    // Immediate channels get one message per payload, queued or sent in parallel
+    try {
+      await createNotificationDispatcher(notificationService).dispatch(payloads);
+    } catch (error) {
+      console.error(`Failed to dispatch notifications for scraper ${config.id}:`, error);
     }
 
-    // Send all notifications in parallel
-    await Promise.allSettled(notifications);
+    // Batch and digest channels get a single message
+    await notificationService.sendBatchedNotifications(config, payloads);
   }
 
   async getScraperStats(scraperId: string): Promise<{ totalListings: number; recentListings: Listing[] }> {
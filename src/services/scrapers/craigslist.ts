@@ -0,0 +1,236 @@
+import axios, { AxiosError } from 'axios';
+import * as cheerio from 'cheerio';
+import { ScraperConfig, ScrapeOptions, Listing, ListingDetails, MarketplaceScraper, ScraperCapabilities } from '../../types';
+import { getRateLimiter, parseRetryAfter, RateLimiter } from '../rate-limiter';
+import { ERROR_MESSAGES } from '../../utils/constants';
+import { parsePrice } from '../../utils/prices';
+
+// Craigslist sites whose subdomain can't be derived from the city name
+const SITE_ALIASES: Record<string, string> = {
+  'san francisco': 'sfbay',
+  'oakland': 'sfbay',
+  'san jose': 'sfbay',
+  'berkeley': 'sfbay',
+  'new york': 'newyork',
+  'brooklyn': 'newyork',
+  'manhattan': 'newyork',
+  'queens': 'newyork',
+  'washington': 'washingtondc',
+  'st louis': 'stlouis',
+  'saint louis': 'stlouis',
+};
+
+export class CraigslistScraper implements MarketplaceScraper {
+  readonly capabilities: ScraperCapabilities = {
+    requiresBrowser: false,
+    supportsRadius: true,
+    supportsAuctions: false,
+  };
+
+  private rateLimiter: RateLimiter;
+
+  constructor(rateLimiter: RateLimiter = getRateLimiter()) {
+    this.rateLimiter = rateLimiter;
+  }
+
+  // Craigslist serves static HTML, so no browser is needed
+  async initialize(): Promise<void> {
+    return;
+  }
+
+  async cleanup(): Promise<void> {
+    return;
+  }
+
+  async scrape(config: ScraperConfig, _credentials?: string, { deadline }: ScrapeOptions = {}): Promise<Listing[]> {
+    try {
+      const searchUrl = this.buildSearchUrl(config);
+      console.log(`Scraping: ${searchUrl}`);
+
+      const listings = this.parseListings(await this.fetchPage(searchUrl, deadline), config);
+
+      console.log(`Found ${listings.length} listings for scraper ${config.id}`);
+      return listings;
+
+    } catch (error) {
+      console.error(`Error scraping Craigslist for ${config.id}:`, error);
+      throw error;
+    }
+  }
+
+  async fetchDetails(listing: Listing, _credentials?: string, { deadline }: ScrapeOptions = {}): Promise<ListingDetails> {
+    return this.parseDetails(await this.fetchPage(listing.url, deadline));
+  }
+
+  private async fetchPage(url: string, deadline?: number): Promise<string> {
+    await this.rateLimiter.acquire('craigslist', url, deadline);
+
+    try {
+      const response = await axios.get<string>(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+          'Accept': 'text/html',
+        },
+        responseType: 'text',
+        timeout: 15000,
+      });
+
+      return response.data;
+    } catch (error) {
+      const response = (error as AxiosError).response;
+      if (response?.status === 429) {
+        await this.rateLimiter.backOff('craigslist', url, 'rate_limited', parseRetryAfter(response.headers['retry-after']));
+        throw new Error(`${ERROR_MESSAGES.RATE_LIMITED}: ${new URL(url).hostname}`);
+      }
+      throw error;
+    }
+  }
+
+  private parseDetails(html: string): ListingDetails {
+    const $ = cheerio.load(html);
+
+    const body = $('#postingbody');
+    body.find('.print-information, .print-qrcode-container').remove();
+    const description = body.text().replace(/QR Code Link to This Post/i, '').trim();
+
+    // Attributes such as "condition: excellent", in the current and legacy layouts
+    let condition: string | undefined;
+    $('.attrgroup .attr, .attrgroup span').each((_, element) => {
+      const match = $(element).text().trim().match(/^condition:\s*(.+)$/i);
+      if (match && !condition) {
+        condition = match[1].trim();
+      }
+    });
+
+    const postedAt = $('.postinginfos time[datetime], time.date.timeago').first().attr('datetime');
+    const hood = $('.postingtitletext small').first().text().trim().replace(/^\((.*)\)$/, '$1');
+    const imageUrls = $('#thumbs a[href], .gallery img[src]')
+      .map((_, element) => $(element).attr('href') || $(element).attr('src'))
+      .get()
+      .filter((url, index, urls) => urls.indexOf(url) === index);
+
+    // The posting's map pin, which is more precise than its neighborhood
+    const map = $('#map[data-latitude][data-longitude]').first();
+    const latitude = parseFloat(map.attr('data-latitude') ?? '');
+    const longitude = parseFloat(map.attr('data-longitude') ?? '');
+
+    return {
+      description: description || undefined,
+      condition,
+      postedAt: postedAt && !isNaN(Date.parse(postedAt)) ? new Date(postedAt).toISOString() : undefined,
+      location: hood || undefined,
+      coordinates: !isNaN(latitude) && !isNaN(longitude) ? { latitude, longitude } : undefined,
+      imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
+    };
+  }
+
+  private parseListings(html: string, config: ScraperConfig): Listing[] {
+    const $ = cheerio.load(html);
+    const listings: Listing[] = [];
+    const seen = new Set<string>();
+
+    // Static results page first, then the legacy result-row layout
+    const listingElements = $('li.cl-static-search-result, li.cl-search-result, li.result-row').toArray();
+
+    for (const element of listingElements) {
+      try {
+        const $element = $(element);
+
+        const linkElement = $element.find('a[href$=".html"]').first();
+        const href = linkElement.attr('href');
+        const title = ($element.find('.title, .result-title, .posting-title .label').first().text()
+          || $element.attr('title')
+          || '').trim();
+        const priceText = $element.find('.price, .result-price, .priceinfo').first().text().trim();
+        const hood = $element.find('.location, .result-hood').first().text()
+          .trim()
+          .replace(/^\((.*)\)$/, '$1');
+        const imageUrl = $element.find('img').first().attr('src');
+
+        // Results without a price element are free or "contact for price" posts
+        if (!href || !title) {
+          continue;
+        }
+
+        const parsedPrice = parsePrice(priceText, config.currency);
+        if (!parsedPrice) {
+          continue;
+        }
+
+        // Posting IDs are the numeric file name, e.g. /cto/d/seattle-honda-civic/7712345678.html
+        const listingIdMatch = href.match(/(\d+)\.html$/);
+        const listingId = $element.attr('data-pid') || listingIdMatch?.[1];
+        if (!listingId || seen.has(listingId)) {
+          continue;
+        }
+        seen.add(listingId);
+
+        const url = href.startsWith('http') ? href : `https://${this.getSite(config.location)}.craigslist.org${href}`;
+
+        const listing: Listing = {
+          scraperId: config.id,
+          listingId,
+          title,
+          price: parsedPrice.price,
+          currency: parsedPrice.currency,
+          ...(parsedPrice.status !== 'listed' ? { priceStatus: parsedPrice.status } : {}),
+          location: hood || config.location,
+          url,
+          imageUrl,
+          firstSeen: new Date().toISOString(),
+          lastSeen: new Date().toISOString(),
+          expiresAt: 0, // Will be set by database service
+        };
+
+        listings.push(listing);
+      } catch (error) {
+        console.warn('Error parsing listing element:', error);
+        continue;
+      }
+    }
+
+    return listings;
+  }
+
+  private buildSearchUrl(config: ScraperConfig): string {
+    const baseUrl = `https://${this.getSite(config.location)}.craigslist.org/search/sss`;
+    const params = new URLSearchParams();
+
+    // Add search query
+    if (config.query) {
+      params.append('query', config.query);
+    }
+
+    // Add price range
+    if (config.priceMin !== undefined) {
+      params.append('min_price', config.priceMin.toString());
+    }
+    if (config.priceMax !== undefined) {
+      params.append('max_price', config.priceMax.toString());
+    }
+
+    // Craigslist only honours the radius when a postal code is given
+    const postal = config.location.match(/\b(\d{5})\b/);
+    if (config.radius && postal) {
+      params.append('search_distance', config.radius.toString());
+      params.append('postal', postal[1]);
+    }
+
+    const queryString = params.toString();
+    return queryString ? `${baseUrl}?${queryString}` : baseUrl;
+  }
+
+  /**
+   * Resolve the Craigslist subdomain from a location such as "Seattle, WA",
+   * "San Francisco, CA 94103" or a bare site name like "sfbay".
+   */
+  private getSite(location: string): string {
+    const city = location.split(',')[0].trim().toLowerCase().replace(/\./g, '');
+
+    if (SITE_ALIASES[city]) {
+      return SITE_ALIASES[city];
+    }
+
+    return city.replace(/[^a-z]/g, '');
+  }
+}
@@ -0,0 +1,290 @@
+import axios, { AxiosError } from 'axios';
+import * as cheerio from 'cheerio';
+import { ScraperConfig, ScrapeOptions, Listing, ListingDetails, AuctionDetails, MarketplaceScraper, ScraperCapabilities } from '../../types';
+import { getRateLimiter, parseRetryAfter, RateLimiter } from '../rate-limiter';
+import { ERROR_MESSAGES } from '../../utils/constants';
+import { parsePrice } from '../../utils/prices';
+
+export class EbayScraper implements MarketplaceScraper {
+  readonly capabilities: ScraperCapabilities = {
+    requiresBrowser: false,
+    supportsRadius: true,
+    supportsAuctions: true,
+  };
+
+  private rateLimiter: RateLimiter;
+
+  constructor(rateLimiter: RateLimiter = getRateLimiter()) {
+    this.rateLimiter = rateLimiter;
+  }
+
+  // eBay search results are server-rendered, so no browser is needed
+  async initialize(): Promise<void> {
+    return;
+  }
+
+  async cleanup(): Promise<void> {
+    return;
+  }
+
+  async scrape(config: ScraperConfig, _credentials?: string, { signal, deadline }: ScrapeOptions = {}): Promise<Listing[]> {
+    const listings: Listing[] = [];
+    const seen = new Set<string>();
+
+    try {
+      // Each unit of scroll depth fetches one more results page
+      const pages = Math.max(1, config.scrollDepth);
+
+      for (let page = 1; page <= pages; page++) {
+        signal?.throwIfAborted();
+        const searchUrl = this.buildSearchUrl(config, page);
+        console.log(`Scraping: ${searchUrl}`);
+
+        const html = await this.fetchPage(searchUrl, deadline);
+
+        const pageListings = this.parseListings(html, config)
+          .filter(listing => !seen.has(listing.listingId));
+
+        pageListings.forEach(listing => seen.add(listing.listingId));
+        listings.push(...pageListings);
+
+        if (pageListings.length === 0) {
+          break;
+        }
+      }
+
+      console.log(`Found ${listings.length} listings for scraper ${config.id}`);
+      return listings;
+
+    } catch (error) {
+      console.error(`Error scraping eBay for ${config.id}:`, error);
+      throw error;
+    }
+  }
+
+  async fetchDetails(listing: Listing, _credentials?: string, { deadline }: ScrapeOptions = {}): Promise<ListingDetails> {
+    const { details, descriptionUrl } = this.parseDetails(await this.fetchPage(listing.url, deadline));
+
+    // The seller's description is usually served separately and shown in an iframe
+    if (descriptionUrl) {
+      const $ = cheerio.load(await this.fetchPage(descriptionUrl, deadline));
+      details.description = $('body').text().replace(/\s+/g, ' ').trim() || undefined;
+    }
+
+    return details;
+  }
+
+  private async fetchPage(url: string, deadline?: number): Promise<string> {
+    await this.rateLimiter.acquire('ebay', url, deadline);
+
+    let response;
+    try {
+      response = await axios.get<string>(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+          'Accept': 'text/html',
+        },
+        responseType: 'text',
+        timeout: 15000,
+      });
+    } catch (error) {
+      const errorResponse = (error as AxiosError).response;
+      if (errorResponse?.status === 429) {
+        await this.rateLimiter.backOff('ebay', url, 'rate_limited', parseRetryAfter(errorResponse.headers['retry-after']));
+        throw new Error(`${ERROR_MESSAGES.RATE_LIMITED}: ${new URL(url).hostname}`);
+      }
+      throw error;
+    }
+
+    // Too many requests end up on a captcha page instead of the one asked for
+    const finalUrl: string | undefined = response.request?.res?.responseUrl;
+    if (finalUrl?.includes('/splashui/captcha')) {
+      await this.rateLimiter.backOff('ebay', url, 'checkpoint');
+      throw new Error(ERROR_MESSAGES.CHECKPOINT);
+    }
+
+    return response.data;
+  }
+
+  private parseDetails(html: string): { details: ListingDetails; descriptionUrl?: string } {
+    const $ = cheerio.load(html);
+
+    const condition = $('.x-item-condition-text .ux-textspans, [itemprop="itemCondition"]').first().text().trim();
+    const seller = $('.x-sellercard-atf__info__about-seller .ux-textspans').first().text().trim();
+    const location = $('.ux-textspans')
+      .map((_, element) => $(element).text().trim())
+      .get()
+      .find(text => /^Located in:/i.test(text))
+      ?.replace(/^Located in:\s*/i, '');
+    const imageUrls = $('.ux-image-carousel-item img')
+      .map((_, element) => $(element).attr('data-zoom-src') || $(element).attr('src'))
+      .get()
+      .filter((url, index, urls) => urls.indexOf(url) === index);
+    const inlineDescription = $('[itemprop="description"]').first().text().replace(/\s+/g, ' ').trim();
+
+    return {
+      details: {
+        condition: condition || undefined,
+        seller: seller || undefined,
+        location: location || undefined,
+        imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
+        description: inlineDescription || undefined,
+      },
+      descriptionUrl: $('iframe#desc_ifr').attr('src'),
+    };
+  }
+
+  private parseListings(html: string, config: ScraperConfig): Listing[] {
+    const $ = cheerio.load(html);
+    const listings: Listing[] = [];
+
+    const listingElements = $('li.s-item').toArray();
+
+    for (const element of listingElements) {
+      try {
+        const $element = $(element);
+
+        const href = $element.find('a.s-item__link').first().attr('href');
+        const title = $element.find('.s-item__title').first().text()
+          .replace(/^New Listing/i, '')
+          .trim();
+        const priceText = $element.find('.s-item__price').first().text().trim();
+        const imageUrl = $element.find('.s-item__image img, img').first().attr('src');
+        const itemLocation = $element.find('.s-item__location, .s-item__itemLocation').first().text()
+          .replace(/^from\s+/i, '')
+          .trim();
+
+        if (!href || !title || !priceText) {
+          continue;
+        }
+
+        // Skip eBay's placeholder result that precedes the real items
+        if (/^shop on ebay$/i.test(title)) {
+          continue;
+        }
+
+        // Price ranges ("$20.00 to $30.00") use the lower bound
+        const parsedPrice = parsePrice(priceText, config.currency);
+        if (!parsedPrice) {
+          continue;
+        }
+        const { price, currency } = parsedPrice;
+
+        const listingIdMatch = href.match(/\/itm\/(?:[^/?]+\/)?(\d+)/);
+        if (!listingIdMatch) {
+          continue;
+        }
+
+        const listingId = listingIdMatch[1];
+        const url = `https://www.ebay.com/itm/${listingId}`;
+
+        const auction = this.parseAuction(
+          price,
+          $element.find('.s-item__bids, .s-item__bidCount').first().text().trim(),
+          $element.find('.s-item__time-left').first().text().trim()
+        );
+
+        // "camera_shop (1,234) 99.8%" → "camera_shop"
+        const seller = $element.find('.s-item__seller-info-text').first().text().trim().split(/\s+/)[0];
+
+        const listing: Listing = {
+          scraperId: config.id,
+          listingId,
+          title,
+          price,
+          currency,
+          location: itemLocation || config.location,
+          url,
+          imageUrl,
+          seller: seller || undefined,
+          listingType: auction ? 'auction' : 'fixed_price',
+          auction,
+          firstSeen: new Date().toISOString(),
+          lastSeen: new Date().toISOString(),
+          expiresAt: 0, // Will be set by database service
+        };
+
+        listings.push(listing);
+      } catch (error) {
+        console.warn('Error parsing listing element:', error);
+        continue;
+      }
+    }
+
+    return listings;
+  }
+
+  /**
+   * Auctions show a bid count ("5 bids") and a time left ("1d 3h left").
+   * Buy It Now listings have neither.
+   */
+  private parseAuction(price: number, bidsText: string, timeLeftText: string): AuctionDetails | undefined {
+    const bidsMatch = bidsText.match(/(\d+)\s+bids?/i);
+
+    if (!bidsMatch && !timeLeftText) {
+      return undefined;
+    }
+
+    const auction: AuctionDetails = {
+      currentBid: price,
+      bidCount: bidsMatch ? parseInt(bidsMatch[1], 10) : 0,
+    };
+
+    const remainingMs = this.parseTimeLeft(timeLeftText);
+    if (remainingMs !== null) {
+      auction.endTime = new Date(Date.now() + remainingMs).toISOString();
+    }
+
+    return auction;
+  }
+
+  private parseTimeLeft(text: string): number | null {
+    const units: Record<string, number> = {
+      d: 24 * 60 * 60 * 1000,
+      h: 60 * 60 * 1000,
+      m: 60 * 1000,
+      s: 1000,
+    };
+
+    const parts = Array.from(text.matchAll(/(\d+)\s*([dhms])/gi));
+    if (parts.length === 0) {
+      return null;
+    }
+
+    return parts.reduce((total, [, value, unit]) => total + parseInt(value, 10) * units[unit.toLowerCase()], 0);
+  }
+
+  private buildSearchUrl(config: ScraperConfig, page: number): string {
+    const baseUrl = 'https://www.ebay.com/sch/i.html';
+    const params = new URLSearchParams();
+
+    // Add search query
+    params.append('_nkw', config.query);
+
+    // Add price range
+    if (config.priceMin !== undefined) {
+      params.append('_udlo', config.priceMin.toString());
+    }
+    if (config.priceMax !== undefined) {
+      params.append('_udhi', config.priceMax.toString());
+    }
+
+    // eBay only supports a distance filter around a postal code
+    const postal = config.location.match(/\b(\d{5})\b/);
+    if (config.radius && postal) {
+      params.append('_stpos', postal[1]);
+      params.append('_sadis', config.radius.toString());
+      params.append('LH_PrefLoc', '99');
+    }
+
+    // Newly listed first, maximum page size
+    params.append('_sop', '10');
+    params.append('_ipg', '120');
+
+    if (page > 1) {
+      params.append('_pgn', page.toString());
+    }
+
+    return `${baseUrl}?${params.toString()}`;
+  }
+}
@@ -1,9 +1,37 @@
 import { chromium, Browser, Page } from 'playwright';
 import * as cheerio from 'cheerio';
-import { ScraperConfig, Listing } from '../types';
+import { ScraperConfig, ScrapeOptions, Listing, ListingDetails, MarketplaceScraper, ScraperCapabilities, SecretsConfig } from '../../types';
+import { getRateLimiter, isThrottled, parseRetryAfter, RateLimiter } from '../rate-limiter';
+import { ERROR_MESSAGES } from '../../utils/constants';
+import { parsePrice } from '../../utils/prices';
+
+const FEED_ITEMS = '[data-testid="marketplace-feed"] > div > div';
+
+// Units in "Listed 3 days ago" on item pages
+const TIME_UNITS_MS: Record<string, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+};
+
+export class FacebookMarketplaceScraper implements MarketplaceScraper {
+  readonly capabilities: ScraperCapabilities = {
+    requiresBrowser: true,
+    supportsRadius: true,
+    supportsAuctions: false,
+  };
+
+  readonly credentialsKey: keyof SecretsConfig = 'facebook-cookies';
 
-export class FacebookMarketplaceScraper {
   private browser: Browser | null = null;
+  private rateLimiter: RateLimiter;
+
+  constructor(rateLimiter: RateLimiter = getRateLimiter()) {
+    this.rateLimiter = rateLimiter;
+  }
 
   async initialize(): Promise<void> {
     this.browser = await chromium.launch({
@@ -19,7 +47,7 @@ export class FacebookMarketplaceScraper {
     }
   }
 
-  async scrape(config: ScraperConfig, cookies?: string): Promise<Listing[]> {
+  async scrape(config: ScraperConfig, cookies?: string, { signal, deadline }: ScrapeOptions = {}): Promise<Listing[]> {
     if (!this.browser) {
       await this.initialize();
     }
@@ -38,17 +66,37 @@ export class FacebookMarketplaceScraper {
       const searchUrl = this.buildSearchUrl(config);
       console.log(`Scraping: ${searchUrl}`);
 
-      await page.goto(searchUrl, { waitUntil: 'networkidle' });
+      await this.navigate(page, searchUrl, deadline);
 
       // Wait for listings to load
       await page.waitForSelector('[data-testid="marketplace-feed"]', { timeout: 10000 });
 
-      // Scroll to load more listings based on scrollDepth
+      // Scroll to load more listings based on scrollDepth; each scroll makes the page fetch the next results
       for (let i = 0; i < config.scrollDepth; i++) {
+        signal?.throwIfAborted();
+        try {
+          await this.rateLimiter.acquire('facebook', searchUrl, deadline);
+        } catch (error) {
+          if (isThrottled(error)) {
+            break; // No time left to scroll further; keep what has loaded
+          }
+          throw error;
+        }
+
+        const count = await page.locator(FEED_ITEMS).count();
         await page.evaluate(() => {
           window.scrollTo(0, document.body.scrollHeight);
         });
-        await page.waitForTimeout(2000); // Wait for content to load
+
+        try {
+          await page.waitForFunction(
+            ([selector, previous]) => document.querySelectorAll(selector).length > previous,
+            [FEED_ITEMS, count] as const,
+            { timeout: 10000 }
+          );
+        } catch {
+          break; // Nothing more loaded
+        }
       }
 
       // Extract listings
@@ -56,7 +104,7 @@ export class FacebookMarketplaceScraper {
       const $ = cheerio.load(content);
 
       // Facebook Marketplace listing selectors (these may need updates as FB changes their DOM)
-      const listingElements = $('[data-testid="marketplace-feed"] > div > div').toArray();
+      const listingElements = $(FEED_ITEMS).toArray();
 
       for (const element of listingElements) {
         try {
@@ -66,7 +114,7 @@ export class FacebookMarketplaceScraper {
           const titleElement = $element.find('span[dir="auto"]').first();
           const priceElement = $element.find('span').filter((_, el) => {
             const text = $(el).text().trim();
-            return text.match(/^\$[\d,]+$/) !== null;
+            return text !== '' && parsePrice(text, config.currency) !== undefined;
           }).first();
 
           const linkElement = $element.find('a[href*="/marketplace/item/"]').first();
@@ -77,12 +125,11 @@ export class FacebookMarketplaceScraper {
           }
 
           const title = titleElement.text().trim();
-          const priceText = priceElement.text().replace(/[$,]/g, '');
-          const price = parseInt(priceText, 10);
+          const { price, currency, status } = parsePrice(priceElement.text(), config.currency)!;
           const href = linkElement.attr('href');
           const imageUrl = imageElement.attr('src');
 
-          if (!href || isNaN(price)) {
+          if (!href) {
             continue;
           }
 
@@ -95,17 +142,14 @@ export class FacebookMarketplaceScraper {
           const listingId = listingIdMatch[1];
           const url = href.startsWith('http') ? href : `https://www.facebook.com${href}`;
 
-          // Apply filters
-          if (!this.passesFilters(title, price, config)) {
-            continue;
-          }
-
           const listing: Listing = {
             scraperId: config.id,
             listingId,
             title,
             price,
-            location: config.location, // FB doesn't easily expose individual listing locations
+            currency,
+            ...(status !== 'listed' ? { priceStatus: status } : {}),
+            location: config.location, // The search feed doesn't show it; enrichment reads it from the item page
             url,
             imageUrl,
             firstSeen: new Date().toISOString(),
@@ -131,6 +175,83 @@ export class FacebookMarketplaceScraper {
     }
   }
 
+  async fetchDetails(listing: Listing, cookies?: string, { deadline }: ScrapeOptions = {}): Promise<ListingDetails> {
+    if (!this.browser) {
+      await this.initialize();
+    }
+
+    const page = await this.browser!.newPage();
+
+    try {
+      if (cookies) {
+        await page.context().addCookies(this.parseCookieString(cookies));
+      }
+
+      await this.navigate(page, listing.url, deadline);
+
+      const $ = cheerio.load(await page.content());
+      const text = await page.innerText('body');
+      return this.parseDetails($, text);
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * Load a page once the rate limiter allows it. Facebook answers too many
+   * requests with a 429 or by sending the session to a checkpoint page; both
+   * pause further requests and fail the scrape.
+   */
+  private async navigate(page: Page, url: string, deadline?: number): Promise<void> {
+    await this.rateLimiter.acquire('facebook', url, deadline);
+
+    const response = await page.goto(url, { waitUntil: 'networkidle' });
+
+    if (response?.status() === 429) {
+      await this.rateLimiter.backOff('facebook', url, 'rate_limited', parseRetryAfter(response.headers()['retry-after']));
+      throw new Error(`${ERROR_MESSAGES.RATE_LIMITED}: ${new URL(url).hostname}`);
+    }
+    if (new URL(page.url()).pathname.startsWith('/checkpoint')) {
+      await this.rateLimiter.backOff('facebook', url, 'checkpoint');
+      throw new Error(ERROR_MESSAGES.CHECKPOINT);
+    }
+  }
+
+  /**
+   * Item pages have no stable class names, so details come from the meta
+   * tags and the labels in the page text ("Condition", "Listed … ago in …").
+   */
+  private parseDetails($: cheerio.CheerioAPI, text: string, now: Date = new Date()): ListingDetails {
+    const description = $('meta[property="og:description"]').attr('content')?.trim();
+    const imageUrls = $('img[src*="scontent"]')
+      .map((_, element) => $(element).attr('src'))
+      .get()
+      .filter((url, index, urls) => urls.indexOf(url) === index);
+    const condition = text.match(/\nCondition\s*\n\s*([^\n]+)/)?.[1].trim();
+    const listed = text.match(/Listed (.+?) ago(?: in ([^\n]+))?/);
+    const seller = text.match(/\nSeller (?:information|details)\s*\n(?:\s*Seller details\s*\n)?\s*([^\n]+)/)?.[1].trim();
+
+    return {
+      description: description || undefined,
+      condition,
+      seller,
+      location: listed?.[2]?.trim(),
+      postedAt: listed ? this.parseTimeAgo(listed[1], now) : undefined,
+      imageUrls: imageUrls.length > 0 ? imageUrls : undefined,
+    };
+  }
+
+  // "3 days", "a week" or "about an hour" before now, as an ISO string
+  private parseTimeAgo(text: string, now: Date): string | undefined {
+    const match = text.match(/(\d+|an?)\s+(minute|hour|day|week|month|year)s?/i);
+    if (!match) {
+      return undefined;
+    }
+
+    const count = /^an?$/i.test(match[1]) ? 1 : parseInt(match[1], 10);
+    return new Date(now.getTime() - count * TIME_UNITS_MS[match[2].toLowerCase()]).toISOString();
+  }
+
   private buildSearchUrl(config: ScraperConfig): string {
     const baseUrl = 'https://www.facebook.com/marketplace';
     const params = new URLSearchParams();
@@ -162,44 +283,10 @@ export class FacebookMarketplaceScraper {
     return queryString ? `${baseUrl}/search?${queryString}` : baseUrl;
   }
 
-  private passesFilters(title: string, price: number, config: ScraperConfig): boolean {
-    const titleLower = title.toLowerCase();
-
-    // Check price bounds
-    if (config.priceMin !== undefined && price < config.priceMin) {
-      return false;
-    }
-    if (config.priceMax !== undefined && price > config.priceMax) {
-      return false;
-    }
-
-    // Check inclusion keywords
-    if (config.includeKeywords && config.includeKeywords.length > 0) {
-      const hasIncludeKeyword = config.includeKeywords.some(keyword =>
-        titleLower.includes(keyword.toLowerCase())
-      );
-      if (!hasIncludeKeyword) {
-        return false;
-      }
-    }
-
-    // Check exclusion keywords
-    if (config.excludeKeywords && config.excludeKeywords.length > 0) {
-      const hasExcludeKeyword = config.excludeKeywords.some(keyword =>
-        titleLower.includes(keyword.toLowerCase())
-      );
-      if (hasExcludeKeyword) {
-        return false;
-      }
-    }
-
-    return true;
-  }
-
   private parseCookieString(cookieString: string): Array<{ name: string; value: string; domain: string; path: string }> {
     return cookieString.split(';').map(cookie => {
-      const [nameValue, ...rest] = cookie.trim().split('=');
-      const [name, value] = nameValue.split('=');
+      const [name, ...rest] = cookie.trim().split('=');
+      const value = rest.join('=');
 
       return {
         name: name.trim(),
@@ -0,0 +1,36 @@
+import { MarketplaceScraper } from '../../types';
+import { ERROR_MESSAGES } from '../../utils/constants';
+import { FacebookMarketplaceScraper } from './facebook';
+import { CraigslistScraper } from './craigslist';
+import { EbayScraper } from './ebay';
+
+export type ScraperFactory = () => MarketplaceScraper;
+
+/**
+ * Marketplace name → scraper factory. Adding a marketplace means writing a
+ * class that implements MarketplaceScraper and registering it here; the
+ * ScraperConfig.marketplace type and config validation follow from this map.
+ */
+const SCRAPER_REGISTRY = {
+  facebook: (): MarketplaceScraper => new FacebookMarketplaceScraper(),
+  craigslist: (): MarketplaceScraper => new CraigslistScraper(),
+  ebay: (): MarketplaceScraper => new EbayScraper(),
+} satisfies Record<string, ScraperFactory>;
+
+export type Marketplace = keyof typeof SCRAPER_REGISTRY;
+
+export const getSupportedMarketplaces = (): Marketplace[] => {
+  return Object.keys(SCRAPER_REGISTRY) as Marketplace[];
+};
+
+export const isSupportedMarketplace = (marketplace: string): marketplace is Marketplace => {
+  return Object.prototype.hasOwnProperty.call(SCRAPER_REGISTRY, marketplace);
+};
+
+export const createScraper = (marketplace: string): MarketplaceScraper => {
+  if (!isSupportedMarketplace(marketplace)) {
+    throw new Error(`${ERROR_MESSAGES.INVALID_MARKETPLACE}: ${marketplace}`);
+  }
+
+  return SCRAPER_REGISTRY[marketplace]();
+};
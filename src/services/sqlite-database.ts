@@ -0,0 +1,413 @@
+import { createRequire } from 'module';
+import type BetterSqlite3 from 'better-sqlite3';
+import {
+  DigestItem,
+  DigestKind,
+  Listing,
+  ListingRepository,
+  ListingUpdate,
+  NotificationStore,
+  PendingDigest,
+  PriceHistoryEntry,
+  RunStore,
+  SchedulerRun,
+  ScheduleState,
+  ScrapeJobResult,
+  ScheduleStore,
+} from '../types';
+import { getDigestSlot, resolvePriceHistory } from '../utils/helpers';
+import { DELIVERY_RECORD_TTL_DAYS, LISTING_TTL_DAYS, RUN_RECORD_TTL_DAYS } from '../utils/constants';
+
+// Loads better-sqlite3 when a SQLite store is created, so Lambda bundles never need the native module
+const loadModule = createRequire(__filename);
+
+interface ListingRow {
+  data: string;
+}
+
+interface ScheduleRow {
+  last_run_at: string;
+  next_run_at: string;
+}
+
+interface RunRow {
+  started_at: string;
+  job_count: number;
+  results: string;
+}
+
+interface DigestRow {
+  items: string;
+  started_at: string | null;
+  last_sent_at: string | null;
+}
+
+/**
+ * Embedded listing store for local and self-hosted runs. Key attributes live
+ * in columns and the full listing is kept as JSON.
+ */
+export class SqliteDatabaseService implements ListingRepository, NotificationStore, ScheduleStore, RunStore {
+  private db: BetterSqlite3.Database;
+
+  constructor(filename: string = process.env.SQLITE_PATH || 'peddler.db') {
+    const Database = loadModule('better-sqlite3') as typeof BetterSqlite3;
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS listings (
+        scraper_id TEXT NOT NULL,
+        listing_id TEXT NOT NULL,
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (scraper_id, listing_id)
+      );
+      CREATE INDEX IF NOT EXISTS listings_last_seen ON listings (scraper_id, last_seen);
+      CREATE INDEX IF NOT EXISTS listings_fingerprint ON listings (json_extract(data, '$.fingerprint'));
+      CREATE TABLE IF NOT EXISTS digests (
+        scraper_id TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        items TEXT NOT NULL,
+        started_at TEXT,
+        last_sent_at TEXT,
+        PRIMARY KEY (scraper_id, channel)
+      );
+      CREATE TABLE IF NOT EXISTS sent_counts (
+        scraper_id TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        window_start TEXT NOT NULL,
+        count INTEGER NOT NULL,
+        PRIMARY KEY (scraper_id, channel, window_start)
+      );
+      CREATE TABLE IF NOT EXISTS deliveries (
+        delivery_key TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS schedules (
+        scraper_id TEXT PRIMARY KEY,
+        last_run_at TEXT NOT NULL,
+        next_run_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS runs (
+        run_id TEXT PRIMARY KEY,
+        started_at TEXT NOT NULL,
+        job_count INTEGER NOT NULL,
+        results TEXT NOT NULL
+      );
+    `);
+
+    // Emulate DynamoDB TTL
+    this.db.prepare('DELETE FROM listings WHERE expires_at < ?').run(this.now());
+    this.db.prepare('DELETE FROM sent_counts WHERE window_start < ?').run(new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+    this.db.prepare('DELETE FROM deliveries WHERE expires_at < ?').run(this.now());
+    this.db.prepare('DELETE FROM runs WHERE started_at < ?').run(new Date(Date.now() - RUN_RECORD_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString());
+  }
+
+  async getListing(scraperId: string, listingId: string): Promise<Listing | null> {
+    try {
+      const row = this.db
+        .prepare('SELECT data FROM listings WHERE scraper_id = ? AND listing_id = ? AND expires_at >= ?')
+        .get(scraperId, listingId, this.now()) as ListingRow | undefined;
+
+      return row ? JSON.parse(row.data) : null;
+    } catch (error) {
+      console.error(`Failed to get listing ${listingId} for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async saveListing(listing: Listing): Promise<void> {
+    try {
+      this.write({
+        ...listing,
+        priceHistory: resolvePriceHistory(listing),
+        expiresAt: this.expiry(),
+      });
+    } catch (error) {
+      console.error(`Failed to save listing ${listing.listingId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateListingPrice(
+    scraperId: string,
+    listingId: string,
+    newPrice: number,
+    lastSeen: string
+  ): Promise<Listing | null> {
+    try {
+      const currentListing = await this.getListing(scraperId, listingId);
+      if (!currentListing) {
+        return null;
+      }
+
+      const updatedListing: Listing = {
+        ...currentListing,
+        // Unchanged prices only refresh lastSeen so the last real change is kept
+        ...(newPrice !== currentListing.price ? {
+          price: newPrice,
+          previousPrice: currentListing.price,
+          priceHistory: [...resolvePriceHistory(currentListing), { price: newPrice, timestamp: lastSeen }],
+        } : {}),
+        lastSeen,
+        expiresAt: this.expiry(), // Reset TTL
+      };
+
+      this.write(updatedListing);
+      return updatedListing;
+    } catch (error) {
+      console.error(`Failed to update listing price for ${listingId}:`, error);
+      throw error;
+    }
+  }
+
+  async updateListing(
+    scraperId: string,
+    listingId: string,
+    updates: ListingUpdate
+  ): Promise<void> {
+    try {
+      const currentListing = await this.getListing(scraperId, listingId);
+      if (!currentListing) {
+        return;
+      }
+
+      const fields = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+      this.write({ ...currentListing, ...fields });
+    } catch (error) {
+      console.error(`Failed to update listing ${listingId}:`, error);
+      throw error;
+    }
+  }
+
+  async getPriceHistory(scraperId: string, listingId: string): Promise<PriceHistoryEntry[]> {
+    const listing = await this.getListing(scraperId, listingId);
+    return listing ? resolvePriceHistory(listing) : [];
+  }
+
+  async getListingsByScraperId(scraperId: string, limit = 100): Promise<Listing[]> {
+    try {
+      const rows = this.db
+        .prepare('SELECT data FROM listings WHERE scraper_id = ? AND expires_at >= ? ORDER BY listing_id LIMIT ?')
+        .all(scraperId, this.now(), limit) as ListingRow[];
+
+      return rows.map(row => JSON.parse(row.data));
+    } catch (error) {
+      console.error(`Failed to get listings for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async getListingsByFingerprint(fingerprint: string): Promise<Listing[]> {
+    try {
+      const rows = this.db
+        .prepare("SELECT data FROM listings WHERE json_extract(data, '$.fingerprint') = ? AND expires_at >= ?")
+        .all(fingerprint, this.now()) as ListingRow[];
+
+      return rows.map(row => JSON.parse(row.data));
+    } catch (error) {
+      console.error(`Failed to get listings with fingerprint ${fingerprint}:`, error);
+      throw error;
+    }
+  }
+
+  async cleanupOldListings(scraperId: string, daysOld = 30): Promise<number> {
+    try {
+      const cutoffIso = new Date(Date.now() - (daysOld * 24 * 60 * 60 * 1000)).toISOString();
+
+      const result = this.db
+        .prepare('DELETE FROM listings WHERE scraper_id = ? AND last_seen < ?')
+        .run(scraperId, cutoffIso);
+
+      return result.changes;
+    } catch (error) {
+      console.error(`Failed to cleanup old listings for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async addToDigest(
+    scraperId: string,
+    channelId: string,
+    items: DigestItem[],
+    kind: DigestKind = 'scheduled'
+  ): Promise<void> {
+    try {
+      const digest = await this.getDigest(scraperId, channelId, kind);
+
+      this.db.prepare(`
+        INSERT INTO digests (scraper_id, channel, items, started_at, last_sent_at)
+        VALUES (@scraperId, @channel, @items, @startedAt, @lastSentAt)
+        ON CONFLICT (scraper_id, channel) DO UPDATE SET
+          items = excluded.items,
+          started_at = excluded.started_at
+      `).run({
+        scraperId,
+        channel: getDigestSlot(channelId, kind),
+        items: JSON.stringify([...digest.items, ...items]),
+        startedAt: digest.startedAt || new Date().toISOString(),
+        lastSentAt: digest.lastSentAt || null,
+      });
+    } catch (error) {
+      console.error(`Failed to add to ${channelId} digest for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async getDigest(scraperId: string, channelId: string, kind: DigestKind = 'scheduled'): Promise<PendingDigest> {
+    try {
+      const row = this.db
+        .prepare('SELECT items, started_at, last_sent_at FROM digests WHERE scraper_id = ? AND channel = ?')
+        .get(scraperId, getDigestSlot(channelId, kind)) as DigestRow | undefined;
+
+      return {
+        items: row ? JSON.parse(row.items) : [],
+        startedAt: row?.started_at || undefined,
+        lastSentAt: row?.last_sent_at || undefined,
+      };
+    } catch (error) {
+      console.error(`Failed to get ${channelId} digest for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async clearDigest(
+    scraperId: string,
+    channelId: string,
+    sentAt: string,
+    kind: DigestKind = 'scheduled'
+  ): Promise<void> {
+    try {
+      this.db
+        .prepare('UPDATE digests SET items = ?, started_at = NULL, last_sent_at = ? WHERE scraper_id = ? AND channel = ?')
+        .run('[]', sentAt, scraperId, getDigestSlot(channelId, kind));
+    } catch (error) {
+      console.error(`Failed to clear ${channelId} digest for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async incrementSentCount(scraperId: string, channelId: string, windowStart: string): Promise<number> {
+    try {
+      const row = this.db.prepare(`
+        INSERT INTO sent_counts (scraper_id, channel, window_start, count)
+        VALUES (?, ?, ?, 1)
+        ON CONFLICT (scraper_id, channel, window_start) DO UPDATE SET count = count + 1
+        RETURNING count
+      `).get(scraperId, channelId, windowStart) as { count: number };
+
+      return row.count;
+    } catch (error) {
+      console.error(`Failed to count ${channelId} notifications for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async hasDelivered(deliveryKey: string): Promise<boolean> {
+    try {
+      const row = this.db
+        .prepare('SELECT 1 FROM deliveries WHERE delivery_key = ? AND expires_at >= ?')
+        .get(deliveryKey, this.now());
+
+      return row !== undefined;
+    } catch (error) {
+      console.error(`Failed to check delivery ${deliveryKey}:`, error);
+      throw error;
+    }
+  }
+
+  async recordDelivery(deliveryKey: string): Promise<void> {
+    try {
+      this.db
+        .prepare('INSERT OR REPLACE INTO deliveries (delivery_key, expires_at) VALUES (?, ?)')
+        .run(deliveryKey, this.now() + (DELIVERY_RECORD_TTL_DAYS * 24 * 60 * 60));
+    } catch (error) {
+      console.error(`Failed to record delivery ${deliveryKey}:`, error);
+      throw error;
+    }
+  }
+
+  async getScheduleState(scraperId: string): Promise<ScheduleState | null> {
+    try {
+      const row = this.db
+        .prepare('SELECT last_run_at, next_run_at FROM schedules WHERE scraper_id = ?')
+        .get(scraperId) as ScheduleRow | undefined;
+
+      return row ? { lastRunAt: row.last_run_at, nextRunAt: row.next_run_at } : null;
+    } catch (error) {
+      console.error(`Failed to get schedule state for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async saveScheduleState(scraperId: string, state: ScheduleState): Promise<void> {
+    try {
+      this.db
+        .prepare('INSERT OR REPLACE INTO schedules (scraper_id, last_run_at, next_run_at) VALUES (?, ?, ?)')
+        .run(scraperId, state.lastRunAt, state.nextRunAt);
+    } catch (error) {
+      console.error(`Failed to save schedule state for scraper ${scraperId}:`, error);
+      throw error;
+    }
+  }
+
+  async startRun(runId: string, jobCount: number, startedAt: string): Promise<void> {
+    try {
+      this.db
+        .prepare('INSERT OR REPLACE INTO runs (run_id, started_at, job_count, results) VALUES (?, ?, ?, ?)')
+        .run(runId, startedAt, jobCount, '[]');
+    } catch (error) {
+      console.error(`Failed to start run ${runId}:`, error);
+      throw error;
+    }
+  }
+
+  async recordJobResult(runId: string, result: ScrapeJobResult): Promise<SchedulerRun | null> {
+    try {
+      const row = this.db.prepare(`
+        UPDATE runs SET results = json_insert(results, '$[#]', json(?))
+        WHERE run_id = ?
+        RETURNING started_at, job_count, results
+      `).get(JSON.stringify(result), runId) as RunRow | undefined;
+
+      return row
+        ? { runId, startedAt: row.started_at, jobCount: row.job_count, results: JSON.parse(row.results) }
+        : null;
+    } catch (error) {
+      console.error(`Failed to record the result of scraper ${result.scraperId} in run ${runId}:`, error);
+      throw error;
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private write(listing: Listing): void {
+    this.db.prepare(`
+      INSERT INTO listings (scraper_id, listing_id, first_seen, last_seen, expires_at, data)
+      VALUES (@scraperId, @listingId, @firstSeen, @lastSeen, @expiresAt, @data)
+      ON CONFLICT (scraper_id, listing_id) DO UPDATE SET
+        last_seen = excluded.last_seen,
+        expires_at = excluded.expires_at,
+        data = excluded.data
+    `).run({
+      scraperId: listing.scraperId,
+      listingId: listing.listingId,
+      firstSeen: listing.firstSeen,
+      lastSeen: listing.lastSeen,
+      expiresAt: listing.expiresAt,
+      data: JSON.stringify(listing),
+    });
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  private expiry(): number {
+    return this.now() + (LISTING_TTL_DAYS * 24 * 60 * 60);
+  }
+}
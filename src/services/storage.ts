@@ -0,0 +1,72 @@
+import { ListingRepository, NotificationStore, RateLimitStore, RunStore, ScheduleStore } from '../types';
+import { DatabaseService } from './database';
+import { SqliteDatabaseService } from './sqlite-database';
+import { InMemoryDatabaseService } from './memory-database';
+
+export const STORAGE_BACKENDS = ['dynamodb', 'sqlite', 'memory'] as const;
+
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+export const RATE_LIMIT_BACKENDS = ['dynamodb', 'memory'] as const;
+
+const createBackend = (backend: string): ListingRepository & NotificationStore & ScheduleStore & RunStore => {
+  switch (backend) {
+    case 'dynamodb':
+      return new DatabaseService();
+    case 'sqlite':
+      return new SqliteDatabaseService();
+    case 'memory':
+      return new InMemoryDatabaseService();
+    default:
+      throw new Error(`Unsupported storage backend: ${backend}. Supported: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+};
+
+/**
+ * Build the listing repository selected by STORAGE_BACKEND (DynamoDB unless
+ * configured otherwise).
+ */
+export const createListingRepository = (
+  backend: string = process.env.STORAGE_BACKEND || 'dynamodb'
+): ListingRepository => createBackend(backend);
+
+/**
+ * Build the store for pending digests, using the same backend as listings.
+ */
+export const createNotificationStore = (
+  backend: string = process.env.STORAGE_BACKEND || 'dynamodb'
+): NotificationStore => createBackend(backend);
+
+/**
+ * Build the store for scraper schedules' last and next runs, using the same
+ * backend as listings.
+ */
+export const createScheduleStore = (
+  backend: string = process.env.STORAGE_BACKEND || 'dynamodb'
+): ScheduleStore => createBackend(backend);
+
+/**
+ * Build the store that collects scrape job results per scheduler run, using
+ * the same backend as listings.
+ */
+export const createRunStore = (
+  backend: string = process.env.STORAGE_BACKEND || 'dynamodb'
+): RunStore => createBackend(backend);
+
+/**
+ * Build the store for rate limit buckets selected by RATE_LIMIT_BACKEND. The
+ * default keeps them in memory, shared by the scrapers in this process;
+ * DynamoDB shares them with scrapers running in other Lambda invocations.
+ */
+export const createRateLimitStore = (
+  backend: string = process.env.RATE_LIMIT_BACKEND || 'memory'
+): RateLimitStore => {
+  switch (backend) {
+    case 'dynamodb':
+      return new DatabaseService();
+    case 'memory':
+      return new InMemoryDatabaseService();
+    default:
+      throw new Error(`Unsupported rate limit backend: ${backend}. Supported: ${RATE_LIMIT_BACKENDS.join(', ')}`);
+  }
+};
@@ -1,66 +1,355 @@
+import type { Marketplace } from '../services/scrapers';
+import type { ChannelSettingsMap, ChannelType } from '../services/notifiers';
+import type { ChannelValidationContext, ObjectSchema } from '../services/config-rules';
+
 export interface ScraperConfig {
   id: string;
   name: string;
   enabled: boolean;
-  marketplace: 'facebook' | 'craigslist' | 'ebay';
+  marketplace: Marketplace;
   query: string;
   location: string;
   radius: number;
+  currency?: string; // ISO 4217 code of a bare "$" in the marketplace's prices, and of priceMin, priceMax and urgentBelowPrice; default USD
   priceMin?: number;
   priceMax?: number;
   includeKeywords?: string[];
   excludeKeywords?: string[];
+  filter?: string; // Filter expression, see README "Filter Expressions"
+  maxDistance?: number; // Miles from the nearest home point; listings that can't be placed are kept
+  sortByDistance?: boolean; // Process and alert on the nearest listings first
   scrollDepth: number;
   priceDropThreshold: number; // Percentage (0.1 = 10%)
+  auctionEndingWindowMinutes?: number; // Alert when a tracked auction ends within this window
+  alerts?: AlertConfig;
+  enrichment?: EnrichmentConfig;
+  marketValue?: MarketValueConfig;
+  urgentBelowPrice?: number; // Alerts at or below this price bypass quiet hours
+  schedule?: ScheduleConfig; // Without one the scraper runs on every scheduler tick
   notifications: NotificationConfig;
+  templates?: TemplateConfig;
+}
+
+// Channel type → notification type → message template, see README "Message Templates"
+export type TemplateConfig = { [K in ChannelType]?: Partial<Record<NotificationType, string>> };
+
+export interface AlertConfig {
+  newListing?: boolean; // Default true
+  priceDrop?: boolean; // Default true
+  priceIncrease?: boolean; // Default false
+  listingRemoved?: boolean; // Default true
+  relisted?: boolean; // Default true
+  removedAfterMissedRuns?: number; // Consecutive runs a listing must be missing before it counts as removed
+  groupDuplicates?: boolean; // Default true; one alert per item even when other scrapers or marketplaces list it too
+}
+
+// Visit new listings' own pages for details the search results don't show
+export interface EnrichmentConfig {
+  enabled: boolean;
+  maxPerRun?: number; // Detail pages fetched per run, default 10; further new listings are processed without details
+}
+
+// Score listings against the prices this scraper has seen before
+export interface MarketValueConfig {
+  enabled: boolean;
+  bucketBy?: 'year' | 'keyword'; // Compare with listings of the same model year, or sharing a keyword from `keywords`
+  keywords?: string[]; // With bucketBy "keyword", the first of these found in a title names its bucket
+  alertBelowPercentile?: number; // 0-100; only alert on new listings and price drops priced below this percentile
+  minSamples?: number; // Stored listings needed before scoring, default 10
+}
+
+// When a scraper runs, see README "Schedules"; set either `every` or `cron`
+export interface ScheduleConfig {
+  every?: string; // Interval after the last run, e.g. "15m", "2h" or "1d"
+  cron?: string; // Five-field cron expression, e.g. "*/20 7-22 * * mon-fri"
+  timezone?: string; // IANA timezone for `cron` and `activeHours`, default UTC
+  activeHours?: ActiveHoursWindow[]; // Only run inside one of these windows
+  jitterMinutes?: number; // Push each run back by a random delay of up to this many minutes
+}
+
+export interface ActiveHoursWindow {
+  start: string; // "08:00"
+  end: string; // "22:00"; windows may cross midnight
+  days?: string[]; // "mon" to "sun", the days the window starts on; default every day
+}
+
+export interface ScheduleState {
+  lastRunAt: string; // ISO string
+  nextRunAt: string; // ISO string
+}
+
+export interface ScheduleStore {
+  getScheduleState(scraperId: string): Promise<ScheduleState | null>;
+  saveScheduleState(scraperId: string, state: ScheduleState): Promise<void>;
+}
+
+// A list of channel instances, so one scraper can post to several Slack
+// webhooks or Telegram chats. The older object keyed by channel type (one
+// instance per type) is still accepted.
+export type NotificationConfig = ChannelConfig[] | LegacyNotificationConfig;
+
+export type ChannelConfig = { [K in ChannelType]: { type: K } & ChannelSettingsMap[K] }[ChannelType];
+
+export type LegacyNotificationConfig = { [K in ChannelType]?: ChannelSettingsMap[K] };
+
+// Settings shared by every notification channel
+export interface ChannelOptions {
+  enabled: boolean;
+  id?: string; // Identifies the instance in logs and stored digests, defaults to the channel type
+  delivery?: DeliveryMode;
+  quietHours?: QuietHoursConfig;
+  maxPerHour?: number; // Further notifications in the hour are rolled into a summary
 }
 
-export interface NotificationConfig {
-  slack?: {
-    enabled: boolean;
-    webhook: string;
-  };
-  telegram?: {
-    enabled: boolean;
-    botToken: string;
-    chatId: string;
-  };
-  pushover?: {
-    enabled: boolean;
-    userKey: string;
-    appToken: string;
-  };
+/**
+ * A notification service such as Slack or email. Channels are stateless:
+ * settings and secrets are passed to every call, so one channel serves
+ * every configured instance of its type.
+ */
+export interface NotificationChannel<TSettings extends ChannelOptions = ChannelOptions, TMessage = unknown> {
+  configSchema: ObjectSchema; // Channel-specific settings, on top of ChannelOptions
+  supportsBatching: boolean; // Can combine several payloads into one digest message
+  supportsLowPriority: boolean; // Can deliver silently during quiet hours instead of holding
+  validateConfig(settings: Record<string, unknown>, context: ChannelValidationContext): void;
+  formatMessage(payload: NotificationPayload, settings: TSettings, options: FormatOptions): TMessage;
+  formatDigest(scraper: ScraperConfig, payloads: NotificationPayload[], settings: TSettings, options: FormatOptions): TMessage;
+  // Builds a message from a user template; channels without it ignore templates
+  formatTemplate?(template: string, payload: NotificationPayload, settings: TSettings, options: FormatOptions): TMessage;
+  send(message: TMessage, settings: TSettings, secrets: SecretsConfig): Promise<void>;
 }
 
+export interface FormatOptions {
+  lowPriority: boolean;
+}
+
+export interface QuietHoursConfig {
+  start: string; // "22:00"
+  end: string; // "07:00"
+  timezone?: string; // IANA name, defaults to UTC
+  mode?: 'hold' | 'low_priority'; // low_priority only applies to channels that support it; others hold
+}
+
+// immediate: one message per event; batch: one message per run;
+// hourly/daily: one message per period, with pending items stored between runs
+export type DeliveryMode = 'immediate' | 'batch' | 'hourly' | 'daily';
+
 export interface Listing {
   scraperId: string;
   listingId: string;
   title: string;
-  price: number;
+  price: number; // 0 when free or when the seller doesn't give a price
+  currency?: string; // ISO 4217 code, USD when not set
+  priceStatus?: PriceStatus; // Listed when not set
   previousPrice?: number;
+  priceHistory?: PriceHistoryEntry[]; // Every observed price, oldest first
   location: string;
+  coordinates?: Coordinates; // From the listing, or the gazetteer centroid of its location
+  distance?: number; // Miles from the nearest home point
+  nearestHome?: string; // Name of that home point, when there are several
   url: string;
   imageUrl?: string;
+  imageUrls?: string[]; // Every photo, from the detail page
+  seller?: string;
+  description?: string; // From the detail page
+  condition?: string; // As the marketplace words it, e.g. "Used - Good"; from the detail page
+  postedAt?: string; // ISO string, when the seller posted it; from the detail page
+  enrichedAt?: string; // ISO string, when the detail page was read
+  awaitingDetails?: boolean; // Over the enrichment cap when first seen; not alerted on until its details are read
+  rejectedAt?: string; // ISO string, when its details failed the filters; kept so its page isn't read again
+  marketValue?: MarketValue; // How the price compares with the scraper's earlier listings
+  listingType?: 'fixed_price' | 'auction';
+  auction?: AuctionDetails;
+  auctionEndingNotified?: boolean;
+  status?: 'active' | 'removed';
+  missedRuns?: number; // Consecutive runs the listing was not found
+  removedAt?: string; // ISO string
+  relistedFrom?: string; // listingId of the removed listing this one replaced
+  relistedAs?: string; // listingId of the listing that replaced this one
+  imageHash?: string; // Perceptual hash of the main image (hex), when the scraper computes one
+  fingerprint?: string; // Location and price band, see getFingerprintKey; used to look up likely duplicates
+  duplicateGroup?: string; // "scraperId:listingId" of the first listing seen for the same item
   firstSeen: string; // ISO string
   lastSeen: string; // ISO string
   expiresAt: number; // Unix timestamp for TTL
 }
 
+// listed: an asking price; free: given away; contact: ask the seller ("Contact for price", "Make offer")
+export type PriceStatus = 'listed' | 'free' | 'contact';
+
+export interface MarketValue {
+  typicalPrice: number; // Median price of the compared listings
+  percentile: number; // Percent of the compared listings priced below this one
+  difference: number; // Percent below (positive) or above (negative) the typical price
+  sampleSize: number; // Listings compared
+  bucket?: string; // Model year or keyword the comparison was limited to
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PriceHistoryEntry {
+  price: number;
+  timestamp: string; // ISO string
+}
+
+export interface AuctionDetails {
+  currentBid: number;
+  bidCount: number;
+  endTime?: string; // ISO string
+}
+
+export interface ScraperCapabilities {
+  requiresBrowser: boolean;
+  supportsRadius: boolean;
+  supportsAuctions: boolean;
+}
+
+// Listing fields read from its detail page; marketplaces fill in what they show
+export type ListingDetails = Partial<Pick<Listing, 'location' | 'coordinates' | 'seller' | 'description' | 'condition' | 'postedAt' | 'imageUrls'>>;
+
+// Limits of the run a scraper is called in
+export interface ScrapeOptions {
+  signal?: AbortSignal; // Aborts when the run times out; the scraper stops with its reason
+  deadline?: number; // Epoch ms the run times out at; rate limit waits past it fail as throttled instead
+}
+
+export interface MarketplaceScraper {
+  readonly capabilities: ScraperCapabilities;
+  readonly credentialsKey?: keyof SecretsConfig; // Secret passed to scrape() and fetchDetails() as credentials
+  initialize(): Promise<void>;
+  scrape(config: ScraperConfig, credentials?: string, options?: ScrapeOptions): Promise<Listing[]>;
+  // Reads a listing's own page; scrapers without it don't support enrichment
+  fetchDetails?(listing: Listing, credentials?: string, options?: ScrapeOptions): Promise<ListingDetails>;
+  cleanup(): Promise<void>;
+}
+
+export type ListingUpdate = Partial<Omit<Listing, 'scraperId' | 'listingId'>>;
+
+export interface ListingRepository {
+  getListing(scraperId: string, listingId: string): Promise<Listing | null>;
+  saveListing(listing: Listing): Promise<void>;
+  updateListingPrice(scraperId: string, listingId: string, newPrice: number, lastSeen: string): Promise<Listing | null>;
+  updateListing(scraperId: string, listingId: string, updates: ListingUpdate): Promise<void>;
+  getPriceHistory(scraperId: string, listingId: string): Promise<PriceHistoryEntry[]>;
+  getListingsByScraperId(scraperId: string, limit?: number): Promise<Listing[]>;
+  getListingsByFingerprint(fingerprint: string): Promise<Listing[]>; // Across every scraper
+  cleanupOldListings(scraperId: string, daysOld?: number): Promise<number>;
+}
+
 export interface ScrapingResult {
   scraperId: string;
   success: boolean;
   error?: string;
   newListings: Listing[];
   priceDrops: Listing[];
+  endingAuctions: Listing[];
+  priceIncreases: Listing[];
+  removedListings: Listing[];
+  relistedListings: Listing[];
+  totalFound: number;
+  executionTime: number;
+}
+
+// One scraper run the scheduler hands to a job dispatcher, see services/jobs.ts
+export interface ScrapeJob {
+  runId: string; // The scheduler run that dispatched it
+  scraperId: string;
+  timeoutMs: number;
+}
+
+// What a run summary keeps of a ScrapingResult: counts in place of the listings
+export interface ScrapeJobResult {
+  scraperId: string;
+  success: boolean;
+  error?: string;
+  newListings: number;
+  priceDrops: number;
+  priceIncreases: number;
+  endingAuctions: number;
+  removedListings: number;
+  relistedListings: number;
   totalFound: number;
   executionTime: number;
 }
 
+export interface SchedulerRun {
+  runId: string;
+  startedAt: string; // ISO string
+  jobCount: number;
+  results: ScrapeJobResult[];
+}
+
+// Collects job results per scheduler run, so the run can be summarized once its last job finishes
+export interface RunStore {
+  startRun(runId: string, jobCount: number, startedAt: string): Promise<void>;
+  recordJobResult(runId: string, result: ScrapeJobResult): Promise<SchedulerRun | null>; // The run with this result added
+}
+
+export interface ScrapeJobDispatcher {
+  dispatch(jobs: ScrapeJob[]): Promise<void>;
+}
+
+export type NotificationType =
+  | 'new_listing'
+  | 'price_drop'
+  | 'price_increase'
+  | 'auction_ending'
+  | 'listing_removed'
+  | 'relisted';
+
 export interface NotificationPayload {
-  type: 'new_listing' | 'price_drop';
+  type: NotificationType;
   listing: Listing;
   scraper: ScraperConfig;
   priceDropPercentage?: number;
+  priceIncreasePercentage?: number;
+  urgent?: boolean; // Bypasses quiet hours
+  alsoListed?: ListingSighting[]; // Likely duplicates of the listing found by this or other scrapers
+}
+
+// Another place the same item was seen
+export interface ListingSighting {
+  scraperId: string;
+  listingId: string;
+  url: string;
+  price: number;
+  currency?: string;
+}
+
+// What two postings of the same item have in common, see getFingerprint
+export interface ListingFingerprint {
+  titleWords: string[];
+  priceBand: number;
+  location: string;
+  imageHash?: string;
+}
+
+export type DigestItem = Omit<NotificationPayload, 'scraper'>;
+
+// scheduled: hourly/daily digests; held: alerts held during quiet hours
+export type DigestKind = 'scheduled' | 'held';
+
+export interface PendingDigest {
+  items: DigestItem[];
+  startedAt?: string; // ISO string, when the oldest pending item was added
+  lastSentAt?: string; // ISO string
+}
+
+export interface NotificationStore {
+  addToDigest(scraperId: string, channelId: string, items: DigestItem[], kind?: DigestKind): Promise<void>;
+  getDigest(scraperId: string, channelId: string, kind?: DigestKind): Promise<PendingDigest>;
+  clearDigest(scraperId: string, channelId: string, sentAt: string, kind?: DigestKind): Promise<void>;
+  incrementSentCount(scraperId: string, channelId: string, windowStart: string): Promise<number>;
+  // Delivery keys (see getDeliveryKey) let redelivered queue messages skip channels that already succeeded
+  hasDelivered(deliveryKey: string): Promise<boolean>;
+  recordDelivery(deliveryKey: string): Promise<void>;
+}
+
+// Hands payloads to whatever sends them to immediate channels
+export interface NotificationDispatcher {
+  dispatch(payloads: NotificationPayload[]): Promise<void>;
 }
 
 export interface SecretsConfig {
@@ -70,8 +359,45 @@ export interface SecretsConfig {
   'telegram-chat-id': string;
   'pushover-user-key': string;
   'pushover-app-token': string;
+  [name: string]: string | undefined; // Any key can be referenced from channel settings as "<key>-from-secrets"
 }
 
 export interface AppConfig {
   scrapers: ScraperConfig[];
+  homes?: HomeConfig[]; // Distances are measured from the nearest; defaults to each scraper's search location
+  exchangeRates?: ExchangeRates;
+  rateLimits?: RateLimitSettings;
+}
+
+// Marketplace → request rate settings, over the defaults in RATE_LIMITS
+export type RateLimitSettings = { [K in Marketplace]?: RateLimitConfig };
+
+export interface RateLimitConfig {
+  intervalMs?: number; // Average time between requests to the marketplace
+  burst?: number; // Requests allowed back to back before the interval applies
+  hostIntervalMs?: number; // Average time between requests to one host, such as one Craigslist city site; default intervalMs
+  hostBurst?: number; // Default burst
+}
+
+// A token bucket kept as the time its next token is due (GCRA), so one number covers rate and burst
+export interface RateLimitBucket {
+  nextAt: number; // Epoch ms
+  blockedUntil?: number; // Epoch ms; set after a 429 or checkpoint page
+  strikes?: number; // Back-to-back blocks, for the doubling backoff
+}
+
+export interface RateLimitStore {
+  // Apply `update` to a bucket atomically, retrying when another process changed it first
+  updateRateLimitBucket(key: string, update: (bucket: RateLimitBucket | null) => RateLimitBucket): Promise<RateLimitBucket>;
+}
+
+// ISO 4217 code → US dollars per unit, e.g. { "CAD": 0.73 }; lets price settings apply across currencies
+export type ExchangeRates = Record<string, number>;
+
+// A place to measure listing distances from, by location or coordinates
+export interface HomeConfig {
+  name: string;
+  location?: string; // "Seattle, WA 98101", looked up in the bundled gazetteer
+  latitude?: number;
+  longitude?: number;
 }
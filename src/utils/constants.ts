@@ -1,11 +1,48 @@
-export const SUPPORTED_MARKETPLACES = ['facebook', 'craigslist', 'ebay'] as const;
-
 export const DEFAULT_SCROLL_DEPTH = 3;
 export const DEFAULT_PRICE_DROP_THRESHOLD = 0.1; // 10%
+export const DEFAULT_CURRENCY = 'USD'; // For listings and scrapers that don't name one
+export const PRICE_LOCALE = 'en-US'; // Number formatting for prices in alerts; currencies show as "CA$1,200" or "€300"
 export const DEFAULT_MAX_CONCURRENT_SCRAPERS = 5;
 
 export const CACHE_TTL_SECONDS = 300; // 5 minutes
 export const LISTING_TTL_DAYS = 30;
+export const DELIVERY_RECORD_TTL_DAYS = 4; // SQS's default message retention
+export const RUN_RECORD_TTL_DAYS = 1; // Scheduler runs are kept until their last job reports
+export const TRACKED_LISTINGS_LIMIT = 1000; // Listings checked per run for removals and relists
+export const DEFAULT_ENRICHMENT_LIMIT = 10; // Detail pages fetched per run when enrichment is enabled
+export const DEFAULT_MARKET_VALUE_SAMPLES = 10; // Stored listings needed before a listing's price is scored
+
+export const NOTIFICATION_TYPES = [
+  'new_listing',
+  'price_drop',
+  'price_increase',
+  'auction_ending',
+  'listing_removed',
+  'relisted',
+] as const;
+
+export const DEFAULT_ALERTS = {
+  newListing: true,
+  priceDrop: true,
+  priceIncrease: false,
+  listingRemoved: true,
+  relisted: true,
+  removedAfterMissedRuns: 3,
+  groupDuplicates: true,
+};
+
+// Likely duplicates are within this fraction of each other's price and share
+// this fraction of title words, or have images within this many bits
+export const DUPLICATE_PRICE_TOLERANCE = 0.1;
+export const DUPLICATE_TITLE_SIMILARITY = 0.6;
+export const DUPLICATE_IMAGE_HASH_DISTANCE = 6;
+
+export const DIGEST_INTERVALS = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+export const DIGEST_MAX_ITEMS = 20; // Items listed in one digest message; the rest are summarized
+export const DESCRIPTION_PREVIEW_LENGTH = 200; // Characters of a listing description shown in alerts
 
 export const NOTIFICATION_TIMEOUTS = {
   slack: 10000,
@@ -19,19 +56,33 @@ export const SCRAPER_TIMEOUTS = {
   ebay: 45000,
 };
 
+// Default politeness per marketplace: one request every intervalMs on average, and up to
+// `burst` back to back; see services/rate-limiter.ts
 export const RATE_LIMITS = {
-  facebook: 2000, // 2 seconds between requests
-  craigslist: 1000,
-  ebay: 1000,
+  facebook: { intervalMs: 2000, burst: 2 },
+  craigslist: { intervalMs: 1000, burst: 3 },
+  ebay: { intervalMs: 1000, burst: 3 },
+};
+
+// After a 429 or checkpoint page, pause for initialMs, doubling on each repeat up to maxMs;
+// the doubling starts over once a pause has been over for resetAfterMs
+export const RATE_LIMIT_BACKOFF = {
+  initialMs: 30 * 1000,
+  maxMs: 15 * 60 * 1000,
+  resetAfterMs: 30 * 60 * 1000,
 };
 
 export const ERROR_MESSAGES = {
   SCRAPER_NOT_FOUND: 'Scraper configuration not found',
   SCRAPER_DISABLED: 'Scraper is disabled',
   INVALID_MARKETPLACE: 'Unsupported marketplace type',
+  INVALID_CHANNEL: 'Unsupported notification channel',
+  INVALID_CONFIG: 'Invalid configuration',
   MISSING_SECRETS: 'Required secrets not configured',
   NETWORK_ERROR: 'Network request failed',
   PARSE_ERROR: 'Failed to parse listing data',
   NOTIFICATION_FAILED: 'Failed to send notification',
   DATABASE_ERROR: 'Database operation failed',
+  RATE_LIMITED: 'Marketplace asked for fewer requests',
+  CHECKPOINT: 'Marketplace showed a checkpoint page',
 } as const;
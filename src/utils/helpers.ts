@@ -1,12 +1,39 @@
+import {
+  DigestKind,
+  Listing,
+  ListingFingerprint,
+  NotificationPayload,
+  PriceHistoryEntry,
+  QuietHoursConfig,
+  SecretsConfig,
+} from '../types';
+import { DUPLICATE_IMAGE_HASH_DISTANCE, DUPLICATE_PRICE_TOLERANCE, DUPLICATE_TITLE_SIMILARITY } from './constants';
+import { formatPrice } from './prices';
+
 export const sleep = (ms: number): Promise<void> => {
   return new Promise(resolve => setTimeout(resolve, ms));
 };
 
-export const formatPrice = (price: number): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(price);
+/**
+ * Run `task`, rejecting with `message` once `ms` pass. The rejection only
+ * stops the wait, so the task is given a signal that aborts at the same
+ * time and should stop at it. Without `ms` the signal never aborts.
+ */
+export const withTimeout = <T>(task: (signal: AbortSignal) => Promise<T>, ms: number | undefined, message: string): Promise<T> => {
+  const controller = new AbortController();
+  if (ms === undefined) {
+    return task(controller.signal);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(message);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+  return Promise.race([task(controller.signal), timeout]).finally(() => clearTimeout(timer));
 };
 
 export const formatDate = (date: string | Date): string => {
@@ -20,11 +47,216 @@ export const formatDate = (date: string | Date): string => {
   });
 };
 
+export const formatTimeRemaining = (endTime: string | Date, now: Date = new Date()): string => {
+  const end = typeof endTime === 'string' ? new Date(endTime) : endTime;
+  const totalMinutes = Math.max(0, Math.round((end.getTime() - now.getTime()) / 60000));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+};
+
 export const calculatePriceDropPercentage = (oldPrice: number, newPrice: number): number => {
   if (oldPrice <= 0) return 0;
   return ((oldPrice - newPrice) / oldPrice) * 100;
 };
 
+export const resolvePriceHistory = (listing: Listing): PriceHistoryEntry[] => {
+  if (listing.priceHistory && listing.priceHistory.length > 0) {
+    return listing.priceHistory;
+  }
+
+  // Listings stored before history was tracked only kept the last change
+  if (listing.previousPrice !== undefined && listing.previousPrice !== listing.price) {
+    return [
+      { price: listing.previousPrice, timestamp: listing.firstSeen },
+      { price: listing.price, timestamp: listing.lastSeen },
+    ];
+  }
+
+  return [{ price: listing.price, timestamp: listing.firstSeen }];
+};
+
+/**
+ * Summarize how a listing's price moved since it was first seen, e.g.
+ * "down 25% from original $12,000 over 9 days". Returns null until the
+ * price has changed at least once.
+ */
+export const describePriceHistory = (listing: Listing): string | null => {
+  const history = resolvePriceHistory(listing);
+  if (history.length < 2) {
+    return null;
+  }
+
+  const original = history[0];
+  const latest = history[history.length - 1];
+  const days = Math.max(1, Math.round(
+    (new Date(latest.timestamp).getTime() - new Date(original.timestamp).getTime()) / (24 * 60 * 60 * 1000)
+  ));
+  const period = `over ${days} day${days === 1 ? '' : 's'}`;
+  const changes = `${history.length - 1} change${history.length === 2 ? '' : 's'}`;
+
+  if (listing.price === original.price) {
+    return `back to original ${formatPrice(original.price, listing.currency)} ${period} (${changes})`;
+  }
+
+  const percentage = Math.abs(calculatePriceDropPercentage(original.price, listing.price));
+  const direction = listing.price < original.price ? 'down' : 'up';
+
+  return `${direction} ${percentage.toFixed(0)}% from original ${formatPrice(original.price, listing.currency)} ${period} (${changes})`;
+};
+
+export const getDaysListed = (listing: Listing): number => {
+  const end = listing.removedAt || listing.lastSeen;
+  return Math.max(1, Math.round(
+    (new Date(end).getTime() - new Date(listing.firstSeen).getTime()) / (24 * 60 * 60 * 1000)
+  ));
+};
+
+const titleWords = (title: string): Set<string> => {
+  return new Set(title.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+};
+
+// Share of words the two sets have in common (Jaccard index)
+const wordSimilarity = (first: Set<string>, second: Set<string>): number => {
+  const shared = [...first].filter(word => second.has(word)).length;
+  return shared / (first.size + second.size - shared || 1);
+};
+
+/**
+ * Whether a newly seen listing looks like a removed listing put back up by
+ * the same seller: matching seller, nearly the same title and a price within
+ * 30% of the last asking price.
+ */
+export const isLikelyRelist = (removed: Listing, candidate: Listing): boolean => {
+  if (!removed.seller || !candidate.seller || removed.seller.toLowerCase() !== candidate.seller.toLowerCase()) {
+    return false;
+  }
+
+  const similarity = wordSimilarity(titleWords(removed.title), titleWords(candidate.title));
+
+  return similarity >= 0.8 && Math.abs(candidate.price - removed.price) <= removed.price * 0.3;
+};
+
+// Words that say nothing about which item is for sale
+const FILLER_WORDS = new Set(['a', 'an', 'and', 'the', 'for', 'with', 'sale', 'obo', 'firm', 'great', 'good', 'excellent', 'condition']);
+
+/**
+ * The parts of a listing that stay the same when one item is cross-posted or
+ * found by two searches: title words, price band, town and, when the scraper
+ * provides one, a perceptual hash of the main image.
+ */
+export const getFingerprint = (listing: Listing): ListingFingerprint => ({
+  titleWords: [...titleWords(listing.title)].filter(word => !FILLER_WORDS.has(word)).sort(),
+  // Bands are DUPLICATE_PRICE_TOLERANCE wide, so close prices share a band or sit in neighbouring ones
+  priceBand: listing.price > 0 ? Math.floor(Math.log(listing.price) / Math.log(1 + DUPLICATE_PRICE_TOLERANCE)) : 0,
+  // "Seattle, WA" → "seattle"
+  location: listing.location.split(',')[0].toLowerCase().replace(/[^a-z0-9]/g, ''),
+  ...(listing.imageHash ? { imageHash: listing.imageHash.toLowerCase() } : {}),
+});
+
+// Stored on each listing so likely duplicates can be looked up by town and price band
+export const getFingerprintKey = (listing: Listing): string => {
+  const { location, priceBand } = getFingerprint(listing);
+  return `${location}#${priceBand}`;
+};
+
+// Fingerprint keys that may hold duplicates of the listing: its own band and both neighbours
+export const getDuplicateSearchKeys = (listing: Listing): string[] => {
+  const { location, priceBand } = getFingerprint(listing);
+  return [priceBand - 1, priceBand, priceBand + 1].map(band => `${location}#${band}`);
+};
+
+/**
+ * Whether two listings are likely the same item: same town, prices within
+ * DUPLICATE_PRICE_TOLERANCE, and either similar titles or near-identical
+ * images. Listings from two different known sellers are never duplicates.
+ */
+export const isLikelyDuplicate = (first: Listing, second: Listing): boolean => {
+  if (first.seller && second.seller && first.seller.toLowerCase() !== second.seller.toLowerCase()) {
+    return false;
+  }
+
+  const a = getFingerprint(first);
+  const b = getFingerprint(second);
+
+  if (a.location !== b.location || Math.abs(first.price - second.price) > Math.max(first.price, second.price) * DUPLICATE_PRICE_TOLERANCE) {
+    return false;
+  }
+
+  if (a.imageHash && b.imageHash && imageHashDistance(a.imageHash, b.imageHash) <= DUPLICATE_IMAGE_HASH_DISTANCE) {
+    return true;
+  }
+
+  return wordSimilarity(new Set(a.titleWords), new Set(b.titleWords)) >= DUPLICATE_TITLE_SIMILARITY;
+};
+
+// Number of differing bits between two hex hashes
+const imageHashDistance = (first: string, second: string): number => {
+  if (first.length !== second.length) {
+    return Infinity;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < first.length; i++) {
+    let bits = parseInt(first[i], 16) ^ parseInt(second[i], 16);
+    for (; bits; bits &= bits - 1) {
+      distance++;
+    }
+  }
+  return distance;
+};
+
+// Listings for the same item share the group of the first one seen
+export const getDuplicateGroup = (listing: Listing): string => {
+  return listing.duplicateGroup || `${listing.scraperId}:${listing.listingId}`;
+};
+
+// "22:30" → minutes since midnight
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `now` falls inside the quiet hours, evaluated in their timezone.
+ * Windows that cross midnight ("22:00" to "07:00") are supported.
+ */
+export const isWithinQuietHours = (quietHours: QuietHoursConfig, now: Date = new Date()): boolean => {
+  const localTime = new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: quietHours.timezone || 'UTC',
+  }).format(now);
+
+  const current = toMinutes(localTime);
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+// Storage slot for a channel instance's pending digest; scheduled digests use the bare channel id
+export const getDigestSlot = (channelId: string, kind: DigestKind = 'scheduled'): string => {
+  return kind === 'scheduled' ? channelId : `${channelId}:${kind}`;
+};
+
+/**
+ * Identifies one event for a listing on one channel instance. A redelivered
+ * message carries the same lastSeen, while the same kind of event on a later
+ * run (another price drop, a second relist) does not.
+ */
+export const getDeliveryKey = (payload: NotificationPayload, channelId: string): string => {
+  const { scraper, listing, type } = payload;
+  return `${scraper.id}#${listing.listingId}#${type}@${listing.lastSeen}#${channelId}`;
+};
+
 export const isValidEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
@@ -39,6 +271,14 @@ export const isValidUrl = (url: string): boolean => {
   }
 };
 
+// "slack-webhook-url-from-secrets" → secrets['slack-webhook-url']; other values are used as-is
+export const resolveSecret = (value: string, secrets: SecretsConfig): string => {
+  if (value.includes('-from-secrets')) {
+    return secrets[value.replace('-from-secrets', '')] || '';
+  }
+  return value;
+};
+
 export const sanitizeString = (str: string): string => {
   return str.trim().replace(/[^\w\s-]/gi, '');
 };
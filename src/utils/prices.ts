@@ -0,0 +1,138 @@
+import { ExchangeRates, Listing, PriceStatus, ScraperConfig } from '../types';
+import { DEFAULT_CURRENCY, PRICE_LOCALE } from './constants';
+
+/**
+ * Prices as marketplaces show them: "$1,200", "CA$1,200", "€300", "1.200,50 €",
+ * "$1.2K", "Free" or "Contact for price". Scrapers parse them into an amount,
+ * an ISO 4217 currency and a status, and notifications format amounts in the
+ * listing's own currency.
+ */
+
+export interface ParsedPrice {
+  price: number; // 0 when the listing is free or has no price
+  currency: string;
+  status: PriceStatus;
+}
+
+// Symbols with their country prefix ("CA$", "C $") or alone; a bare "$" is the scraper's currency
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  US$: 'USD',
+  CA$: 'CAD',
+  C$: 'CAD',
+  AU$: 'AUD',
+  A$: 'AUD',
+  NZ$: 'NZD',
+  MX$: 'MXN',
+  HK$: 'HKD',
+  R$: 'BRL',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+const CURRENCY_CODES = new Set([
+  'USD', 'CAD', 'AUD', 'NZD', 'MXN', 'HKD', 'BRL', 'EUR', 'GBP', 'JPY', 'INR', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK',
+]);
+
+const FREE_PATTERN = /^(?:free|gratis)!*$/i;
+const CONTACT_PATTERN = /^(?:(?:contact|call|ask|message|email|text)\b.*|price on request|make (?:an )?offer|best offer|obo|negotiable|tbd|poa|see description)$/i;
+
+// Currency before or after the amount, and a K or M multiplier
+const PRICE_PATTERN = /^([A-Z]{3}|[A-Z]{0,2} ?[$€£¥₹])? *(\d[\d.,' ]*?) *([km])? *([A-Z]{3}|[$€£¥₹])?$/i;
+
+// Separators are guessed per amount: "1,200" and "1.200" are thousands, "12,50" and "1.2" decimals
+const parseAmount = (text: string): number => {
+  const digits = text.replace(/[' ]/g, '');
+  const separators = digits.replace(/\d/g, '');
+  const lastSeparator = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  const fraction = digits.slice(lastSeparator + 1);
+  const isDecimal = new Set(separators).size > 1 || (separators.length === 1 && fraction.length !== 3);
+
+  const whole = digits.slice(0, isDecimal ? lastSeparator : undefined).replace(/[.,]/g, '');
+  return parseFloat(isDecimal ? `${whole}.${fraction}` : whole);
+};
+
+const toCurrency = (marker: string | undefined, defaultCurrency: string): string | undefined => {
+  if (!marker) {
+    return defaultCurrency;
+  }
+  const symbol = marker.replace(/ /g, '').toUpperCase();
+  if (symbol === '$') {
+    return defaultCurrency;
+  }
+  return CURRENCY_SYMBOLS[symbol] ?? (CURRENCY_CODES.has(symbol) ? symbol : undefined);
+};
+
+/**
+ * Parse a marketplace's price text. Ranges ("$20.00 to $35.00") use the low
+ * end, and a listing that shows no price at all is "contact for price".
+ * Returns undefined for text that isn't a price, so callers can pick the
+ * price out of a listing card's spans.
+ */
+export const parsePrice = (text: string, defaultCurrency: string = DEFAULT_CURRENCY): ParsedPrice | undefined => {
+  const value = text.replace(/\s+/g, ' ').trim(); // Including the non-breaking spaces in "1 200 €"
+
+  if (FREE_PATTERN.test(value)) {
+    return { price: 0, currency: defaultCurrency, status: 'free' };
+  }
+  if (value === '' || CONTACT_PATTERN.test(value)) {
+    return { price: 0, currency: defaultCurrency, status: 'contact' };
+  }
+
+  const [low] = value.split(/ (?:to|-|–) /i);
+  const match = low.match(PRICE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  // "$100 CAD" is in the currency named after it
+  const [, before, amount, multiplier, after] = match;
+  const currency = toCurrency(after || before, defaultCurrency);
+  const price = parseAmount(amount) * ({ k: 1000, m: 1000000 }[multiplier?.toLowerCase() as 'k' | 'm'] ?? 1);
+  if (!currency || isNaN(price)) {
+    return undefined;
+  }
+
+  return { price: Math.round(price * 100) / 100, currency, status: 'listed' };
+};
+
+// "$9,000", "CA$1,200" or "€12.50"; whole amounts leave out the cents
+export const formatPrice = (price: number, currency: string = DEFAULT_CURRENCY): string => {
+  const wholeAmount = Number.isInteger(price) ? { minimumFractionDigits: 0, maximumFractionDigits: 0 } : {};
+  return new Intl.NumberFormat(PRICE_LOCALE, { style: 'currency', currency, ...wholeAmount }).format(price);
+};
+
+// A listing's asking price, or what it says instead of one
+export const describePrice = (listing: Pick<Listing, 'price' | 'currency' | 'priceStatus'>): string => {
+  if (listing.priceStatus === 'free') {
+    return 'Free';
+  }
+  if (listing.priceStatus === 'contact') {
+    return 'Contact for price';
+  }
+  return formatPrice(listing.price, listing.currency);
+};
+
+/**
+ * Convert between currencies with the configured rates (US dollars per unit;
+ * USD is 1 unless given). Undefined when either rate is missing.
+ */
+export const convertPrice = (amount: number, from: string, to: string, rates: ExchangeRates = {}): number | undefined => {
+  if (from === to) {
+    return amount;
+  }
+  const rate = (currency: string): number | undefined => rates[currency] ?? (currency === 'USD' ? 1 : undefined);
+  const fromRate = rate(from);
+  const toRate = rate(to);
+  return fromRate !== undefined && toRate !== undefined ? (amount * fromRate) / toRate : undefined;
+};
+
+// A listing's price in the scraper's currency, for comparing with its price settings; as listed when there is no rate
+export const getComparablePrice = (listing: Listing, config: ScraperConfig, rates?: ExchangeRates): number => {
+  const from = listing.currency ?? DEFAULT_CURRENCY;
+  const to = config.currency ?? DEFAULT_CURRENCY;
+  return convertPrice(listing.price, from, to, rates) ?? listing.price;
+};
+
+export const isSupportedCurrency = (code: string): boolean => CURRENCY_CODES.has(code);
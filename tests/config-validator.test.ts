@@ -0,0 +1,241 @@
+import { validateAppConfig, ConfigValidationError, findSecretReferences } from '../src/services/config-validator';
+
+const validScraper = {
+  id: 'honda-civic',
+  name: 'Honda Civic',
+  enabled: true,
+  marketplace: 'facebook',
+  query: 'honda civic',
+  location: 'Seattle, WA',
+  radius: 25,
+  priceMin: 5000,
+  priceMax: 15000,
+  includeKeywords: ['manual'],
+  scrollDepth: 3,
+  priceDropThreshold: 0.1,
+  notifications: {
+    slack: {
+      enabled: true,
+      webhook: 'slack-webhook-url-from-secrets',
+    },
+  },
+};
+
+const secrets = { 'slack-webhook-url': 'https://hooks.slack.com/services/T/B/X' };
+
+describe('validateAppConfig', () => {
+  it('should accept a valid configuration', () => {
+    expect(validateAppConfig({ scrapers: [validScraper] }, secrets)).toEqual([]);
+  });
+
+  it('should report every problem with its JSON path', () => {
+    const issues = validateAppConfig({
+      scrapers: [
+        { ...validScraper, radius: -5, priceDropThreshold: 10, includeKeyword: ['stick'] },
+        { ...validScraper, marketplace: 'offerup', priceMin: 20000 },
+      ],
+    }, secrets);
+
+    expect(issues).toEqual(expect.arrayContaining([
+      { path: '$.scrapers[0].radius', message: 'must be at least 0, got -5' },
+      { path: '$.scrapers[0].priceDropThreshold', message: 'must be a fraction between 0 and 1, got 10 (for 10% use 0.1)' },
+      { path: '$.scrapers[0].includeKeyword', message: 'unknown field (did you mean "includeKeywords"?)' },
+      { path: '$.scrapers[1].marketplace', message: 'unsupported marketplace "offerup" (supported: facebook, craigslist, ebay)' },
+      { path: '$.scrapers[1].priceMin', message: 'must not exceed priceMax (20000 > 15000)' },
+      { path: '$.scrapers[1].id', message: 'duplicate scraper id "honda-civic" (also used by $.scrapers[0])' },
+    ]));
+    expect(issues).toHaveLength(6);
+  });
+
+  it('should check channel delivery modes', () => {
+    const notifications = { slack: { ...validScraper.notifications.slack, delivery: 'weekly' } };
+
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, notifications }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].notifications.slack.delivery', message: 'must be one of "immediate", "batch", "hourly", "daily", got "weekly"' },
+    ]);
+  });
+
+  it('should check email channel settings', () => {
+    const notifications = {
+      email: {
+        enabled: true,
+        host: 'smtp.example.com',
+        tls: 'ssl',
+        password: 'smtp-password-from-secrets',
+        from: 'Peddler <alerts.example.com>',
+        to: ['family@example.com', 'not-an-address'],
+      },
+    };
+
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, notifications }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].notifications.email.tls', message: 'must be one of "implicit", "starttls", "none", got "ssl"' },
+      { path: '$.scrapers[0].notifications.email.to[1]', message: 'is not a valid email address: "not-an-address"' },
+      { path: '$.scrapers[0].notifications.email.from', message: 'is not a valid email address: "Peddler <alerts.example.com>"' },
+      { path: '$.scrapers[0].notifications.email.password', message: 'references secret "smtp-password", which is not set' },
+    ]);
+  });
+
+  it('should check Discord, ntfy and webhook channel settings', () => {
+    const notifications = {
+      discord: { enabled: true, webhook: 'discord.com/api/webhooks/1' },
+      ntfy: { enabled: true, topic: 'peddler-alerts', priority: 6, tags: ['car'] },
+      webhook: { enabled: true, url: 'https://example.com/hook', secret: 'webhook-secret-from-secrets', headers: { 'X-Team': 1 } },
+    };
+
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, notifications }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].notifications.ntfy.priority', message: 'must be at most 5, got 6' },
+      { path: '$.scrapers[0].notifications.webhook.headers.X-Team', message: 'expected a string, got number 1' },
+      { path: '$.scrapers[0].notifications.discord.webhook', message: 'must be a URL or a "-from-secrets" reference' },
+      { path: '$.scrapers[0].notifications.webhook.secret', message: 'references secret "webhook-secret", which is not set' },
+    ]);
+  });
+
+  it('should accept a list of channels and require unique ids per type', () => {
+    const notifications = [
+      { type: 'slack', enabled: true, webhook: 'https://hooks.slack.com/services/T/B/1' },
+      { type: 'slack', enabled: true, webhook: 'https://hooks.slack.com/services/T/B/2' },
+      { type: 'slack', id: 'family', enabled: true, webhook: 'https://hooks.slack.com/services/T/B/3' },
+      { type: 'telegram', enabled: true, botToken: 'telegram-bot-token-from-secrets' },
+      { type: 'carrier-pigeon', enabled: true },
+    ];
+
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, notifications }] }, secrets)).toEqual([
+      {
+        path: '$.scrapers[0].notifications[4].type',
+        message: 'must be one of "slack", "telegram", "pushover", "email", "discord", "ntfy", "webhook", got "carrier-pigeon"',
+      },
+      {
+        path: '$.scrapers[0].notifications[1].id',
+        message: 'duplicate channel id "slack" (also used by $.scrapers[0].notifications[0]); give each channel of the same type a unique id',
+      },
+      { path: '$.scrapers[0].notifications[3].botToken', message: 'references secret "telegram-bot-token", which is not set' },
+      { path: '$.scrapers[0].notifications[3].chatId', message: 'is required when telegram is enabled' },
+    ]);
+  });
+
+  it('should check filter expressions', () => {
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, filter: 'manual (2015 OR 2016) NOT salvage' }] }, secrets)).toEqual([]);
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, filter: 'manual AND price < cheap' }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].filter', message: 'invalid filter: expected a number after "price <" but found "cheap" at character 20' },
+    ]);
+  });
+
+  it('should check home points', () => {
+    const homes = [
+      { name: 'Home', location: 'Ballard, Seattle, WA' },
+      { name: 'Work', latitude: 47.6205, longitude: -122.3493 },
+      { name: 'Cabin', location: 'Nowhere Junction, WA' },
+      { name: 'Boat', latitude: 47.6 },
+      { name: 'Office' },
+    ];
+    expect(validateAppConfig({ homes, scrapers: [{ ...validScraper, maxDistance: 0 }] }, secrets)).toEqual([
+      {
+        path: '$.homes[2].location',
+        message: 'unknown location "Nowhere Junction, WA"; use a larger nearby city, a ZIP code, or latitude and longitude',
+      },
+      { path: '$.homes[3]', message: 'latitude and longitude must be set together' },
+      { path: '$.homes[4]', message: 'needs a location or latitude and longitude' },
+      { path: '$.scrapers[0].maxDistance', message: 'must be greater than 0, got 0' },
+    ]);
+  });
+
+  it('should check market value settings', () => {
+    const marketValue = { enabled: true, bucketBy: 'keyword', alertBelowPercentile: 120 };
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, marketValue }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].marketValue.alertBelowPercentile', message: 'must be at most 100, got 120' },
+      { path: '$.scrapers[0].marketValue.keywords', message: 'is required when bucketBy is "keyword"' },
+    ]);
+  });
+
+  it('should check schedules', () => {
+    const schedule = { every: '2h', cron: '0 0 31 2 *', activeHours: [{ start: '8:00', end: '22:00', days: ['monday'] }] };
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, schedule }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].schedule.cron', message: 'invalid cron expression: cron expression "0 0 31 2 *" never matches' },
+      { path: '$.scrapers[0].schedule.activeHours[0].start', message: 'expected a time such as "22:00", got "8:00"' },
+      { path: '$.scrapers[0].schedule.activeHours[0].days[0]', message: 'expected one of sun, mon, tue, wed, thu, fri, sat, got "monday"' },
+      { path: '$.scrapers[0].schedule', message: 'needs either every or cron, not both' },
+    ]);
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, schedule: { every: 'hourly' } }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].schedule.every', message: 'expected an interval such as "15m", "2h" or "1d", got "hourly"' },
+    ]);
+  });
+
+  it('should check rate limits per marketplace', () => {
+    const rateLimits = { facebook: { intervalMs: 5000, burst: 0 }, craigslist: { hostBurst: 1.5 }, offerup: {} };
+    expect(validateAppConfig({ rateLimits, scrapers: [validScraper] }, secrets)).toEqual([
+      { path: '$.rateLimits.facebook.burst', message: 'must be at least 1, got 0' },
+      { path: '$.rateLimits.craigslist.hostBurst', message: 'must be a whole number, got 1.5' },
+      { path: '$.rateLimits.offerup', message: 'unknown field' },
+    ]);
+  });
+
+  it('should check currencies and exchange rates', () => {
+    const config = { exchangeRates: { CAD: 0.73, XYZ: 2, EUR: 0 }, scrapers: [{ ...validScraper, currency: 'cad' }] };
+    expect(validateAppConfig(config, secrets)).toEqual([
+      { path: '$.exchangeRates.XYZ', message: 'expected a supported ISO 4217 currency code such as "USD" or "CAD", got "XYZ"' },
+      { path: '$.exchangeRates.EUR', message: 'must be greater than 0, got 0' },
+      { path: '$.scrapers[0].currency', message: 'expected a supported ISO 4217 currency code such as "USD" or "CAD", got "cad"' },
+    ]);
+  });
+
+  it('should check message templates', () => {
+    const templates = {
+      slack: { new_listing: '{{title}} for {{price}}', price_drop: '{{#if previousPrice}}was {{previousPrice}}' },
+      telegram: { sold: '{{title}}' },
+      webhook: { new_listing: '{{title}}' },
+    };
+
+    expect(validateAppConfig({ scrapers: [{ ...validScraper, templates }] }, secrets)).toEqual([
+      { path: '$.scrapers[0].templates.slack.price_drop', message: 'invalid template: {{#if previousPrice}} is never closed' },
+      { path: '$.scrapers[0].templates.telegram.sold', message: 'unknown field' },
+      { path: '$.scrapers[0].templates.webhook', message: 'unknown field' },
+    ]);
+  });
+
+  it('should report missing required fields', () => {
+    const partial: Record<string, unknown> = { ...validScraper };
+    delete partial.query;
+    delete partial.scrollDepth;
+
+    expect(validateAppConfig({ scrapers: [partial] })).toEqual([
+      { path: '$.scrapers[0].query', message: 'is required' },
+      { path: '$.scrapers[0].scrollDepth', message: 'is required' },
+    ]);
+    expect(validateAppConfig({})).toEqual([{ path: '$.scrapers', message: 'is required' }]);
+  });
+
+  it('should require credentials for enabled channels and resolve secret references', () => {
+    const issues = validateAppConfig({
+      scrapers: [{
+        ...validScraper,
+        notifications: {
+          slack: { enabled: true, webhook: 'slack-webhook-url-from-secrets' },
+          telegram: { enabled: true, botToken: 'telegram-bot-token-from-secrets' },
+          pushover: { enabled: false },
+        },
+      }],
+    }, {});
+
+    expect(issues).toEqual([
+      { path: '$.scrapers[0].notifications.slack.webhook', message: 'references secret "slack-webhook-url", which is not set' },
+      { path: '$.scrapers[0].notifications.telegram.botToken', message: 'references secret "telegram-bot-token", which is not set' },
+      { path: '$.scrapers[0].notifications.telegram.chatId', message: 'is required when telegram is enabled' },
+    ]);
+  });
+
+  it('should skip secret resolution when no secrets are given', () => {
+    expect(validateAppConfig({ scrapers: [validScraper] })).toEqual([]);
+  });
+
+  it('should list the secret references it could not check', () => {
+    expect(findSecretReferences({ scrapers: [validScraper] })).toEqual([
+      { path: '$.scrapers[0].notifications.slack.webhook', message: 'references secret "slack-webhook-url", which was not checked' },
+    ]);
+  });
+
+  it('should list the issues in the error message', () => {
+    const error = new ConfigValidationError([{ path: '$.scrapers[0].radius', message: 'is required' }]);
+
+    expect(error.message).toBe('Invalid configuration:\n  $.scrapers[0].radius: is required');
+  });
+});
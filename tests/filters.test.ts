@@ -0,0 +1,115 @@
+import { createListingFilter, extractMileage, extractYear, findFilterError } from '../src/services/filters';
+import { Listing, ScraperConfig } from '../src/types';
+
+const scraper: ScraperConfig = {
+  id: 'civic',
+  name: 'Honda Civic',
+  enabled: true,
+  marketplace: 'facebook',
+  query: 'honda civic',
+  location: 'Seattle, WA',
+  radius: 25,
+  scrollDepth: 1,
+  priceDropThreshold: 0.1,
+  notifications: {},
+};
+
+const makeListing = (title: string, price = 9000, overrides: Partial<Listing> = {}): Listing => ({
+  scraperId: 'civic',
+  listingId: '1',
+  title,
+  price,
+  location: 'Seattle, WA',
+  url: 'https://example.com/1',
+  firstSeen: '2024-03-01T00:00:00.000Z',
+  lastSeen: '2024-03-01T00:00:00.000Z',
+  expiresAt: 0,
+  ...overrides,
+});
+
+const matches = (filter: string, title: string, price?: number, overrides?: Partial<Listing>): boolean => {
+  return createListingFilter({ ...scraper, filter })(makeListing(title, price, overrides));
+};
+
+describe('createListingFilter', () => {
+  it('should match whole words rather than substrings', () => {
+    expect(matches('mt', '2015 Civic 6 speed MT')).toBe(true);
+    expect(matches('mt', 'Mountain bike')).toBe(false);
+    expect(matches('mount*', 'Mountain bike')).toBe(true);
+    expect(matches('"low miles"', 'Civic, low  miles!')).toBe(true);
+    expect(matches('/\\bex-?l\\b/i', 'Civic EX-L')).toBe(true);
+  });
+
+  it('should combine terms with boolean operators', () => {
+    const filter = 'manual AND (2015 OR 2016) AND NOT salvage';
+
+    expect(matches(filter, '2016 Civic manual')).toBe(true);
+    expect(matches(filter, '2017 Civic manual')).toBe(false);
+    expect(matches(filter, '2015 Civic manual salvage')).toBe(false);
+    expect(matches('manual (2015 or 2016) not salvage', '2015 Civic Manual')).toBe(true);
+    expect(matches('automatic OR cvt manual', '2015 Civic CVT')).toBe(false);
+  });
+
+  it('should compare price, listing fields and values read from the title', () => {
+    expect(matches('price < 9.5k', 'Civic', 9000)).toBe(true);
+    expect(matches('price >= $10,000', 'Civic', 9000)).toBe(false);
+    expect(matches('year >= 2015 AND mileage <= 120000', '2015 Civic EX 118k miles')).toBe(true);
+    expect(matches('mileage < 100000', '2015 Civic EX 118,000 mi')).toBe(false);
+    expect(matches('bids = 0', 'Canon 50mm', 85, { auction: { currentBid: 85, bidCount: 0 } })).toBe(true);
+    expect(matches('seller ~ /^lens_/ AND location ~ seattle', 'Canon 50mm', 85, { seller: 'lens_outlet' })).toBe(true);
+    expect(matches('NOT description ~ "salvage title" AND mileage < 100k', '2015 Civic', 9000, { description: 'Clean title, 88k miles' })).toBe(true);
+    expect(matches('condition ~ "like new"', 'Canon 50mm', 85, { condition: 'Used - Like New' })).toBe(true);
+
+    // Listings without the value never pass a comparison
+    expect(matches('year >= 2015', 'Civic EX')).toBe(false);
+    expect(matches('NOT year < 2015', 'Civic EX')).toBe(true);
+  });
+
+  it('should keep applying price bounds and keyword lists', () => {
+    const filter = createListingFilter({ ...scraper, priceMax: 10000, includeKeywords: ['manual', 'stick'], excludeKeywords: ['salvage'] });
+
+    expect(filter(makeListing('Civic 6-speed manual'))).toBe(true);
+    expect(filter(makeListing('Civic stickshift'))).toBe(true);
+    expect(filter(makeListing('Civic manual', 12000))).toBe(false);
+    expect(filter(makeListing('Civic manual, salvage title'))).toBe(false);
+    expect(filter(makeListing('Civic automatic'))).toBe(false);
+  });
+
+  it('should compare prices in the scraper\'s currency', () => {
+    const filter = createListingFilter({ ...scraper, currency: 'CAD', priceMax: 10000, filter: 'price >= 5k' }, { CAD: 0.75 });
+
+    expect(filter(makeListing('Civic', 7000, { currency: 'USD' }))).toBe(true); // CA$9,333
+    expect(filter(makeListing('Civic', 8000, { currency: 'USD' }))).toBe(false); // CA$10,667
+    expect(filter(makeListing('Civic', 4000, { currency: 'USD' }))).toBe(true); // CA$5,333
+    expect(filter(makeListing('Civic', 4000, { currency: 'CAD' }))).toBe(false);
+    // Without an asking price, the bounds pass and price comparisons don't
+    expect(createListingFilter({ ...scraper, priceMin: 1000 })(makeListing('Civic', 0, { priceStatus: 'contact' }))).toBe(true);
+    expect(filter(makeListing('Civic', 0, { priceStatus: 'contact' }))).toBe(false);
+  });
+});
+
+describe('findFilterError', () => {
+  it('should describe invalid filters', () => {
+    expect(findFilterError('manual (2015 OR 2016) NOT salvage AND price < 12k')).toBeUndefined();
+    expect(findFilterError('manual (2015 OR 2016')).toBe('expected ")" to close the "(" at character 8 but found end of filter');
+    expect(findFilterError('manual OR')).toBe('expected a word, "phrase" or /regex/ but found end of filter');
+    expect(findFilterError('price < cheap')).toBe('expected a number after "price <" but found "cheap" at character 9');
+    expect(findFilterError('colour ~ red')).toBe('unknown field "colour" at character 1; fields are title, location, seller, description, condition, price, year, mileage, bids, distance');
+    expect(findFilterError('title < 5')).toBe('title is text; match it with ~ instead of <');
+    expect(findFilterError('/(/')).toMatch(/^invalid regular expression \/\(\//);
+    expect(findFilterError('"manual')).toBe('unexpected """ at character 1');
+    expect(findFilterError('  ')).toBe('filter is empty');
+  });
+});
+
+describe('title value extraction', () => {
+  it('should read the model year and mileage from titles', () => {
+    expect(extractYear('2015 Honda Civic EX')).toBe(2015);
+    expect(extractYear('Civic for $2,015')).toBeUndefined();
+    expect(extractYear('Honda generator 2200 watts')).toBeUndefined();
+    expect(extractMileage('Civic EX 120k miles')).toBe(120000);
+    expect(extractMileage('Civic EX - 85,000 mi, clean title')).toBe(85000);
+    expect(extractMileage('Civic EX mileage: 64500')).toBe(64500);
+    expect(extractMileage('Civic EX low miles')).toBeUndefined();
+  });
+});
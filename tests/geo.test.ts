@@ -0,0 +1,98 @@
+import { distanceInMiles, findPlace, getState, locateListing, resolveHomePoints } from '../src/services/geo';
+import { Listing, ScraperConfig } from '../src/types';
+
+const scraper: ScraperConfig = {
+  id: 'civic',
+  name: 'Honda Civic',
+  enabled: true,
+  marketplace: 'craigslist',
+  query: 'honda civic',
+  location: 'Seattle, WA',
+  radius: 25,
+  scrollDepth: 1,
+  priceDropThreshold: 0.1,
+  notifications: {},
+};
+
+const makeListing = (location: string, overrides: Partial<Listing> = {}): Listing => ({
+  scraperId: 'civic',
+  listingId: '1',
+  title: '2015 Honda Civic',
+  price: 9000,
+  location,
+  url: 'https://example.com/1',
+  firstSeen: '2024-03-01T00:00:00.000Z',
+  lastSeen: '2024-03-01T00:00:00.000Z',
+  expiresAt: 0,
+  ...overrides,
+});
+
+describe('findPlace', () => {
+  it('should read the state from abbreviations and full names', () => {
+    expect(getState('Seattle, WA 98101')).toBe('WA');
+    expect(getState('Portland, Oregon, United States')).toBe('OR');
+    expect(getState('Ballard')).toBeUndefined();
+  });
+
+  it('should use the state to tell same-named places apart', () => {
+    expect(findPlace('Portland, OR')?.name).toBe('Portland, OR');
+    expect(findPlace('Portland, Maine')?.name).toBe('Portland, ME');
+    expect(findPlace('Fremont', 'WA')?.name).toBe('Fremont, WA');
+    expect(findPlace('Fremont')?.name).toBe('Fremont, CA');
+  });
+
+  it('should find neighborhoods and the parts of longer locations', () => {
+    expect(findPlace('Ballard, Seattle, WA')?.name).toBe('Ballard, WA');
+    expect(findPlace('Bellevue / Kirkland')?.name).toBe('Bellevue, WA');
+    expect(findPlace('Nowhere Junction, WA')).toBeUndefined();
+  });
+
+  it('should prefer ZIP codes and fall back to nearby ones', () => {
+    expect(findPlace('Seattle, WA 98107')).toEqual({ name: '98107', latitude: 47.6707, longitude: -122.3766 });
+    expect(findPlace('98199')?.latitude).toBeCloseTo(47.65, 1);
+    expect(findPlace('00001')).toBeUndefined();
+  });
+});
+
+describe('distanceInMiles', () => {
+  it('should measure great-circle distances', () => {
+    const seattle = findPlace('Seattle, WA')!;
+    expect(distanceInMiles(seattle, seattle)).toBe(0);
+    expect(distanceInMiles(seattle, findPlace('Portland, OR')!)).toBeCloseTo(145, 0);
+  });
+});
+
+describe('locateListing', () => {
+  it('should measure from the search location when no homes are configured', () => {
+    const homes = resolveHomePoints(undefined, scraper);
+    const listing = makeListing('Tacoma, WA');
+
+    locateListing(listing, scraper, homes);
+
+    expect(listing).toMatchObject({ coordinates: { latitude: 47.2529, longitude: -122.4443 }, distance: 25 });
+    expect(listing).not.toHaveProperty('nearestHome');
+  });
+
+  it('should name the nearest of several homes and prefer the listing\'s own coordinates', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const homes = resolveHomePoints([
+      { name: 'Home', location: 'Seattle, WA' },
+      { name: 'Work', latitude: 47.2529, longitude: -122.4443 },
+      { name: 'Cabin', location: 'Nowhere Junction, WA' },
+    ], scraper);
+    warn.mockRestore();
+
+    const pinned = makeListing('Seattle, WA', { coordinates: { latitude: 47.26, longitude: -122.44 } });
+    locateListing(pinned, scraper, homes);
+
+    expect(homes.map(home => home.name)).toEqual(['Home', 'Work']);
+    expect(pinned).toMatchObject({ distance: 0.5, nearestHome: 'Work' });
+  });
+
+  it('should leave listings that only repeat the search location unplaced', () => {
+    const listing = makeListing('Seattle, WA');
+    locateListing(listing, scraper, resolveHomePoints(undefined, scraper));
+    expect(listing.coordinates).toBeUndefined();
+    expect(listing.distance).toBeUndefined();
+  });
+});
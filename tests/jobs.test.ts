@@ -0,0 +1,82 @@
+import { createScrapeJob, createScrapeJobDispatcher, runScrapeJob } from '../src/services/jobs';
+import { InMemoryDatabaseService } from '../src/services/memory-database';
+import { ScraperService } from '../src/services/scraper';
+import { ScraperConfig, ScrapingResult } from '../src/types';
+
+const scraper = (id: string, marketplace: ScraperConfig['marketplace']): ScraperConfig => ({
+  id,
+  name: id,
+  enabled: true,
+  marketplace,
+  query: 'honda civic',
+  location: 'Seattle, WA',
+  radius: 25,
+  scrollDepth: 1,
+  priceDropThreshold: 0.1,
+  notifications: {},
+});
+
+const result = (scraperId: string, overrides: Partial<ScrapingResult> = {}): ScrapingResult => ({
+  scraperId,
+  success: true,
+  newListings: [],
+  priceDrops: [],
+  endingAuctions: [],
+  priceIncreases: [],
+  removedListings: [],
+  relistedListings: [],
+  totalFound: 3,
+  executionTime: 100,
+  ...overrides,
+});
+
+describe('scrape jobs', () => {
+  let log: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should take each job\'s timeout from its marketplace', () => {
+    expect(createScrapeJob('run-1', scraper('civic', 'facebook'))).toEqual({ runId: 'run-1', scraperId: 'civic', timeoutMs: 60000 });
+    expect(createScrapeJob('run-1', scraper('bikes', 'craigslist')).timeoutMs).toBe(45000);
+  });
+
+  it('should run jobs with their timeouts and summarize the run after the last one', async () => {
+    const store = new InMemoryDatabaseService();
+    const executeScraper = jest.fn(async (scraperId: string) => scraperId === 'bikes'
+      ? result(scraperId, { success: false, error: 'Scraper bikes timed out after 45000ms', totalFound: 0 })
+      : result(scraperId));
+    const scraperService = { executeScraper } as unknown as ScraperService;
+
+    await store.startRun('run-1', 2, new Date().toISOString());
+    const jobs = [createScrapeJob('run-1', scraper('civic', 'facebook')), createScrapeJob('run-1', scraper('bikes', 'craigslist'))];
+    await createScrapeJobDispatcher(scraperService, store, 'in-process').dispatch(jobs);
+
+    expect(executeScraper.mock.calls).toEqual([['civic', 60000], ['bikes', 45000]]);
+    const summaries = log.mock.calls.filter(([line]) => String(line).includes('Scheduler Summary'));
+    expect(summaries).toEqual([['\n=== Scheduler Summary (run run-1) ===']]);
+    expect(log).toHaveBeenCalledWith('Failed: 1');
+    expect(log).toHaveBeenCalledWith('Total listings found: 3');
+    expect(log).toHaveBeenCalledWith('❌ bikes: Scraper bikes timed out after 45000ms (100ms)');
+  });
+
+  it('should keep the scrape result when the run can\'t be found', async () => {
+    const store = new InMemoryDatabaseService();
+    const scraperService = { executeScraper: jest.fn().mockResolvedValue(result('civic')) } as unknown as ScraperService;
+
+    const scraped = await runScrapeJob({ runId: 'missing', scraperId: 'civic', timeoutMs: 1000 }, scraperService, store);
+
+    expect(scraped.success).toBe(true);
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown dispatchers', () => {
+    expect(() => createScrapeJobDispatcher({} as ScraperService, new InMemoryDatabaseService(), 'lambda'))
+      .toThrow('Unsupported scrape job dispatcher: lambda. Supported: sqs, in-process');
+  });
+});
@@ -0,0 +1,74 @@
+import { createMarketValueEstimator, getPercentile, getPriceBucket } from '../src/services/market-value';
+import { Listing } from '../src/types';
+
+const makeListing = (listingId: string, title: string, price: number, overrides: Partial<Listing> = {}): Listing => ({
+  scraperId: 'civic',
+  listingId,
+  title,
+  price,
+  location: 'Seattle, WA',
+  url: `https://example.com/${listingId}`,
+  firstSeen: '2024-03-01T00:00:00.000Z',
+  lastSeen: '2024-03-01T00:00:00.000Z',
+  expiresAt: 0,
+  ...overrides,
+});
+
+// Five 2015 Civics from $9,000 to $11,000 and five 2012s from $6,000 to $8,000
+const history = [
+  ...[9000, 9500, 10000, 10500, 11000].map((price, i) => makeListing(`a${i}`, '2015 Honda Civic EX', price)),
+  ...[6000, 6500, 7000, 7500, 8000].map((price, i) => makeListing(`b${i}`, '2012 Honda Civic LX', price)),
+];
+
+describe('getPercentile', () => {
+  it('should interpolate between ranks', () => {
+    expect(getPercentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(getPercentile([10, 20, 30], 25)).toBe(15);
+    expect(getPercentile([7], 90)).toBe(7);
+  });
+});
+
+describe('getPriceBucket', () => {
+  it('should bucket by model year or the first matching keyword', () => {
+    const listing = makeListing('1', '2015 Civic Si Coupe', 9000);
+    expect(getPriceBucket(listing, { enabled: true, bucketBy: 'year' })).toBe('2015');
+    expect(getPriceBucket(listing, { enabled: true, bucketBy: 'keyword', keywords: ['Type R', 'Si', 'EX'] })).toBe('Si');
+    expect(getPriceBucket(listing, { enabled: true })).toBeUndefined();
+  });
+});
+
+describe('createMarketValueEstimator', () => {
+  it('should compare prices with every stored listing', () => {
+    const estimate = createMarketValueEstimator(history, { enabled: true });
+
+    expect(estimate(makeListing('new', '2015 Honda Civic', 6100))).toEqual({
+      typicalPrice: 8500,
+      percentile: 10,
+      difference: 28,
+      sampleSize: 10,
+    });
+    expect(estimate(makeListing('new', '2015 Honda Civic', 11000))?.difference).toBe(-29);
+  });
+
+  it('should compare within a bucket once it has enough listings', () => {
+    const estimate = createMarketValueEstimator(history, { enabled: true, bucketBy: 'year', minSamples: 5 });
+
+    expect(estimate(makeListing('new', '2015 Honda Civic', 9000))).toEqual({
+      typicalPrice: 10000,
+      percentile: 10,
+      difference: 10,
+      sampleSize: 5,
+      bucket: '2015',
+    });
+    // Too few 2018s, so every listing is compared
+    expect(estimate(makeListing('new', '2018 Honda Civic', 9000))).toMatchObject({ typicalPrice: 8500, sampleSize: 10 });
+  });
+
+  it('should leave out the listing itself, relisted copies and listings without enough history', () => {
+    const relisted = makeListing('old', '2015 Honda Civic', 1, { relistedAs: 'a0' });
+    const estimate = createMarketValueEstimator([...history, relisted], { enabled: true, minSamples: 10 });
+
+    expect(estimate(history[0])).toBeUndefined();
+    expect(createMarketValueEstimator(history, { enabled: true, minSamples: 9 })(history[0])?.sampleSize).toBe(9);
+  });
+});
@@ -0,0 +1,544 @@
+import { createHmac } from 'crypto';
+import net from 'net';
+import axios from 'axios';
+import { SQSRecord } from 'aws-lambda';
+import { NotificationService } from '../src/services/notification';
+import { processNotificationRecords } from '../src/handlers/notifier';
+import { InMemoryDatabaseService } from '../src/services/memory-database';
+import { isWithinQuietHours } from '../src/utils/helpers';
+import { ChannelConfig, Listing, NotificationPayload, ScraperConfig, SecretsConfig } from '../src/types';
+
+jest.mock('axios');
+
+const mockedAxios = jest.mocked(axios);
+
+const secrets: SecretsConfig = {
+  'facebook-cookies': '',
+  'slack-webhook-url': 'https://hooks.slack.com/test',
+  'telegram-bot-token': 'test-token',
+  'telegram-chat-id': 'test-chat',
+  'pushover-user-key': 'test-key',
+  'pushover-app-token': 'test-token',
+};
+
+const scraper: ScraperConfig = {
+  id: 'civic',
+  name: 'Honda Civic',
+  enabled: true,
+  marketplace: 'facebook',
+  query: 'honda civic',
+  location: 'Seattle, WA',
+  radius: 25,
+  scrollDepth: 1,
+  priceDropThreshold: 0.1,
+  notifications: {
+    slack: { enabled: true, webhook: 'slack-webhook-url-from-secrets' },
+    telegram: { enabled: true, botToken: 'telegram-bot-token-from-secrets', chatId: 'telegram-chat-id-from-secrets', delivery: 'batch' },
+    pushover: { enabled: true, userKey: 'pushover-user-key-from-secrets', appToken: 'pushover-app-token-from-secrets', delivery: 'hourly' },
+  },
+};
+
+const makePayload = (listingId: string, overrides: Partial<NotificationPayload> = {}): NotificationPayload => {
+  const listing: Listing = {
+    scraperId: 'civic',
+    listingId,
+    title: `Civic <${listingId}>`,
+    price: 9000,
+    location: 'Seattle, WA',
+    url: `https://example.com/${listingId}`,
+    firstSeen: '2024-03-01T00:00:00.000Z',
+    lastSeen: '2024-03-01T00:00:00.000Z',
+    expiresAt: 0,
+  };
+  return { type: 'new_listing', listing, scraper, ...overrides };
+};
+
+const postedTo = (host: string): unknown[] => {
+  return mockedAxios.post.mock.calls.filter(([url]) => url.includes(host)).map(([, body]) => body);
+};
+
+describe('NotificationService delivery modes', () => {
+  let store: InMemoryDatabaseService;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00.000Z') });
+    mockedAxios.post.mockReset().mockResolvedValue({ data: {} });
+    store = new InMemoryDatabaseService();
+    service = new NotificationService(secrets, store);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should only send individual messages to immediate channels', async () => {
+    await service.sendNotifications(makePayload('1'));
+
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    expect(mockedAxios.post.mock.calls[0][0]).toBe('https://hooks.slack.com/test');
+  });
+
+  it('should send one message per run to batch channels', async () => {
+    await service.sendBatchedNotifications(scraper, [
+      makePayload('1'),
+      makePayload('2', { type: 'price_drop', priceDropPercentage: 12.5 }),
+    ]);
+
+    const [message] = postedTo('api.telegram.org') as { text: string }[];
+    expect(postedTo('api.telegram.org')).toHaveLength(1);
+    expect(message.text).toContain('Honda Civic: 2 updates');
+    expect(message.text).toContain('1 new, 1 price drop');
+    expect(message.text).toContain('📉 -12.5% <a href="https://example.com/2">Civic &lt;2&gt;</a> - $9,000');
+  });
+
+  it('should hold hourly digest items until the period has passed', async () => {
+    await service.sendBatchedNotifications(scraper, [makePayload('1')]);
+    jest.setSystemTime(new Date('2024-03-01T12:30:00.000Z'));
+    await service.sendBatchedNotifications(scraper, [makePayload('2')]);
+
+    expect(postedTo('api.pushover.net')).toHaveLength(0);
+    expect((await store.getDigest('civic', 'pushover')).items).toHaveLength(2);
+
+    jest.setSystemTime(new Date('2024-03-01T13:00:00.000Z'));
+    await service.sendBatchedNotifications(scraper, []);
+
+    expect(postedTo('api.pushover.net')).toEqual([
+      expect.objectContaining({ title: 'Honda Civic: 2 new', message: '🆕 Civic <1> - $9,000\n🆕 Civic <2> - $9,000' }),
+    ]);
+    expect(await store.getDigest('civic', 'pushover')).toEqual({ items: [], lastSentAt: '2024-03-01T13:00:00.000Z' });
+  });
+
+  it('should format batched Slack messages as blocks', async () => {
+    const slackBatch = { ...scraper, notifications: { slack: { enabled: true, webhook: 'https://hooks.slack.com/x', delivery: 'batch' as const } } };
+    const payloads = Array.from({ length: 22 }, (_, index) => makePayload(String(index), { scraper: slackBatch }));
+
+    await service.sendBatchedNotifications(slackBatch, payloads);
+
+    const [message] = postedTo('hooks.slack.com') as { blocks: { type: string; text?: { text: string } }[] }[];
+    expect(message.blocks[0].text!.text).toBe('📬 Honda Civic: 22 updates');
+    expect(message.blocks.filter(block => block.type === 'section')).toHaveLength(20);
+    expect(message.blocks[3].text!.text).toContain('<https://example.com/0|Civic &lt;0&gt;>');
+    expect(JSON.stringify(message.blocks.at(-1))).toContain('…and 2 more');
+  });
+});
+
+describe('NotificationService quiet hours and rate limits', () => {
+  let store: InMemoryDatabaseService;
+  let service: NotificationService;
+
+  const quietScraper: ScraperConfig = {
+    ...scraper,
+    notifications: {
+      slack: {
+        enabled: true,
+        webhook: 'https://hooks.slack.com/x',
+        quietHours: { start: '22:00', end: '07:00', timezone: 'America/Los_Angeles' },
+      },
+      pushover: {
+        enabled: true,
+        userKey: 'pushover-user-key-from-secrets',
+        appToken: 'pushover-app-token-from-secrets',
+        quietHours: { start: '22:00', end: '07:00', timezone: 'America/Los_Angeles', mode: 'low_priority' },
+      },
+    },
+  };
+
+  beforeEach(() => {
+    // 23:30 in Los Angeles
+    jest.useFakeTimers({ now: new Date('2024-03-01T07:30:00.000Z') });
+    mockedAxios.post.mockReset().mockResolvedValue({ data: {} });
+    store = new InMemoryDatabaseService();
+    service = new NotificationService(secrets, store);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hold alerts during quiet hours and send them once they end', async () => {
+    await service.sendNotifications(makePayload('1', { scraper: quietScraper }));
+    await service.sendBatchedNotifications(quietScraper, []);
+
+    expect(postedTo('hooks.slack.com')).toHaveLength(0);
+    expect(postedTo('api.pushover.net')).toEqual([expect.objectContaining({ priority: -1 })]);
+
+    // 07:15 in Los Angeles
+    jest.setSystemTime(new Date('2024-03-01T15:15:00.000Z'));
+    await service.sendBatchedNotifications(quietScraper, []);
+
+    const [digest] = postedTo('hooks.slack.com') as { blocks: unknown[] }[];
+    expect(JSON.stringify(digest.blocks)).toContain('Civic &lt;1&gt;');
+    expect((await store.getDigest('civic', 'slack', 'held')).items).toHaveLength(0);
+  });
+
+  it('should let urgent alerts through quiet hours', async () => {
+    await service.sendNotifications(makePayload('1', { scraper: quietScraper, urgent: true }));
+
+    expect(postedTo('hooks.slack.com')).toHaveLength(1);
+    expect(postedTo('api.pushover.net')).toEqual([expect.objectContaining({ priority: 1 })]);
+  });
+
+  it('should roll notifications over the hourly limit into a summary', async () => {
+    const limited: ScraperConfig = {
+      ...scraper,
+      notifications: { slack: { enabled: true, webhook: 'https://hooks.slack.com/x', maxPerHour: 2 } },
+    };
+    const payloads = ['1', '2', '3', '4'].map(id => makePayload(id, { scraper: limited }));
+
+    await Promise.all(payloads.map(payload => service.sendNotifications(payload)));
+    await service.sendBatchedNotifications(limited, payloads);
+
+    const messages = postedTo('hooks.slack.com') as { blocks?: { text?: { text: string } }[] }[];
+    expect(messages).toHaveLength(3);
+    expect(messages[2].blocks![0].text!.text).toBe('📬 Honda Civic: 2 updates');
+
+    // A new hour resets the limit
+    jest.setSystemTime(new Date('2024-03-01T08:00:00.000Z'));
+    await service.sendNotifications(makePayload('5', { scraper: limited }));
+    expect(postedTo('hooks.slack.com')).toHaveLength(4);
+  });
+});
+
+describe('NotificationService channel lists', () => {
+  beforeEach(() => {
+    mockedAxios.post.mockReset().mockResolvedValue({ data: {} });
+  });
+
+  it('should deliver to every instance of a channel type separately', async () => {
+    const store = new InMemoryDatabaseService();
+    const listScraper: ScraperConfig = {
+      ...scraper,
+      notifications: [
+        { type: 'slack', id: 'family', enabled: true, webhook: 'https://hooks.slack.com/family' },
+        { type: 'slack', id: 'me', enabled: true, webhook: 'https://hooks.slack.com/me', delivery: 'batch' },
+        { type: 'slack', id: 'old', enabled: false, webhook: 'https://hooks.slack.com/old' },
+        { type: 'telegram', enabled: true, botToken: 'bot', chatId: 'chat-1', delivery: 'hourly' },
+      ],
+    };
+    const service = new NotificationService(secrets, store);
+    const payloads = [makePayload('1', { scraper: listScraper }), makePayload('2', { scraper: listScraper })];
+
+    for (const payload of payloads) {
+      await service.sendNotifications(payload);
+    }
+    await service.sendBatchedNotifications(listScraper, payloads);
+
+    expect(postedTo('hooks.slack.com/family')).toHaveLength(2);
+    expect(postedTo('hooks.slack.com/me')).toEqual([expect.objectContaining({ text: 'Honda Civic: 2 new' })]);
+    expect(postedTo('hooks.slack.com/old')).toHaveLength(0);
+    expect((await store.getDigest('civic', 'telegram')).items).toHaveLength(2);
+  });
+});
+
+describe('isWithinQuietHours', () => {
+  it('should handle windows that cross midnight in the configured timezone', () => {
+    const quietHours = { start: '22:00', end: '07:00', timezone: 'Europe/Berlin' };
+
+    expect(isWithinQuietHours(quietHours, new Date('2024-07-01T21:30:00.000Z'))).toBe(true); // 23:30 CEST
+    expect(isWithinQuietHours(quietHours, new Date('2024-07-01T05:30:00.000Z'))).toBe(false); // 07:30 CEST
+    expect(isWithinQuietHours({ start: '09:00', end: '17:00' }, new Date('2024-07-01T12:00:00.000Z'))).toBe(true);
+  });
+});
+
+// Minimal SMTP server that accepts every message and keeps the raw data
+const startSmtpSink = async (): Promise<{ port: number; messages: string[]; close: () => Promise<void> }> => {
+  const messages: string[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let readingData = false;
+
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      for (;;) {
+        const end = buffer.indexOf(readingData ? '\r\n.\r\n' : '\r\n');
+        if (end === -1) break;
+
+        if (readingData) {
+          messages.push(buffer.slice(0, end));
+          buffer = buffer.slice(end + 5);
+          readingData = false;
+          socket.write('250 OK\r\n');
+          continue;
+        }
+
+        const command = buffer.slice(0, 4).toUpperCase();
+        buffer = buffer.slice(end + 2);
+
+        if (command === 'EHLO' || command === 'HELO') {
+          socket.write('250 sink\r\n');
+        } else if (command === 'DATA') {
+          readingData = true;
+          socket.write('354 Go ahead\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    port: (server.address() as net.AddressInfo).port,
+    messages,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+};
+
+describe('NotificationService email channel', () => {
+  it('should send multipart HTML and plain text email over SMTP', async () => {
+    const sink = await startSmtpSink();
+
+    try {
+      const emailScraper: ScraperConfig = {
+        ...scraper,
+        notifications: {
+          email: {
+            enabled: true,
+            host: '127.0.0.1',
+            port: sink.port,
+            tls: 'none',
+            from: 'Peddler <alerts@example.com>',
+            to: ['family@example.com', 'me@example.com'],
+          },
+        },
+      };
+      const payload = makePayload('1', { scraper: emailScraper, type: 'price_drop', priceDropPercentage: 10 });
+      payload.listing = { ...payload.listing, previousPrice: 10000, imageUrl: 'https://example.com/civic.jpg' };
+
+      await new NotificationService(secrets).sendNotifications(payload);
+
+      expect(sink.messages).toHaveLength(1);
+      const raw = sink.messages[0].replace(/=\r\n/g, '').replace(/=3D/g, '=');
+      expect(raw).toContain('Subject: [Peddler] Price Drop (-10.0%): Civic <1>');
+      expect(raw).toContain('To: family@example.com, me@example.com');
+      expect(raw).toMatch(/Content-Type: multipart\/alternative/);
+      expect(raw).toContain('Previous Price: $10,000');
+      expect(raw).toContain('<img src="https://example.com/civic.jpg"');
+      expect(raw).toContain('Civic &lt;1&gt;');
+    } finally {
+      await sink.close();
+    }
+  });
+
+  it('should escape scraped URLs in the HTML body', async () => {
+    const sink = await startSmtpSink();
+
+    try {
+      const emailScraper: ScraperConfig = {
+        ...scraper,
+        notifications: {
+          email: { enabled: true, host: '127.0.0.1', port: sink.port, tls: 'none', from: 'alerts@example.com', to: ['me@example.com'] },
+        },
+      };
+      const payload = makePayload('1', { scraper: emailScraper });
+      payload.listing = { ...payload.listing, url: 'https://example.com/1?a="><b>x</b>', imageUrl: 'https://example.com/1.jpg"onerror="alert(1)' };
+
+      await new NotificationService(secrets).sendNotifications(payload);
+
+      const raw = sink.messages[0].replace(/=\r\n/g, '').replace(/=3D/g, '=');
+      expect(raw).toContain('href="https://example.com/1?a=&quot;&gt;&lt;b&gt;x&lt;/b&gt;"');
+      expect(raw).toContain('src="https://example.com/1.jpg&quot;onerror=&quot;alert(1)"');
+    } finally {
+      await sink.close();
+    }
+  });
+});
+
+describe('NotificationService Discord, ntfy and webhook channels', () => {
+  const channelScraper: ScraperConfig = {
+    ...scraper,
+    notifications: {
+      discord: { enabled: true, webhook: 'https://discord.com/api/webhooks/1/abc' },
+      ntfy: { enabled: true, topic: 'peddler-civic', token: 'ntfy-token-from-secrets', priority: 4, tags: ['car'] },
+      webhook: { enabled: true, url: 'https://example.com/hook', secret: 'webhook-secret-from-secrets' },
+    },
+  };
+  const channelSecrets: SecretsConfig = { ...secrets, 'ntfy-token': 'tk_test', 'webhook-secret': 'shh' };
+
+  beforeEach(() => {
+    mockedAxios.post.mockReset().mockResolvedValue({ data: {} });
+  });
+
+  it('should send a Discord embed', async () => {
+    const payload = makePayload('1', { scraper: channelScraper, type: 'price_drop', priceDropPercentage: 10 });
+    payload.listing = { ...payload.listing, previousPrice: 10000, imageUrl: 'https://example.com/civic.jpg' };
+
+    await new NotificationService(channelSecrets).sendNotifications(payload);
+
+    const [embed] = (postedTo('discord.com')[0] as { embeds: Record<string, unknown>[] }).embeds;
+    expect(embed).toMatchObject({
+      title: 'Civic <1>',
+      url: 'https://example.com/1',
+      description: '📉 Price Drop (-10.0%)',
+      image: { url: 'https://example.com/civic.jpg' },
+    });
+    expect(embed.fields).toContainEqual({ name: 'Previous Price', value: '$10,000', inline: true });
+  });
+
+  it('should publish to ntfy with the configured priority and raise it for urgent alerts', async () => {
+    const service = new NotificationService(channelSecrets);
+
+    await service.sendNotifications(makePayload('1', { scraper: channelScraper }));
+    await service.sendNotifications(makePayload('2', { scraper: channelScraper, urgent: true }));
+
+    const calls = mockedAxios.post.mock.calls.filter(([url]) => url === 'https://ntfy.sh');
+    expect(calls[0][1]).toMatchObject({ topic: 'peddler-civic', priority: 4, tags: ['car'], click: 'https://example.com/1' });
+    expect(calls[1][1]).toMatchObject({ priority: 5 });
+    expect(calls[0][2]).toMatchObject({ headers: { Authorization: 'Bearer tk_test' } });
+  });
+
+  it('should sign webhook bodies with the shared secret', async () => {
+    await new NotificationService(channelSecrets).sendNotifications(makePayload('1', { scraper: channelScraper }));
+
+    const [, body, options] = mockedAxios.post.mock.calls.find(([url]) => url === 'https://example.com/hook')!;
+    const expected = createHmac('sha256', 'shh').update(body as string).digest('hex');
+
+    expect(options!.headers!['X-Peddler-Signature']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body as string)).toMatchObject({
+      event: 'new_listing',
+      scraper: { id: 'civic', marketplace: 'facebook' },
+      listing: { listingId: '1', price: 9000 },
+    });
+  });
+});
+
+describe('NotificationService message templates', () => {
+  beforeEach(() => {
+    mockedAxios.post.mockReset().mockResolvedValue({ data: {} });
+  });
+
+  const templatedScraper: ScraperConfig = {
+    ...scraper,
+    notifications: [
+      { type: 'slack', enabled: true, webhook: 'slack-webhook-url-from-secrets' },
+      { type: 'telegram', enabled: true, botToken: 'telegram-bot-token-from-secrets', chatId: 'telegram-chat-id-from-secrets' },
+    ],
+    templates: {
+      slack: { price_drop: '*{{title}}* now {{price}}{{#if previousPrice}} (was {{previousPrice}}){{/if}} in {{location}}' },
+    },
+  };
+
+  it('should use the template for its channel and notification type', async () => {
+    const payload = makePayload('1', { scraper: templatedScraper, type: 'price_drop', priceDropPercentage: 10 });
+    payload.listing = { ...payload.listing, previousPrice: 10000 };
+
+    await new NotificationService(secrets).sendNotifications(payload);
+
+    expect(postedTo('hooks.slack.com')[0]).toEqual({ text: '*Civic &lt;1&gt;* now $9,000 (was $10,000) in Seattle, WA' });
+    expect(postedTo('api.telegram.org')[0]).toMatchObject({ text: expect.stringContaining('📉 <b>Price Drop (-10.0%)</b>') });
+  });
+
+  it('should escape every value in built-in Telegram messages', async () => {
+    const payload = makePayload('1', { scraper: { ...templatedScraper, name: 'Civics & Accords' } });
+    payload.listing = { ...payload.listing, location: 'Ballard <north>', url: 'https://example.com/1?a=1&b=2' };
+
+    await new NotificationService(secrets).sendNotifications(payload);
+
+    const { text } = postedTo('api.telegram.org')[0] as { text: string };
+    expect(text).toContain('<b>Location:</b> Ballard &lt;north&gt;');
+    expect(text).toContain('<b>Scraper:</b> Civics &amp; Accords');
+    expect(text).toContain('<a href="https://example.com/1?a=1&amp;b=2">View Listing</a>');
+  });
+
+  it('should fall back to the built-in format for other notification types', async () => {
+    await new NotificationService(secrets).sendNotifications(makePayload('1', { scraper: templatedScraper }));
+
+    expect(postedTo('hooks.slack.com')[0]).toMatchObject({ attachments: [{ title: '🆕 New Listing Found' }] });
+  });
+
+  it('should describe an event with the same heading and details on every channel', async () => {
+    const everyChannel: ScraperConfig = {
+      ...scraper,
+      notifications: [
+        { type: 'slack', enabled: true, webhook: 'slack-webhook-url-from-secrets' },
+        { type: 'telegram', enabled: true, botToken: 'telegram-bot-token-from-secrets', chatId: 'telegram-chat-id-from-secrets' },
+        { type: 'pushover', enabled: true, userKey: 'pushover-user-key-from-secrets', appToken: 'pushover-app-token-from-secrets' },
+      ],
+    };
+    const payload = makePayload('1', { scraper: everyChannel, type: 'price_drop', priceDropPercentage: 10 });
+    payload.listing = { ...payload.listing, previousPrice: 10000, condition: 'Used - good', postedAt: '2024-02-28T00:00:00.000Z' };
+
+    await new NotificationService(secrets).sendNotifications(payload);
+
+    const [slackMessage] = postedTo('hooks.slack.com') as { attachments: { title: string; fields: { title: string; value: string }[] }[] }[];
+    expect(slackMessage.attachments[0].title).toBe('📉 Price Drop (-10.0%)');
+    expect(slackMessage.attachments[0].fields.map(field => field.title)).toEqual(
+      ['Title', 'Price', 'Previous Price', 'Price History', 'Location', 'Condition', 'Posted']
+    );
+
+    const { text } = postedTo('api.telegram.org')[0] as { text: string };
+    expect(text).toContain('<b>Previous Price:</b> $10,000');
+    expect(text).toContain('<b>Posted:</b>');
+
+    expect(postedTo('api.pushover.net')[0]).toMatchObject({
+      title: '📉 Price Drop (-10.0%): Civic <1>',
+      message: expect.stringContaining('Location: Seattle, WA\nCondition: Used - good\nPosted: '),
+    });
+  });
+});
+
+describe('queued notification retries', () => {
+  const record = (messageId: string, payload: NotificationPayload, attempt = 1): SQSRecord => ({
+    messageId,
+    body: JSON.stringify(payload),
+    attributes: { ApproximateReceiveCount: String(attempt) },
+  }) as SQSRecord;
+
+  const slack: ChannelConfig = { type: 'slack', enabled: true, webhook: 'slack-webhook-url-from-secrets' };
+  const queuedScraper: ScraperConfig = {
+    ...scraper,
+    notifications: [
+      slack,
+      { type: 'telegram', enabled: true, botToken: 'telegram-bot-token-from-secrets', chatId: 'telegram-chat-id-from-secrets' },
+    ],
+  };
+
+  let service: NotificationService;
+
+  beforeEach(() => {
+    mockedAxios.post.mockReset().mockResolvedValue({ data: {} });
+    service = new NotificationService(secrets, new InMemoryDatabaseService());
+  });
+
+  it('should report only failed records and retry only the channels that failed', async () => {
+    mockedAxios.post.mockImplementation(async url => {
+      if (url.includes('api.telegram.org')) throw new Error('Telegram is down');
+      return { data: {} };
+    });
+    const records = [
+      record('m1', makePayload('1', { scraper: queuedScraper })),
+      record('m2', makePayload('2', { scraper: { ...queuedScraper, notifications: [slack] } })),
+    ];
+
+    expect(await processNotificationRecords(records, service)).toEqual({ batchItemFailures: [{ itemIdentifier: 'm1' }] });
+
+    mockedAxios.post.mockReset().mockResolvedValue({ data: {} });
+    expect(await processNotificationRecords([record('m1', makePayload('1', { scraper: queuedScraper }), 2)], service))
+      .toEqual({ batchItemFailures: [] });
+    expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+    expect(postedTo('api.telegram.org')).toHaveLength(1);
+  });
+
+  it('should not notify twice when a message is redelivered', async () => {
+    const payload = makePayload('1', { scraper: queuedScraper });
+
+    await processNotificationRecords([record('m1', payload)], service);
+    await processNotificationRecords([record('m1', payload, 2)], service);
+    await processNotificationRecords([record('m2', { ...payload, type: 'price_drop', listing: { ...payload.listing, price: 8000, lastSeen: '2024-03-02T00:00:00.000Z' } })], service);
+
+    expect(postedTo('hooks.slack.com')).toHaveLength(2);
+  });
+
+  it('should fail unreadable records so they reach the dead-letter queue', async () => {
+    const bad = { messageId: 'bad', body: 'not json', attributes: { ApproximateReceiveCount: '5' } } as SQSRecord;
+
+    expect(await processNotificationRecords([bad], service, 5)).toEqual({ batchItemFailures: [{ itemIdentifier: 'bad' }] });
+  });
+});
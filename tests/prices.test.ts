@@ -0,0 +1,64 @@
+import { convertPrice, describePrice, formatPrice, getComparablePrice, parsePrice } from '../src/utils/prices';
+import { Listing, ScraperConfig } from '../src/types';
+
+describe('parsePrice', () => {
+  it('should read amounts with thousands separators, cents and multipliers', () => {
+    expect(parsePrice('$1,200')).toEqual({ price: 1200, currency: 'USD', status: 'listed' });
+    expect(parsePrice('$12.99')?.price).toBe(12.99);
+    expect(parsePrice('$1.2K')?.price).toBe(1200);
+    expect(parsePrice('1.200,50 €')).toEqual({ price: 1200.5, currency: 'EUR', status: 'listed' });
+    expect(parsePrice('1 200 €')?.price).toBe(1200);
+    expect(parsePrice('$20.00 to $35.00')?.price).toBe(20);
+  });
+
+  it('should read the currency from symbols and codes', () => {
+    expect(parsePrice('CA$1,200')?.currency).toBe('CAD');
+    expect(parsePrice('C $25.00')?.currency).toBe('CAD');
+    expect(parsePrice('€300')?.currency).toBe('EUR');
+    expect(parsePrice('£45')?.currency).toBe('GBP');
+    expect(parsePrice('GBP 12.00')?.currency).toBe('GBP');
+    expect(parsePrice('$100 CAD')?.currency).toBe('CAD');
+    expect(parsePrice('$100', 'CAD')?.currency).toBe('CAD');
+  });
+
+  it('should recognize listings without an asking price', () => {
+    expect(parsePrice('Free')).toEqual({ price: 0, currency: 'USD', status: 'free' });
+    expect(parsePrice('Contact for price')?.status).toBe('contact');
+    expect(parsePrice('Make an offer')?.status).toBe('contact');
+    expect(parsePrice('')).toEqual({ price: 0, currency: 'USD', status: 'contact' });
+  });
+
+  it('should reject text that is not a price', () => {
+    expect(parsePrice('2015 Honda Civic')).toBeUndefined();
+    expect(parsePrice('Now 100')).toBeUndefined();
+    expect(parsePrice('Free couch')).toBeUndefined();
+  });
+});
+
+describe('formatPrice', () => {
+  it('should format amounts in their currency and leave out whole cents', () => {
+    expect(formatPrice(9000)).toBe('$9,000');
+    expect(formatPrice(12.5, 'EUR')).toBe('€12.50');
+    expect(formatPrice(1200, 'CAD')).toBe('CA$1,200');
+    expect(describePrice({ price: 0, priceStatus: 'free' })).toBe('Free');
+    expect(describePrice({ price: 0, priceStatus: 'contact' })).toBe('Contact for price');
+  });
+});
+
+describe('convertPrice', () => {
+  const rates = { CAD: 0.75, EUR: 1.1 };
+
+  it('should convert through US dollars', () => {
+    expect(convertPrice(100, 'CAD', 'USD', rates)).toBe(75);
+    expect(convertPrice(75, 'USD', 'CAD', rates)).toBe(100);
+    expect(convertPrice(110, 'EUR', 'CAD', rates)).toBeCloseTo(161.33, 2);
+    expect(convertPrice(100, 'GBP', 'USD', rates)).toBeUndefined();
+  });
+
+  it('should compare listings in the scraper\'s currency', () => {
+    const listing = { price: 1000, currency: 'USD' } as Listing;
+    const config = { currency: 'CAD' } as ScraperConfig;
+    expect(getComparablePrice(listing, config, rates)).toBeCloseTo(1333.33, 2);
+    expect(getComparablePrice(listing, config)).toBe(1000);
+  });
+});
@@ -0,0 +1,94 @@
+import { isThrottled, parseRetryAfter, RateLimiter } from '../src/services/rate-limiter';
+import { InMemoryDatabaseService } from '../src/services/memory-database';
+
+const SEATTLE = 'https://seattle.craigslist.org/search/sss?query=saw';
+const PORTLAND = 'https://portland.craigslist.org/search/sss?query=saw';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter(new InMemoryDatabaseService());
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.mocked(console.warn).mockRestore();
+  });
+
+  const reserveMany = async (count: number, url: string, now = 0): Promise<number[]> => {
+    const waits: number[] = [];
+    for (let i = 0; i < count; i++) {
+      waits.push(await limiter.reserve('craigslist', url, now));
+    }
+    return waits;
+  };
+
+  it('should allow a burst and then space requests by the interval', async () => {
+    // Craigslist defaults to one request a second with a burst of 3
+    expect(await reserveMany(5, SEATTLE)).toEqual([0, 0, 0, 1000, 2000]);
+    expect(await limiter.reserve('craigslist', SEATTLE, 10000)).toBe(0);
+  });
+
+  it('should limit each host on its own within the marketplace limit', async () => {
+    limiter.configure({ craigslist: { intervalMs: 100, burst: 10, hostIntervalMs: 1000, hostBurst: 1 } });
+
+    expect(await reserveMany(2, SEATTLE)).toEqual([0, 1000]);
+    expect(await limiter.reserve('craigslist', PORTLAND, 0)).toBe(0);
+    expect(limiter.getPolicy('ebay')).toEqual({ intervalMs: 1000, burst: 3, hostIntervalMs: 1000, hostBurst: 3 });
+  });
+
+  it('should pause a host after a 429, doubling the pause while they keep coming', async () => {
+    expect(await limiter.backOff('craigslist', SEATTLE, 'rate_limited', undefined, 0)).toBe(30000);
+
+    // Requests fail while paused, without taking tokens, and other hosts carry on
+    await expect(limiter.reserve('craigslist', SEATTLE, 0)).rejects.toThrow('Marketplace asked for fewer requests');
+    expect(await limiter.reserve('craigslist', PORTLAND, 0)).toBe(0);
+
+    // No burst once the pause is over
+    expect(await reserveMany(2, SEATTLE, 30000)).toEqual([0, 1000]);
+
+    expect(await limiter.backOff('craigslist', SEATTLE, 'rate_limited', undefined, 31000)).toBe(60000);
+    expect(await limiter.backOff('craigslist', SEATTLE, 'rate_limited', undefined, 91000)).toBe(120000);
+
+    // The doubling starts over once the site has been quiet for a while
+    expect(await limiter.backOff('craigslist', SEATTLE, 'rate_limited', undefined, 3 * 60 * 60 * 1000)).toBe(30000);
+  });
+
+  it('should honor a longer Retry-After and pause the whole marketplace on a checkpoint', async () => {
+    expect(await limiter.backOff('craigslist', SEATTLE, 'rate_limited', 120000, 0)).toBe(120000);
+
+    await limiter.backOff('facebook', 'https://www.facebook.com/marketplace/seattle/search', 'checkpoint', undefined, 0);
+    await expect(limiter.reserve('facebook', 'https://www.facebook.com/marketplace/item/1', 0)).rejects.toThrow(
+      'Marketplace showed a checkpoint page'
+    );
+    expect(await limiter.reserve('facebook', 'https://www.facebook.com/marketplace/item/1', 30000)).toBe(0);
+  });
+
+  it('should fail as throttled without sleeping when a pause runs past the deadline', async () => {
+    await limiter.backOff('craigslist', SEATTLE, 'rate_limited', undefined, Date.now());
+
+    const error = await limiter.acquire('craigslist', SEATTLE, Date.now() + 60000).catch((caught: unknown) => caught);
+    expect(isThrottled(error)).toBe(true);
+  });
+
+  it('should fail without taking a token when the wait is longer than allowed', async () => {
+    limiter.configure({ craigslist: { intervalMs: 100, burst: 1, hostIntervalMs: 1000, hostBurst: 1 } });
+
+    expect(await reserveMany(2, SEATTLE)).toEqual([0, 1000]);
+    await expect(limiter.reserve('craigslist', SEATTLE, 0, 1500)).rejects.toThrow('has no request free for 2s');
+
+    // The marketplace token taken before the host's wait was found too long is given back
+    expect(await limiter.reserve('craigslist', PORTLAND, 0)).toBe(200);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should read seconds and HTTP dates', () => {
+    const now = Date.parse('2024-03-01T12:00:00Z');
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('Fri, 01 Mar 2024 12:05:00 GMT', now)).toBe(300000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { getNextCronTime, getNextRunAt, isDue, isWithinActiveHours, parseCron, parseInterval } from '../src/services/schedule';
+import { runScheduledScrapers } from '../src/handlers/scheduler';
+import { InMemoryDatabaseService } from '../src/services/memory-database';
+import { ConfigService } from '../src/services/config';
+import { ScraperService } from '../src/services/scraper';
+import { InProcessScrapeJobDispatcher } from '../src/services/jobs';
+import { ScheduleConfig, ScraperConfig } from '../src/types';
+
+const at = (iso: string): Date => new Date(iso);
+
+describe('parseCron', () => {
+  it('should parse lists, ranges, steps and names', () => {
+    const cron = parseCron('*/20 7-9,18 1 jan-mar mon-fri');
+    expect([...cron.minute.values]).toEqual([0, 20, 40]);
+    expect([...cron.hour.values]).toEqual([7, 8, 9, 18]);
+    expect([...cron.month.values]).toEqual([1, 2, 3]);
+    expect([...cron.dayOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron('0 0 * * 7').dayOfWeek.values]).toEqual([0]);
+  });
+
+  it('should explain invalid expressions', () => {
+    expect(() => parseCron('0 0 * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('"60" is outside 0-59');
+    expect(() => parseCron('*/0 * * * *')).toThrow('invalid step in "*/0"');
+    expect(() => parseCron('0 0 * * someday')).toThrow('"someday" is not a number or name');
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('should find the next matching minute in the timezone', () => {
+    expect(getNextCronTime('*/15 * * * *', at('2024-03-01T10:07:30Z'))).toEqual(at('2024-03-01T10:15:00Z'));
+    expect(getNextCronTime('30 8 * * mon', at('2024-03-01T10:00:00Z'), 'America/Los_Angeles')).toEqual(at('2024-03-04T16:30:00Z'));
+    expect(getNextCronTime('0 0 29 2 *', at('2024-03-01T00:00:00Z'))).toEqual(at('2028-02-29T00:00:00Z'));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 15th of the month, or any Sunday
+    expect(getNextCronTime('0 12 15 * sun', at('2024-03-01T13:00:00Z'))).toEqual(at('2024-03-03T12:00:00Z'));
+    expect(() => getNextCronTime('0 0 31 2 *', at('2024-03-01T00:00:00Z'))).toThrow('never matches');
+  });
+});
+
+describe('isWithinActiveHours', () => {
+  const schedule: ScheduleConfig = {
+    every: '1h',
+    timezone: 'America/New_York',
+    activeHours: [{ start: '08:00', end: '20:00', days: ['mon', 'tue', 'wed', 'thu', 'fri'] }, { start: '22:00', end: '02:00', days: ['sat'] }],
+  };
+
+  it('should check windows on their days, including across midnight', () => {
+    expect(isWithinActiveHours(schedule, at('2024-03-01T14:00:00Z'))).toBe(true); // Friday 09:00
+    expect(isWithinActiveHours(schedule, at('2024-03-02T14:00:00Z'))).toBe(false); // Saturday 09:00
+    expect(isWithinActiveHours(schedule, at('2024-03-03T05:30:00Z'))).toBe(true); // Sunday 00:30, Saturday night's window
+    expect(isWithinActiveHours(schedule, at('2024-03-04T05:30:00Z'))).toBe(false); // Monday 00:30
+    expect(isWithinActiveHours({ every: '1h' }, at('2024-03-04T05:30:00Z'))).toBe(true);
+  });
+});
+
+describe('getNextRunAt and isDue', () => {
+  it('should add the interval and jitter to the last run', () => {
+    expect(parseInterval('90m')).toBe(90 * 60 * 1000);
+    expect(parseInterval('0h')).toBeUndefined();
+    expect(getNextRunAt({ every: '2h', jitterMinutes: 10 }, at('2024-03-01T10:00:00Z'), () => 0.5)).toEqual(at('2024-03-01T12:05:00Z'));
+    expect(getNextRunAt({ cron: '0 6 * * *' }, at('2024-03-01T10:00:00Z'))).toEqual(at('2024-03-02T06:00:00Z'));
+  });
+
+  it('should run unscheduled and never-run scrapers, and wait for the next run otherwise', () => {
+    const state = { lastRunAt: '2024-03-01T10:00:00.000Z', nextRunAt: '2024-03-01T12:00:00.000Z' };
+    expect(isDue(undefined, null)).toBe(true);
+    expect(isDue({ every: '2h' }, null)).toBe(true);
+    expect(isDue({ every: '2h' }, state, at('2024-03-01T11:59:00Z'))).toBe(false);
+    expect(isDue({ every: '2h' }, state, at('2024-03-01T12:00:00Z'))).toBe(true);
+    expect(isDue({ every: '2h', activeHours: [{ start: '13:00', end: '18:00' }] }, state, at('2024-03-01T12:30:00Z'))).toBe(false);
+  });
+});
+
+describe('runScheduledScrapers', () => {
+  const scraper = (id: string, schedule?: ScheduleConfig): ScraperConfig => ({
+    id,
+    name: id,
+    enabled: true,
+    marketplace: 'craigslist',
+    query: 'honda civic',
+    location: 'Seattle, WA',
+    radius: 25,
+    scrollDepth: 1,
+    priceDropThreshold: 0.1,
+    notifications: {},
+    schedule,
+  });
+
+  it('should run only due scrapers and record their next runs', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const store = new InMemoryDatabaseService();
+    await store.saveScheduleState('rare', { lastRunAt: new Date().toISOString(), nextRunAt: new Date(Date.now() + 60000).toISOString() });
+
+    const configService = {
+      getEnabledScrapers: async () => [scraper('hot'), scraper('rare', { every: '1d' }), scraper('new', { every: '2h' })],
+    } as unknown as ConfigService;
+    const executeScraper = jest.fn(async (scraperId: string) => ({
+      scraperId, success: true, newListings: [], priceDrops: [], endingAuctions: [], priceIncreases: [],
+      removedListings: [], relistedListings: [], totalFound: 0, executionTime: 1,
+    }));
+
+    const dispatcher = new InProcessScrapeJobDispatcher({ executeScraper } as unknown as ScraperService, store);
+    const jobs = await runScheduledScrapers(configService, dispatcher, store, store);
+
+    expect(jobs.map(job => job.scraperId)).toEqual(['hot', 'new']);
+    expect(executeScraper.mock.calls.map(([scraperId]) => scraperId)).toEqual(['hot', 'new']);
+    const state = await store.getScheduleState('new');
+    expect(new Date(state!.nextRunAt).getTime() - new Date(state!.lastRunAt).getTime()).toBe(2 * 60 * 60 * 1000);
+    expect(await store.getScheduleState('hot')).toBeNull();
+    jest.restoreAllMocks();
+  });
+});
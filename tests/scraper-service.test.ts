@@ -0,0 +1,443 @@
+import { SQSClient, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import * as scrapers from '../src/services/scrapers';
+import { ScraperService } from '../src/services/scraper';
+import { ConfigService } from '../src/services/config';
+import { NotificationService } from '../src/services/notification';
+import { InMemoryDatabaseService } from '../src/services/memory-database';
+import { createListingRepository } from '../src/services/storage';
+import { HomeConfig, Listing, MarketplaceScraper, NotificationPayload, ScraperConfig } from '../src/types';
+import { describePriceHistory } from '../src/utils/helpers';
+
+jest.mock('../src/services/notification');
+
+const scraperConfig: ScraperConfig = {
+  id: 'civic',
+  name: 'Honda Civic',
+  enabled: true,
+  marketplace: 'facebook',
+  query: 'honda civic',
+  location: 'Seattle, WA',
+  radius: 25,
+  scrollDepth: 1,
+  priceDropThreshold: 0.1,
+  notifications: {},
+};
+
+const makeListing = (listingId: string, price: number, overrides: Partial<Listing> = {}): Listing => ({
+  scraperId: 'civic',
+  listingId,
+  title: `Listing ${listingId}`,
+  price,
+  location: 'Seattle, WA',
+  url: `https://example.com/${listingId}`,
+  firstSeen: new Date().toISOString(),
+  lastSeen: new Date().toISOString(),
+  expiresAt: 0,
+  ...overrides,
+});
+
+describe('ScraperService processing', () => {
+  let repository: InMemoryDatabaseService;
+  let service: ScraperService;
+  let scrapeResults: Listing[];
+  let currentConfig: ScraperConfig;
+  let currentHomes: HomeConfig[] | undefined;
+  let fakeScraper: MarketplaceScraper;
+
+  beforeEach(() => {
+    currentConfig = scraperConfig;
+    currentHomes = undefined;
+    jest.mocked(NotificationService).mockClear();
+
+    fakeScraper = {
+      capabilities: { requiresBrowser: false, supportsRadius: true, supportsAuctions: false },
+      initialize: jest.fn().mockResolvedValue(undefined),
+      cleanup: jest.fn().mockResolvedValue(undefined),
+      scrape: jest.fn(async () => scrapeResults.map(listing => ({ ...listing }))),
+    };
+    jest.spyOn(scrapers, 'createScraper').mockReturnValue(fakeScraper);
+
+    const configService = {
+      getConfig: jest.fn(async () => ({ scrapers: [currentConfig], homes: currentHomes })),
+      getSecrets: jest.fn().mockResolvedValue({}),
+    } as unknown as ConfigService;
+
+    repository = new InMemoryDatabaseService();
+    service = new ScraperService(repository, configService, repository);
+  });
+
+  const sentPayloads = (): unknown[] => {
+    return jest.mocked(NotificationService).mock.instances
+      .flatMap(instance => jest.mocked(instance.sendNotifications).mock.calls.map(([payload]) => payload));
+  };
+
+  it('should store and notify new listings', async () => {
+    scrapeResults = [makeListing('1', 9000), makeListing('2', 12000)];
+
+    const result = await service.executeScraper('civic');
+
+    expect(result.success).toBe(true);
+    expect(result.newListings.map(l => l.listingId)).toEqual(['1', '2']);
+    expect(await repository.getListingsByScraperId('civic')).toHaveLength(2);
+    expect(sentPayloads()).toHaveLength(2);
+  });
+
+  it('should fail a run that outlasts its timeout and close the scraper', async () => {
+    scrapeResults = [makeListing('1', 9000)];
+    jest.mocked(fakeScraper.scrape).mockImplementationOnce(() => new Promise(() => undefined));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await service.executeScraper('civic', 50);
+
+    expect(result).toMatchObject({ success: false, error: 'Scraper civic timed out after 50ms' });
+    expect(fakeScraper.cleanup).toHaveBeenCalled();
+    expect(await repository.getListingsByScraperId('civic')).toHaveLength(0);
+    jest.mocked(console.error).mockRestore();
+  });
+
+  it('should store and send nothing from a scrape that finishes after its timeout', async () => {
+    scrapeResults = [makeListing('1', 9000)];
+    jest.mocked(fakeScraper.scrape).mockImplementationOnce(async () => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return [makeListing('1', 9000)];
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await service.executeScraper('civic', 50);
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(result).toMatchObject({ success: false, error: 'Scraper civic timed out after 50ms' });
+    expect(jest.mocked(fakeScraper.scrape).mock.calls[0][2]?.signal?.aborted).toBe(true);
+    expect(await repository.getListingsByScraperId('civic')).toHaveLength(0);
+    expect(sentPayloads()).toHaveLength(0);
+    jest.mocked(console.error).mockRestore();
+  });
+
+  it('should not count notification delivery against the timeout', async () => {
+    scrapeResults = [makeListing('1', 9000)];
+    jest.mocked(NotificationService.prototype.sendNotifications)
+      .mockImplementationOnce(() => new Promise(resolve => setTimeout(resolve, 100)));
+
+    const result = await service.executeScraper('civic', 50);
+
+    expect(result).toMatchObject({ success: true, newListings: [{ listingId: '1' }] });
+    expect(sentPayloads()).toHaveLength(1);
+  });
+
+  it('should only report price drops above the threshold', async () => {
+    scrapeResults = [makeListing('1', 10000), makeListing('2', 10000)];
+    await service.executeScraper('civic');
+
+    scrapeResults = [makeListing('1', 8500), makeListing('2', 9500)];
+    const result = await service.executeScraper('civic');
+
+    expect(result.newListings).toHaveLength(0);
+    expect(result.priceDrops.map(l => l.listingId)).toEqual(['1']);
+    expect(result.priceDrops[0]).toMatchObject({ price: 8500, previousPrice: 10000 });
+    expect((await repository.getListing('civic', '2'))!.price).toBe(9500);
+  });
+
+  it('should keep the full price history across changes', async () => {
+    scrapeResults = [makeListing('1', 12000, { lastSeen: '2024-03-01T00:00:00.000Z', firstSeen: '2024-03-01T00:00:00.000Z' })];
+    await service.executeScraper('civic');
+
+    scrapeResults = [makeListing('1', 10000, { lastSeen: '2024-03-05T00:00:00.000Z' })];
+    await service.executeScraper('civic');
+
+    scrapeResults = [makeListing('1', 10000, { lastSeen: '2024-03-07T00:00:00.000Z' })];
+    await service.executeScraper('civic');
+
+    scrapeResults = [makeListing('1', 9000, { lastSeen: '2024-03-10T00:00:00.000Z' })];
+    const result = await service.executeScraper('civic');
+
+    expect(await repository.getPriceHistory('civic', '1')).toEqual([
+      { price: 12000, timestamp: '2024-03-01T00:00:00.000Z' },
+      { price: 10000, timestamp: '2024-03-05T00:00:00.000Z' },
+      { price: 9000, timestamp: '2024-03-10T00:00:00.000Z' },
+    ]);
+    expect(result.priceDrops[0]).toMatchObject({ price: 9000, previousPrice: 10000 });
+    expect(describePriceHistory(result.priceDrops[0])).toBe('down 25% from original $12,000 over 9 days (2 changes)');
+  });
+
+  it('should only alert on price increases when enabled', async () => {
+    scrapeResults = [makeListing('1', 10000)];
+    await service.executeScraper('civic');
+
+    scrapeResults = [makeListing('1', 11000)];
+    const result = await service.executeScraper('civic');
+
+    expect(result.priceIncreases).toHaveLength(1);
+    expect(sentPayloads()).toHaveLength(1);
+
+    currentConfig = { ...scraperConfig, alerts: { priceIncrease: true } };
+    scrapeResults = [makeListing('1', 12100)];
+    await service.executeScraper('civic');
+
+    expect(sentPayloads()).toHaveLength(2);
+    expect(sentPayloads()[1]).toMatchObject({ type: 'price_increase', priceIncreasePercentage: 10 });
+  });
+
+  it('should report listings missing for consecutive runs as removed', async () => {
+    currentConfig = { ...scraperConfig, alerts: { removedAfterMissedRuns: 2 } };
+    scrapeResults = [makeListing('1', 10000), makeListing('2', 8000)];
+    await service.executeScraper('civic');
+
+    scrapeResults = [makeListing('2', 8000)];
+    expect((await service.executeScraper('civic')).removedListings).toHaveLength(0);
+
+    // Empty scrapes are treated as failures rather than misses
+    scrapeResults = [];
+    expect((await service.executeScraper('civic')).removedListings).toHaveLength(0);
+
+    scrapeResults = [makeListing('2', 8000)];
+    const result = await service.executeScraper('civic');
+
+    expect(result.removedListings.map(l => l.listingId)).toEqual(['1']);
+    expect(await repository.getListing('civic', '1')).toMatchObject({ status: 'removed', missedRuns: 2, price: 10000 });
+    expect(sentPayloads().at(-1)).toMatchObject({ type: 'listing_removed' });
+
+    scrapeResults = [makeListing('1', 9500), makeListing('2', 8000)];
+    const relistResult = await service.executeScraper('civic');
+
+    expect(relistResult.relistedListings).toMatchObject([{ listingId: '1', status: 'active', previousPrice: 10000 }]);
+    expect(relistResult.priceDrops).toHaveLength(0);
+  });
+
+  it('should keep listings that stop matching the filters instead of reporting them removed', async () => {
+    currentConfig = { ...scraperConfig, priceMax: 10000, alerts: { removedAfterMissedRuns: 1 } };
+    scrapeResults = [makeListing('1', 9000)];
+    await service.executeScraper('civic');
+
+    // Still on the page, now priced above priceMax
+    scrapeResults = [makeListing('1', 11000)];
+    const result = await service.executeScraper('civic');
+
+    expect(result.removedListings).toHaveLength(0);
+    expect(sentPayloads()).not.toContainEqual(expect.objectContaining({ type: 'listing_removed' }));
+    expect(await repository.getListing('civic', '1')).toMatchObject({ price: 11000, previousPrice: 9000 });
+    expect((await repository.getListing('civic', '1'))?.status).not.toBe('removed');
+  });
+
+  it('should treat a near-identical listing from the same seller as a relist', async () => {
+    currentConfig = { ...scraperConfig, alerts: { removedAfterMissedRuns: 1 } };
+    scrapeResults = [
+      makeListing('1', 10000, { title: '2015 Honda Civic EX manual', seller: 'dave' }),
+      makeListing('2', 8000),
+    ];
+    await service.executeScraper('civic');
+
+    scrapeResults = [makeListing('2', 8000)];
+    await service.executeScraper('civic');
+
+    scrapeResults = [
+      makeListing('2', 8000),
+      makeListing('3', 9000, { title: '2015 Honda Civic EX - manual', seller: 'Dave' }),
+      makeListing('4', 9000, { title: '2015 Honda Civic EX manual', seller: 'someone-else' }),
+    ];
+    const result = await service.executeScraper('civic');
+
+    expect(result.newListings.map(l => l.listingId)).toEqual(['4']);
+    expect(result.relistedListings).toMatchObject([{ listingId: '3', relistedFrom: '1', previousPrice: 10000 }]);
+    expect((await repository.getPriceHistory('civic', '3')).map(entry => entry.price)).toEqual([10000, 9000]);
+    expect(await repository.getListing('civic', '1')).toMatchObject({ relistedAs: '3' });
+  });
+
+  it('should alert once for an item found by several scrapers and list every place it appears', async () => {
+    const laptops: ScraperConfig = { ...scraperConfig, id: 'laptops', query: 'm2 laptop' };
+    currentConfig = scraperConfig;
+    scrapeResults = [
+      makeListing('1', 1500, { title: 'MacBook Pro 14" M2 Pro 16GB' }),
+      makeListing('2', 1450, { title: 'Macbook Pro 14 M2 Pro 16GB - great condition' }),
+      makeListing('3', 1500, { title: 'Dell XPS 13' }),
+    ];
+    const first = await service.executeScraper('civic');
+
+    currentConfig = laptops;
+    scrapeResults = [makeListing('fb-9', 1500, { scraperId: 'laptops', title: 'Apple MacBook Pro 14 M2 Pro 16GB', location: 'Seattle, Washington' })];
+    const second = await service.executeScraper('laptops');
+
+    expect(first.newListings.map(l => l.listingId)).toEqual(['1', '3']);
+    expect(second.newListings).toEqual([]);
+    expect(await repository.getListing('laptops', 'fb-9')).toMatchObject({ duplicateGroup: 'civic:1' });
+    expect(sentPayloads()).toMatchObject([
+      { listing: { listingId: '1' }, alsoListed: [{ scraperId: 'civic', listingId: '2', price: 1450 }] },
+      { listing: { listingId: '3' } },
+    ]);
+    expect(sentPayloads()[1]).not.toHaveProperty('alsoListed');
+
+    // Later alerts for the item mention the listing found by the other scraper
+    currentConfig = scraperConfig;
+    scrapeResults = [makeListing('1', 1300, { title: 'MacBook Pro 14" M2 Pro 16GB' })];
+    await service.executeScraper('civic');
+
+    const [priceDrop] = sentPayloads().slice(-1) as NotificationPayload[];
+    expect(priceDrop.alsoListed!.map(({ scraperId, listingId }) => `${scraperId}/${listingId}`).sort()).toEqual(['civic/2', 'laptops/fb-9']);
+  });
+
+  it('should only process listings that pass the filters', async () => {
+    currentConfig = {
+      ...scraperConfig,
+      priceMax: 15000,
+      excludeKeywords: ['parts'],
+      filter: 'manual (2015 OR 2016) NOT salvage AND mileage < 120k',
+    };
+    scrapeResults = [
+      makeListing('1', 9000, { title: '2015 Honda Civic EX manual, 98k miles' }),
+      makeListing('2', 9000, { title: '2016 Civic manual salvage title 60k miles' }),
+      makeListing('3', 9000, { title: '2014 Civic Si manual 80,000 mi' }),
+      makeListing('4', 9000, { title: '2016 Civic manual' }),
+      makeListing('5', 18000, { title: '2016 Civic Si manual 20k miles' }),
+      makeListing('6', 2000, { title: '2015 Civic manual for parts 150 miles' }),
+    ];
+
+    const result = await service.executeScraper('civic');
+
+    expect(result.newListings.map(l => l.listingId)).toEqual(['1']);
+    expect(result.totalFound).toBe(1);
+    expect(await repository.getListingsByScraperId('civic')).toHaveLength(1);
+  });
+
+  it('should measure distances from the nearest home and keep the nearest listings first', async () => {
+    currentConfig = { ...scraperConfig, maxDistance: 30, sortByDistance: true };
+    scrapeResults = [
+      makeListing('1', 9000, { location: 'Tacoma, WA' }),
+      makeListing('2', 9000, { location: 'Portland, OR' }),
+      makeListing('3', 9000, { location: 'Seattle, WA' }),
+      makeListing('4', 9000, { location: 'Bellevue, WA' }),
+      makeListing('5', 9000, { location: 'Nowhere Junction, WA' }),
+    ];
+
+    const result = await service.executeScraper('civic');
+
+    // Without homes, distances are from the search location, which listing 3 only repeats
+    expect(result.newListings.map(l => l.listingId)).toEqual(['4', '1', '3', '5']);
+    expect(result.newListings.map(l => l.distance)).toEqual([6.1, 25, undefined, undefined]);
+    expect(sentPayloads()[0]).toMatchObject({ listing: { listingId: '4', distance: 6.1 } });
+
+    // Stored distances follow the configured homes
+    currentHomes = [{ name: 'Home', location: 'Seattle, WA' }, { name: 'Work', location: 'Tacoma, WA' }];
+    await service.executeScraper('civic');
+    expect(await repository.getListing('civic', '1')).toMatchObject({ distance: 0, nearestHome: 'Work' });
+    expect(await repository.getListing('civic', '4')).toMatchObject({ distance: 6.1, nearestHome: 'Home' });
+  });
+
+  it('should score prices against stored listings and only alert on deals', async () => {
+    for (let i = 0; i < 10; i++) {
+      await repository.saveListing(makeListing(`old-${i}`, 8000 + i * 500));
+    }
+    currentConfig = { ...scraperConfig, marketValue: { enabled: true, alertBelowPercentile: 25 } };
+    scrapeResults = [makeListing('1', 8200), makeListing('2', 12000)];
+
+    const result = await service.executeScraper('civic');
+
+    expect(result.newListings).toMatchObject([
+      { listingId: '1', marketValue: { typicalPrice: 10250, percentile: 10, difference: 20, sampleSize: 10 } },
+    ]);
+    expect(await repository.getListing('civic', '2')).toMatchObject({ marketValue: { percentile: 85, difference: -17 } });
+
+    // A drop into deal territory is alerted with the estimate for the new price
+    scrapeResults = [makeListing('1', 8200), makeListing('2', 8100)];
+    const second = await service.executeScraper('civic');
+    expect(second.priceDrops).toMatchObject([{ listingId: '2', marketValue: { percentile: 9 } }]);
+  });
+
+  it('should read details for new listings up to the limit before filtering', async () => {
+    const descriptions: Record<string, string> = {
+      '1': 'Salvage title, runs great',
+      '2': 'Clean title, 88k miles',
+      '3': 'One owner, clean title',
+    };
+    const fetchDetails = jest.fn(async (listing: Listing) => ({
+      description: descriptions[listing.listingId],
+      condition: 'Used - Good',
+      location: 'Ballard, Seattle, WA',
+    }));
+    jest.mocked(scrapers.createScraper).mockReturnValue({ ...fakeScraper, fetchDetails });
+
+    currentConfig = {
+      ...scraperConfig,
+      priceMax: 15000,
+      filter: 'NOT description ~ salvage',
+      enrichment: { enabled: true, maxPerRun: 2 },
+    };
+    scrapeResults = [makeListing('9', 20000), makeListing('1', 9000), makeListing('2', 9000), makeListing('3', 9000)];
+
+    const result = await service.executeScraper('civic');
+
+    // 9 is over priceMax, 1 is rejected by the filter, and 3 is over the limit so its alert waits
+    expect(fetchDetails.mock.calls.map(([listing]) => listing.listingId)).toEqual(['1', '2']);
+    expect(result.newListings.map(l => l.listingId)).toEqual(['2']);
+    expect(await repository.getListing('civic', '2')).toMatchObject({
+      description: 'Clean title, 88k miles',
+      condition: 'Used - Good',
+      location: 'Ballard, Seattle, WA',
+      enrichedAt: expect.any(String),
+    });
+    expect(await repository.getListing('civic', '1')).toMatchObject({ rejectedAt: expect.any(String) });
+    expect(await repository.getListing('civic', '3')).toMatchObject({ awaitingDetails: true });
+    expect(await repository.getListing('civic', '3')).not.toHaveProperty('enrichedAt');
+    expect(sentPayloads()[0]).toMatchObject({ listing: { listingId: '2', condition: 'Used - Good' } });
+
+    // Stored listings keep their details, the rejected listing isn't read again, and the held one is read and alerted on
+    fetchDetails.mockClear();
+    scrapeResults = [makeListing('1', 9000), makeListing('2', 8000), makeListing('3', 9000)];
+    const second = await service.executeScraper('civic');
+
+    expect(fetchDetails.mock.calls.map(([listing]) => listing.listingId)).toEqual(['3']);
+    expect(second.priceDrops).toMatchObject([{ listingId: '2', description: 'Clean title, 88k miles' }]);
+    expect(second.newListings).toMatchObject([{ listingId: '3', description: 'One owner, clean title' }]);
+    expect(await repository.getListing('civic', '3')).not.toHaveProperty('awaitingDetails');
+  });
+
+  it('should queue notifications on SQS instead of sending them when configured', async () => {
+    const send = jest.spyOn(SQSClient.prototype, 'send').mockResolvedValue({ Failed: [] } as never);
+    process.env.NOTIFICATION_DISPATCHER = 'sqs';
+    process.env.NOTIFICATION_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123/peddler-notifications';
+    scrapeResults = Array.from({ length: 12 }, (_, i) => makeListing(String(i), 9000));
+
+    try {
+      expect((await service.executeScraper('civic')).success).toBe(true);
+
+      const batches = send.mock.calls.map(([command]) => (command as SendMessageBatchCommand).input);
+      expect(batches.map(batch => batch.Entries!.length)).toEqual([10, 2]);
+      expect(JSON.parse(batches[1].Entries![1].MessageBody!)).toMatchObject({ type: 'new_listing', listing: { listingId: '11' } });
+      expect(sentPayloads()).toHaveLength(0);
+    } finally {
+      send.mockRestore();
+      delete process.env.NOTIFICATION_DISPATCHER;
+      delete process.env.NOTIFICATION_QUEUE_URL;
+    }
+  });
+
+  it('should keep each queued batch of notifications under the SQS size limit', async () => {
+    const send = jest.spyOn(SQSClient.prototype, 'send').mockResolvedValue({ Failed: [] } as never);
+    process.env.NOTIFICATION_DISPATCHER = 'sqs';
+    process.env.NOTIFICATION_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123/peddler-notifications';
+    scrapeResults = Array.from({ length: 6 }, (_, i) => ({ ...makeListing(String(i), 9000), description: 'x'.repeat(100 * 1024) }));
+
+    try {
+      expect((await service.executeScraper('civic')).success).toBe(true);
+
+      const batches = send.mock.calls.map(([command]) => (command as SendMessageBatchCommand).input);
+      expect(batches.map(batch => batch.Entries!.length)).toEqual([2, 2, 2]);
+    } finally {
+      send.mockRestore();
+      delete process.env.NOTIFICATION_DISPATCHER;
+      delete process.env.NOTIFICATION_QUEUE_URL;
+    }
+  });
+
+  it('should report unknown scrapers as failures', async () => {
+    const result = await service.executeScraper('missing');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('missing');
+  });
+});
+
+describe('createListingRepository', () => {
+  it('should create the configured backend', () => {
+    expect(createListingRepository('memory')).toBeInstanceOf(InMemoryDatabaseService);
+    expect(() => createListingRepository('postgres')).toThrow('Unsupported storage backend: postgres');
+  });
+});
@@ -0,0 +1,290 @@
+import axios from 'axios';
+import { CraigslistScraper } from '../src/services/scrapers/craigslist';
+import { EbayScraper } from '../src/services/scrapers/ebay';
+import { createScraper, getSupportedMarketplaces, isSupportedMarketplace } from '../src/services/scrapers';
+import { RateLimiter } from '../src/services/rate-limiter';
+import { Listing, ScraperConfig } from '../src/types';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const baseConfig: ScraperConfig = {
+  id: 'cl-tools',
+  name: 'Craigslist Tools',
+  enabled: true,
+  marketplace: 'craigslist',
+  query: 'table saw',
+  location: 'Seattle, WA 98101',
+  radius: 25,
+  priceMin: 100,
+  priceMax: 800,
+  excludeKeywords: ['broken'],
+  scrollDepth: 1,
+  priceDropThreshold: 0.1,
+  notifications: {},
+};
+
+describe('Marketplace Scrapers', () => {
+  // Pacing is covered in rate-limiter.test.ts
+  beforeAll(() => {
+    jest.spyOn(RateLimiter.prototype, 'acquire').mockResolvedValue();
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Scraper registry', () => {
+    it('should list every registered marketplace', () => {
+      expect(getSupportedMarketplaces()).toEqual(['facebook', 'craigslist', 'ebay']);
+      expect(isSupportedMarketplace('ebay')).toBe(true);
+      expect(isSupportedMarketplace('offerup')).toBe(false);
+    });
+
+    it('should create scrapers with declared capabilities', () => {
+      const scraper = createScraper('ebay');
+
+      expect(scraper).toBeInstanceOf(EbayScraper);
+      expect(scraper.capabilities.supportsAuctions).toBe(true);
+      expect(scraper.credentialsKey).toBeUndefined();
+      expect(createScraper('facebook').credentialsKey).toBe('facebook-cookies');
+    });
+
+    it('should reject unknown marketplaces', () => {
+      expect(() => createScraper('offerup')).toThrow('Unsupported marketplace type: offerup');
+    });
+  });
+
+  describe('CraigslistScraper', () => {
+    const html = `
+      <ol class="cl-static-search-results">
+        <li class="cl-static-search-result" title="DeWalt table saw">
+          <a href="https://seattle.craigslist.org/see/tls/d/seattle-dewalt-table-saw/7712345678.html">
+            <div class="title">DeWalt table saw</div>
+            <div class="details"><div class="price">$450</div><div class="location">Ballard</div></div>
+          </a>
+        </li>
+        <li class="cl-static-search-result" title="Broken table saw">
+          <a href="https://seattle.craigslist.org/see/tls/d/seattle-broken-saw/7712345679.html">
+            <div class="title">Broken table saw</div>
+            <div class="details"><div class="price">$150</div></div>
+          </a>
+        </li>
+        <li class="cl-static-search-result" title="Cabinet saw">
+          <a href="https://seattle.craigslist.org/see/tls/d/seattle-cabinet-saw/7712345680.html">
+            <div class="title">Cabinet saw</div>
+            <div class="details"><div class="price">$2,400</div></div>
+          </a>
+        </li>
+      </ol>`;
+
+    beforeEach(() => {
+      mockedAxios.get.mockReset();
+      mockedAxios.get.mockResolvedValue({ data: html });
+    });
+
+    it('should build the search URL from the scraper configuration', async () => {
+      await new CraigslistScraper().scrape(baseConfig);
+
+      const url = new URL(mockedAxios.get.mock.calls[0][0]);
+      expect(url.hostname).toBe('seattle.craigslist.org');
+      expect(url.pathname).toBe('/search/sss');
+      expect(url.searchParams.get('query')).toBe('table saw');
+      expect(url.searchParams.get('min_price')).toBe('100');
+      expect(url.searchParams.get('max_price')).toBe('800');
+      expect(url.searchParams.get('search_distance')).toBe('25');
+      expect(url.searchParams.get('postal')).toBe('98101');
+    });
+
+    it('should map metro names to their Craigslist site', async () => {
+      await new CraigslistScraper().scrape({ ...baseConfig, location: 'San Francisco, CA' });
+
+      const url = new URL(mockedAxios.get.mock.calls[0][0]);
+      expect(url.hostname).toBe('sfbay.craigslist.org');
+      expect(url.searchParams.has('postal')).toBe(false);
+    });
+
+    it('should parse listings with stable IDs', async () => {
+      const listings = await new CraigslistScraper().scrape(baseConfig);
+
+      // Keyword and price filters are applied by ScraperService, not the scraper
+      expect(listings.map(listing => listing.listingId)).toEqual(['7712345678', '7712345679', '7712345680']);
+      expect(listings[0]).toMatchObject({
+        scraperId: 'cl-tools',
+        listingId: '7712345678',
+        title: 'DeWalt table saw',
+        price: 450,
+        currency: 'USD',
+        location: 'Ballard',
+        url: 'https://seattle.craigslist.org/see/tls/d/seattle-dewalt-table-saw/7712345678.html',
+      });
+    });
+
+    it('should keep results that show no price', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: `
+          <li class="cl-static-search-result" title="Saw horses">
+            <a href="https://seattle.craigslist.org/see/tls/d/seattle-saw-horses/7712345681.html">
+              <div class="title">Saw horses</div>
+              <div class="details"><div class="location">Fremont</div></div>
+            </a>
+          </li>`,
+      });
+
+      const listings = await new CraigslistScraper().scrape(baseConfig);
+      expect(listings).toEqual([expect.objectContaining({ listingId: '7712345681', price: 0, priceStatus: 'contact' })]);
+    });
+
+    it('should read a bare "$" as the scraper\'s currency', async () => {
+      const [listing] = await new CraigslistScraper().scrape({ ...baseConfig, location: 'Vancouver, BC', currency: 'CAD' });
+      expect(listing).toMatchObject({ price: 450, currency: 'CAD' });
+    });
+
+    it('should read details from the posting page', async () => {
+      const [listing] = await new CraigslistScraper().scrape(baseConfig);
+      mockedAxios.get.mockResolvedValueOnce({
+        data: `
+          <span class="postingtitletext">DeWalt table saw - $450 <small> (Ballard)</small></span>
+          <div id="thumbs"><a href="https://images.craigslist.org/a_600x450.jpg"></a><a href="https://images.craigslist.org/b_600x450.jpg"></a></div>
+          <section id="postingbody">
+            <div class="print-information print-qrcode-container"><p class="print-qrcode-label">QR Code Link to This Post</p></div>
+            Works great, fence and blade guard included. Parts only if you want the motor.
+          </section>
+          <div class="attrgroup"><div class="attr"><span class="labl">condition:</span> <span class="valu">good</span></div></div>
+          <div id="map" data-latitude="47.6687" data-longitude="-122.3847" data-accuracy="10"></div>
+          <p class="postinginfo reveal">posted: <time class="date timeago" datetime="2024-03-04T09:30:00-0800">2024-03-04 9:30am</time></p>`,
+      });
+
+      expect(await new CraigslistScraper().fetchDetails(listing)).toEqual({
+        description: 'Works great, fence and blade guard included. Parts only if you want the motor.',
+        condition: 'good',
+        postedAt: '2024-03-04T17:30:00.000Z',
+        location: 'Ballard',
+        coordinates: { latitude: 47.6687, longitude: -122.3847 },
+        imageUrls: ['https://images.craigslist.org/a_600x450.jpg', 'https://images.craigslist.org/b_600x450.jpg'],
+      });
+      expect(mockedAxios.get.mock.calls[1][0]).toBe(listing.url);
+    });
+
+    it('should back off the host when Craigslist answers with a 429', async () => {
+      const backOff = jest.spyOn(RateLimiter.prototype, 'backOff').mockResolvedValue(120000);
+      mockedAxios.get.mockRejectedValueOnce({ response: { status: 429, headers: { 'retry-after': '120' } } });
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(new CraigslistScraper().scrape(baseConfig))
+        .rejects.toThrow('Marketplace asked for fewer requests: seattle.craigslist.org');
+      expect(backOff).toHaveBeenCalledWith('craigslist', expect.stringContaining('https://seattle.craigslist.org/'), 'rate_limited', 120000);
+
+      jest.mocked(console.error).mockRestore();
+      backOff.mockRestore();
+    });
+  });
+
+  describe('EbayScraper', () => {
+    const ebayConfig: ScraperConfig = {
+      ...baseConfig,
+      id: 'ebay-lens',
+      marketplace: 'ebay',
+      query: 'canon 50mm',
+      location: 'Seattle, WA',
+      priceMin: undefined,
+      priceMax: 500,
+      excludeKeywords: undefined,
+    };
+
+    const html = `
+      <ul class="srp-results">
+        <li class="s-item">
+          <a class="s-item__link" href="https://www.ebay.com/itm/123456"><div class="s-item__title">Shop on eBay</div></a>
+          <span class="s-item__price">$20.00</span>
+        </li>
+        <li class="s-item">
+          <a class="s-item__link" href="https://www.ebay.com/itm/334455667788?hash=item4e">
+            <div class="s-item__title"><span class="LIGHT_HIGHLIGHT">New Listing</span>Canon EF 50mm f/1.8 STM</div>
+          </a>
+          <span class="s-item__price">$85.00</span>
+          <span class="s-item__bids s-item__bidCount">7 bids</span>
+          <span class="s-item__time-left">1h 30m left</span>
+          <span class="s-item__location">from Portland, OR</span>
+        </li>
+        <li class="s-item">
+          <a class="s-item__link" href="https://www.ebay.com/itm/998877665544">
+            <div class="s-item__title">Canon EF 50mm f/1.4 USM</div>
+          </a>
+          <span class="s-item__price">$249.99</span>
+          <span class="s-item__purchase-options">Buy It Now</span>
+          <span class="s-item__seller-info-text">lens_outlet (1,204) 99.6%</span>
+        </li>
+      </ul>`;
+
+    beforeEach(() => {
+      mockedAxios.get.mockReset();
+      mockedAxios.get.mockResolvedValueOnce({ data: html }).mockResolvedValue({ data: '' });
+    });
+
+    it('should parse auction and Buy It Now listings', async () => {
+      const listings = await new EbayScraper().scrape({ ...ebayConfig, scrollDepth: 1 });
+
+      expect(listings).toHaveLength(2);
+
+      const [auction, buyItNow] = listings;
+      expect(auction).toMatchObject({
+        listingId: '334455667788',
+        title: 'Canon EF 50mm f/1.8 STM',
+        price: 85,
+        location: 'Portland, OR',
+        url: 'https://www.ebay.com/itm/334455667788',
+        listingType: 'auction',
+        auction: { currentBid: 85, bidCount: 7 },
+      });
+
+      const remainingMs = new Date(auction.auction!.endTime!).getTime() - Date.now();
+      expect(remainingMs).toBeGreaterThan(89 * 60 * 1000);
+      expect(remainingMs).toBeLessThanOrEqual(90 * 60 * 1000);
+
+      expect(buyItNow).toMatchObject({
+        listingId: '998877665544',
+        price: 249.99,
+        listingType: 'fixed_price',
+        seller: 'lens_outlet',
+      });
+      expect(buyItNow.auction).toBeUndefined();
+    });
+
+    it('should read details and the description frame from the item page', async () => {
+      mockedAxios.get.mockReset();
+      mockedAxios.get
+        .mockResolvedValueOnce({
+          data: `
+            <div class="x-item-condition-text"><span class="ux-textspans">Used</span></div>
+            <div class="x-sellercard-atf__info__about-seller"><span class="ux-textspans">lens_outlet</span></div>
+            <div class="ux-labels-values__values"><span class="ux-textspans">Located in: Portland, Oregon, United States</span></div>
+            <div class="ux-image-carousel-item"><img data-zoom-src="https://i.ebayimg.com/1.jpg" src="https://i.ebayimg.com/1s.jpg"></div>
+            <div class="ux-image-carousel-item"><img src="https://i.ebayimg.com/2.jpg"></div>
+            <iframe id="desc_ifr" src="https://vi.vipr.ebaydesc.com/item/334455667788"></iframe>`,
+        })
+        .mockResolvedValueOnce({ data: '<html><body><p>Light haze,</p>\n<p>sold as is.</p></body></html>' });
+
+      const details = await new EbayScraper().fetchDetails({ url: 'https://www.ebay.com/itm/334455667788' } as Listing);
+
+      expect(details).toEqual({
+        condition: 'Used',
+        seller: 'lens_outlet',
+        location: 'Portland, Oregon, United States',
+        imageUrls: ['https://i.ebayimg.com/1.jpg', 'https://i.ebayimg.com/2.jpg'],
+        description: 'Light haze, sold as is.',
+      });
+      expect(mockedAxios.get.mock.calls[1][0]).toBe('https://vi.vipr.ebaydesc.com/item/334455667788');
+    });
+
+    it('should stop paging once a results page comes back empty', async () => {
+      await new EbayScraper().scrape({ ...ebayConfig, scrollDepth: 3 });
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+
+      const url = new URL(mockedAxios.get.mock.calls[1][0]);
+      expect(url.searchParams.get('_nkw')).toBe('canon 50mm');
+      expect(url.searchParams.get('_udhi')).toBe('500');
+      expect(url.searchParams.get('_pgn')).toBe('2');
+    });
+  });
+});
@@ -1,7 +1,10 @@
+import { SSMClient } from '@aws-sdk/client-ssm';
 import { ConfigService } from '../src/services/config';
 import { DatabaseService } from '../src/services/database';
+import { SqliteDatabaseService } from '../src/services/sqlite-database';
 import { ScraperService } from '../src/services/scraper';
 import { NotificationService } from '../src/services/notification';
+import { getChannelConfigs } from '../src/services/notifiers';
 import { Listing, ScraperConfig } from '../src/types';
 
 // Mock AWS SDK
@@ -23,6 +26,22 @@ describe('Peddler Core Services', () => {
     it('should initialize without errors', () => {
       expect(() => new ConfigService()).not.toThrow();
     });
+
+    it('should reject scrapers for unregistered marketplaces', async () => {
+      const configService = new ConfigService();
+      const ssmClient = jest.mocked(SSMClient).mock.instances.at(-1)!;
+      jest.mocked(ssmClient.send).mockResolvedValue({
+        Parameter: {
+          Value: JSON.stringify({
+            scrapers: [{ id: 'offerup-bikes', marketplace: 'offerup' }],
+          }),
+        },
+      } as never);
+
+      await expect(configService.getConfig()).rejects.toThrow(
+        '$.scrapers[0].marketplace: unsupported marketplace "offerup" (supported: facebook, craigslist, ebay)'
+      );
+    });
   });
 
   describe('DatabaseService', () => {
@@ -31,6 +50,85 @@ describe('Peddler Core Services', () => {
     });
   });
 
+  describe('SqliteDatabaseService', () => {
+    const listing: Listing = {
+      scraperId: 'test-scraper',
+      listingId: 'listing-1',
+      title: 'Test Item',
+      price: 100,
+      location: 'Test Location',
+      url: 'https://example.com',
+      firstSeen: '2024-01-01T00:00:00.000Z',
+      lastSeen: '2024-01-01T00:00:00.000Z',
+      expiresAt: 0,
+    };
+
+    let db: SqliteDatabaseService;
+
+    beforeEach(() => {
+      db = new SqliteDatabaseService(':memory:');
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should save and get listings with a TTL', async () => {
+      await db.saveListing(listing);
+
+      const saved = await db.getListing('test-scraper', 'listing-1');
+      expect(saved).toMatchObject({ title: 'Test Item', price: 100 });
+      expect(saved!.expiresAt).toBeGreaterThan(Date.now() / 1000);
+      expect(await db.getListing('test-scraper', 'missing')).toBeNull();
+    });
+
+    it('should keep the previous price when the price changes', async () => {
+      await db.saveListing(listing);
+
+      const updated = await db.updateListingPrice('test-scraper', 'listing-1', 80, '2024-01-02T00:00:00.000Z');
+
+      expect(updated).toMatchObject({ price: 80, previousPrice: 100, lastSeen: '2024-01-02T00:00:00.000Z' });
+      expect(await db.getListingsByScraperId('test-scraper')).toHaveLength(1);
+    });
+
+    it('should store pending digest items until cleared', async () => {
+      await db.addToDigest('test-scraper', 'slack', [{ type: 'new_listing', listing }]);
+      await db.addToDigest('test-scraper', 'slack', [{ type: 'price_drop', listing, priceDropPercentage: 20 }]);
+
+      const digest = await db.getDigest('test-scraper', 'slack');
+      expect(digest.items.map(item => item.type)).toEqual(['new_listing', 'price_drop']);
+      expect(digest.startedAt).toBeDefined();
+
+      await db.clearDigest('test-scraper', 'slack', '2024-01-02T00:00:00.000Z');
+      expect(await db.getDigest('test-scraper', 'slack')).toEqual({ items: [], lastSentAt: '2024-01-02T00:00:00.000Z' });
+      expect(await db.getDigest('test-scraper', 'telegram')).toEqual({ items: [] });
+      expect(await db.getDigest('test-scraper', 'slack', 'held')).toEqual({ items: [] });
+    });
+
+    it('should count sent notifications per hour window', async () => {
+      expect(await db.incrementSentCount('test-scraper', 'slack', '2024-01-01T10:00:00.000Z')).toBe(1);
+      expect(await db.incrementSentCount('test-scraper', 'slack', '2024-01-01T10:00:00.000Z')).toBe(2);
+      expect(await db.incrementSentCount('test-scraper', 'slack', '2024-01-01T11:00:00.000Z')).toBe(1);
+    });
+
+    it('should find listings by fingerprint across scrapers', async () => {
+      await db.saveListing({ ...listing, fingerprint: 'testlocation#48' });
+      await db.saveListing({ ...listing, scraperId: 'other-scraper', fingerprint: 'testlocation#48' });
+      await db.saveListing({ ...listing, listingId: 'listing-2', fingerprint: 'testlocation#50' });
+
+      const matches = await db.getListingsByFingerprint('testlocation#48');
+      expect(matches.map(match => match.scraperId).sort()).toEqual(['other-scraper', 'test-scraper']);
+    });
+
+    it('should delete listings not seen recently', async () => {
+      await db.saveListing(listing);
+      await db.saveListing({ ...listing, listingId: 'listing-2', lastSeen: new Date().toISOString() });
+
+      expect(await db.cleanupOldListings('test-scraper', 30)).toBe(1);
+      expect(await db.getListingsByScraperId('test-scraper')).toHaveLength(1);
+    });
+  });
+
   describe('ScraperService', () => {
     it('should initialize without errors', () => {
       expect(() => new ScraperService()).not.toThrow();
@@ -92,7 +190,7 @@ describe('Peddler Core Services', () => {
 
       expect(config.marketplace).toBe('facebook');
       expect(config.priceDropThreshold).toBe(0.1);
-      expect(config.notifications.slack?.enabled).toBe(true);
+      expect(getChannelConfigs(config.notifications)).toEqual([{ type: 'slack', enabled: true, webhook: 'test-webhook' }]);
     });
   });
 });
@@ -0,0 +1,69 @@
+import { findTemplateError, renderTemplate } from '../src/services/notifiers/templates';
+import { createSamplePayload, previewTemplates } from '../src/services/notifiers/preview';
+import { NotificationPayload, ScraperConfig } from '../src/types';
+
+const scraper: ScraperConfig = {
+  id: 'civic',
+  name: 'Honda Civic',
+  enabled: true,
+  marketplace: 'facebook',
+  query: 'honda civic',
+  location: 'Seattle, WA',
+  radius: 25,
+  scrollDepth: 1,
+  priceDropThreshold: 0.1,
+  notifications: [{ type: 'slack', enabled: true, webhook: 'slack-webhook-url-from-secrets' }],
+  templates: {
+    slack: { new_listing: '{{emoji}} {{title}} for {{price}}' },
+    pushover: { price_drop: '{{title}}\n{{dropPercent}}% off, now {{price}}' },
+  },
+};
+
+const now = new Date('2024-03-10T12:00:00.000Z');
+
+describe('renderTemplate', () => {
+  const payload: NotificationPayload = createSamplePayload(scraper, 'price_drop', now);
+
+  it('should fill in placeholders', () => {
+    expect(renderTemplate('{{ scraper.name }}: {{title}} dropped {{dropPercent}}% to {{price}} in {{location}}', payload))
+      .toBe('Honda Civic: 2015 Honda Civic EX - 6 speed manual dropped 10.0% to $9,000 in Seattle, WA');
+  });
+
+  it('should keep conditional sections only when the value is set', () => {
+    const template = '{{price}}{{#if previousPrice}} (was {{previousPrice}}){{else}} (new){{/if}}{{#unless bids}}, fixed price{{/unless}}';
+
+    expect(renderTemplate(template, payload)).toBe('$9,000 (was $10,000), fixed price');
+    expect(renderTemplate(template, createSamplePayload(scraper, 'auction_ending', now))).toBe('$9,000 (new)');
+  });
+
+  it('should escape placeholder values but not the template text', () => {
+    const escape = (value: string): string => value.replace(/-/g, '\\-');
+
+    expect(renderTemplate('*{{title}}* - {{price}}', payload, escape)).toBe('*2015 Honda Civic EX \\- 6 speed manual* - $9,000');
+  });
+
+  it('should describe invalid templates', () => {
+    expect(findTemplateError('{{title}} {{#if price}}cheap{{/if}}')).toBeUndefined();
+    expect(findTemplateError('{{titel}}')).toBe('unknown placeholder {{titel}}');
+    expect(findTemplateError('{{constructor}}')).toBe('unknown placeholder {{constructor}}');
+    expect(findTemplateError('{{#if toString}}x{{/if}}')).toBe('unknown placeholder {{toString}}');
+    expect(findTemplateError('{{#if price}}cheap')).toBe('{{#if price}} is never closed');
+    expect(findTemplateError('{{#if price}}cheap{{/unless}}')).toBe('unexpected {{/unless}}');
+    expect(findTemplateError('{{else}}')).toBe('{{else}} outside of an {{#if}} or {{#unless}} block');
+  });
+});
+
+describe('previewTemplates', () => {
+  it('should render each configured template against a sample listing', () => {
+    expect(previewTemplates(scraper)).toEqual([
+      { channel: 'slack', type: 'new_listing', output: '🆕 2015 Honda Civic EX - 6 speed manual for $9,000' },
+      { channel: 'pushover', type: 'price_drop', output: '2015 Honda Civic EX - 6 speed manual\n10.0% off, now $9,000' },
+    ]);
+  });
+
+  it('should render a template given on the command line for the selected type', () => {
+    expect(previewTemplates(scraper, { template: '{{heading}}: {{title}}', type: 'relisted' })).toEqual([
+      { type: 'relisted', output: 'Listing Relisted: 2015 Honda Civic EX - 6 speed manual' },
+    ]);
+  });
+});